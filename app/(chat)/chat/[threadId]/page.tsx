@@ -1,11 +1,18 @@
 'use client'
 
-import { useParams } from 'next/navigation'
+import { useParams, useSearchParams } from 'next/navigation'
 import ChatInterface from '@/components/chat/ChatInterface'
 
 export default function ChatPage() {
   const params = useParams()
   const threadId = params.threadId as string
+  // Set by the search palette to jump to a matching message
+  const highlightMessageId = useSearchParams().get('m') ?? undefined
 
-  return <ChatInterface threadId={threadId} />
+  return (
+    <ChatInterface
+      threadId={threadId}
+      highlightMessageId={highlightMessageId}
+    />
+  )
 }
@@ -2,12 +2,19 @@
 
 import { SidebarProvider, SidebarInset } from '@/components/ui/sidebar'
 import { ChatSidebar } from '@/components/chat/ChatSidebar'
+import { useBackgroundSync } from '@/hooks/use-local-history'
+import { useShortcutManager } from '@/hooks/use-shortcuts'
 
 export default function ChatLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
+  // Mirror history to this device while cloud sync is on
+  useBackgroundSync()
+  // Keyboard shortcuts from the user's preferences
+  useShortcutManager()
+
   return (
     <SidebarProvider>
       <ChatSidebar />
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import { ApiKeyService } from '@/lib/api-keys/service'
+import { ApiKeyError, UpdateApiKeySchema } from '@/lib/api-keys/types'
+import { z } from 'zod'
+
+// Rename and/or rotate a key
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { keyId } = await params
+    const body = await req.json()
+    const validatedBody = UpdateApiKeySchema.parse(body)
+
+    const key = await ApiKeyService.updateKey(
+      session.user.id,
+      keyId,
+      validatedBody
+    )
+
+    return NextResponse.json({ key, success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'NOT_FOUND' ? 404 : 500 }
+      )
+    }
+
+    console.error('API key update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update API key' },
+      { status: 500 }
+    )
+  }
+}
+
+// Revoke (permanently delete) a key
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { keyId } = await params
+    await ApiKeyService.revokeKey(session.user.id, keyId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof ApiKeyError && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error('API key revoke error:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import { ApiKeyService } from '@/lib/api-keys/service'
+import { ApiKeyError } from '@/lib/api-keys/types'
+
+// Re-check a key against its provider on demand
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { keyId } = await params
+    const key = await ApiKeyService.validateKey(session.user.id, keyId)
+
+    return NextResponse.json({ key, success: true })
+  } catch (error) {
+    if (error instanceof ApiKeyError && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error('API key validation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to validate API key' },
+      { status: 500 }
+    )
+  }
+}
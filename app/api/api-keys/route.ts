@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import { ApiKeyService } from '@/lib/api-keys/service'
+import { ApiKeyError, CreateApiKeySchema } from '@/lib/api-keys/types'
+import { z } from 'zod'
+
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const keys = await ApiKeyService.listKeys(session.user.id)
+
+    return NextResponse.json({ keys, success: true })
+  } catch (error) {
+    console.error('API key list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if ((session.user as { isAnonymous?: boolean }).isAnonymous) {
+      return NextResponse.json(
+        { error: 'Sign in to use your own API keys' },
+        { status: 403 }
+      )
+    }
+
+    const body = await req.json()
+    const validatedBody = CreateApiKeySchema.parse(body)
+
+    const key = await ApiKeyService.createKey(session.user.id, validatedBody)
+
+    return NextResponse.json({ key, success: true }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 500 }
+      )
+    }
+
+    console.error('API key create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to store API key' },
+      { status: 500 }
+    )
+  }
+}
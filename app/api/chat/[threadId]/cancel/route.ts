@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { abortTask } from '@/lib/ai/streaming'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import { ConvexHttpClient } from 'convex/browser'
+import { api } from '@/convex/_generated/api'
+import { z } from 'zod'
+
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!)
+
+const cancelRequestSchema = z.object({
+  taskId: z.string().optional(), // Defaults to the thread's active task
+})
+
+/**
+ * Stop a running generation. The partial reply is kept with a `cancelled`
+ * finish reason and only the tokens produced are billed (see stream route).
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ threadId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user) {
+      return new Response('Unauthorized', { status: 401 })
+    }
+
+    const userId = session.user.id
+    const { threadId } = await params
+    const body = await req.json().catch(() => ({}))
+    const { taskId: requestedTaskId } = cancelRequestSchema.parse(body)
+
+    const thread = await convex.query(api.threads.getById, {
+      threadId,
+      userId,
+    })
+    if (!thread) {
+      return NextResponse.json({ error: 'Thread not found' }, { status: 404 })
+    }
+
+    const taskId = requestedTaskId ?? thread.activeTaskId
+    if (!taskId) {
+      return NextResponse.json(
+        { error: 'No generation is running for this thread' },
+        { status: 409 }
+      )
+    }
+
+    const task = await convex.query(api.streamingTasks.getByTaskId, { taskId })
+    if (!task || task.threadId !== threadId || task.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Streaming task not found' },
+        { status: 404 }
+      )
+    }
+
+    // Mark the task first so instances that don't own it stop at their
+    // next token flush, then abort locally if it streams here
+    const result = await convex.mutation(api.streamingTasks.cancel, {
+      taskId,
+      userId,
+    })
+    if (!result.success) {
+      return NextResponse.json(
+        { error: `Generation already ${result.status}` },
+        { status: 409 }
+      )
+    }
+
+    const aborted = abortTask(taskId)
+    console.log(
+      `⏹️ Cancel requested for task ${taskId} (${aborted ? 'aborted locally' : 'pending next flush'})`
+    )
+
+    return NextResponse.json({ success: true, taskId, aborted })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Cancel API error:', error)
+    return new Response('Internal server error', { status: 500 })
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { createDataStreamResponse, formatDataStreamPart } from 'ai'
 import { auth } from '@/lib/auth'
 import { headers } from 'next/headers'
 import { ConvexHttpClient } from 'convex/browser'
@@ -6,9 +7,22 @@ import { api } from '@/convex/_generated/api'
 
 const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!)
 
+const POLL_INTERVAL_MS = 250
+// A task that hasn't produced a token for this long is treated as dead
+const STALL_TIMEOUT_MS = 2 * 60 * 1000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Replay a streaming task from a cursor and follow it live until it
+ * completes, fails or is cancelled. The cursor comes from the Last-Event-ID
+ * header or the `cursor` query param (a currentTokenIndex, the length of the
+ * text already seen). Speaks the same data stream protocol as
+ * toDataStreamResponse.
+ */
 export async function GET(
   req: NextRequest,
-  { params }: { params: { threadId: string } }
+  { params }: { params: Promise<{ threadId: string }> }
 ) {
   try {
     const session = await auth.api.getSession({
@@ -19,7 +33,7 @@ export async function GET(
       return new Response('Unauthorized', { status: 401 })
     }
 
-    const { threadId } = params
+    const { threadId } = await params
     const { searchParams } = new URL(req.url)
     const taskId = searchParams.get('taskId')
 
@@ -27,10 +41,17 @@ export async function GET(
       return NextResponse.json({ error: 'Task ID required' }, { status: 400 })
     }
 
+    const cursor = Number(
+      req.headers.get('Last-Event-ID') ?? searchParams.get('cursor') ?? 0
+    )
+    if (!Number.isInteger(cursor) || cursor < 0) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 })
+    }
+
     // Get the streaming task
     const task = await convex.query(api.streamingTasks.getByTaskId, { taskId })
 
-    if (!task) {
+    if (!task || task.threadId !== threadId) {
       return NextResponse.json(
         { error: 'Streaming task not found' },
         { status: 404 }
@@ -44,65 +65,87 @@ export async function GET(
       )
     }
 
-    // Check if task is resumable
-    if (task.status === 'completed') {
-      return NextResponse.json({
-        message: 'Stream already completed',
-        accumulatedTokens: task.accumulatedTokens,
-      })
-    }
-
-    if (task.status === 'failed') {
-      return NextResponse.json(
-        { error: 'Stream failed and cannot be resumed' },
-        { status: 400 }
-      )
-    }
-
-    // Update task status to indicate client reconnection
-    await convex.mutation(api.streamingTasks.updateStatus, {
-      taskId,
-      status: 'streaming',
-    })
+    return createDataStreamResponse({
+      headers: { 'X-Task-Id': taskId },
+      execute: async (dataStream) => {
+        let tokenIndex = cursor
+        let current = task
+
+        dataStream.write(
+          formatDataStreamPart('start_step', {
+            messageId: current.messageId ?? taskId,
+          })
+        )
+
+        while (!req.signal.aborted) {
+          const text = (current.content ?? '').slice(tokenIndex)
+          if (text) {
+            dataStream.write(formatDataStreamPart('text', text))
+          }
+          tokenIndex += text.length
+
+          if (
+            current.status === 'completed' ||
+            current.status === 'failed' ||
+            current.status === 'cancelled'
+          ) {
+            break
+          }
 
-    // Create a stream of accumulated tokens from the resume point
-    const stream = new ReadableStream({
-      start(controller) {
-        let tokenIndex = task.currentTokenIndex
+          const lastActivity = current.lastTokenAt ?? current.startedAt
+          if (Date.now() - lastActivity > STALL_TIMEOUT_MS) {
+            dataStream.write(
+              formatDataStreamPart('error', 'Stream stalled and was abandoned')
+            )
+            break
+          }
 
-        const sendTokens = () => {
-          const tokensToSend = task.accumulatedTokens.slice(tokenIndex)
+          await sleep(POLL_INTERVAL_MS)
 
-          for (const token of tokensToSend) {
-            const data = JSON.stringify({
-              type: 'text-delta',
-              textDelta: token,
-            })
-            controller.enqueue(`data: ${data}\n\n`)
+          const latest = await convex.query(api.streamingTasks.getByTaskId, {
+            taskId,
+          })
+          if (!latest) {
+            dataStream.write(
+              formatDataStreamPart('error', 'Streaming task was removed')
+            )
+            break
           }
+          current = latest
+        }
 
-          if (task.status === 'completed') {
-            const finishData = JSON.stringify({
-              type: 'finish',
-              finishReason: 'stop',
-            })
-            controller.enqueue(`data: ${finishData}\n\n`)
-            controller.close()
-          } else {
-            // Continue polling for new tokens
-            setTimeout(sendTokens, 100)
-          }
+        if (req.signal.aborted) {
+          return
         }
 
-        sendTokens()
-      },
-    })
+        if (current.status === 'failed') {
+          dataStream.write(
+            formatDataStreamPart(
+              'error',
+              current.error?.message ?? 'Stream failed'
+            )
+          )
+        }
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        Connection: 'keep-alive',
+        const finishReason =
+          current.status === 'completed'
+            ? 'stop'
+            : current.status === 'cancelled'
+              ? 'other'
+              : 'error'
+        dataStream.write(
+          formatDataStreamPart('finish_step', {
+            finishReason,
+            isContinued: false,
+          })
+        )
+        dataStream.write(
+          formatDataStreamPart('finish_message', { finishReason })
+        )
+      },
+      onError: (error) => {
+        console.error('Resume stream error:', error)
+        return 'Failed to resume stream'
       },
     })
   } catch (error) {
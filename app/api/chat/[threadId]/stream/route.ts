@@ -1,31 +1,111 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { openai } from '@ai-sdk/openai'
-import { streamText } from 'ai'
+import { NextRequest, NextResponse, after } from 'next/server'
+import { CoreMessage, streamText } from 'ai'
+import {
+  getAttachmentTools,
+  inlineTextAttachments,
+  needsVision,
+  toCoreMessage,
+} from '@/lib/ai/attachments'
+import { assembleContext, estimatePromptTokens } from '@/lib/ai/context'
+import {
+  buildResearchPrompt,
+  createResearchRun,
+  MAX_RESEARCH_STEPS,
+} from '@/lib/ai/research'
+import { resolveModel } from '@/lib/ai/providers'
+import {
+  createReasoningWriter,
+  createSourceRecorder,
+  createTokenWriter,
+  createToolCallRecorder,
+  registerTask,
+  releaseTask,
+} from '@/lib/ai/streaming'
+import { buildSystemPrompt } from '@/lib/ai/system-prompt'
+import { generateThreadTitle } from '@/lib/ai/title'
+import { createToolSet, getToolCreditKeys, selectTools } from '@/lib/ai/tools'
+import {
+  ContextLengthError,
+  ModelResolutionError,
+  REASONING_EFFORTS,
+} from '@/lib/ai/types'
 import { auth } from '@/lib/auth'
 import { headers } from 'next/headers'
 import { RateLimitService } from '@/lib/rate-limiting/service'
-import { calculateCreditCost } from '@/lib/rate-limiting/credits'
+import {
+  calculateCreditCost,
+  estimateTokenCount,
+} from '@/lib/rate-limiting/credits'
+import { ApiKeyService } from '@/lib/api-keys/service'
+import {
+  AttachmentSchema,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+} from '@/lib/attachments/types'
+import { getSearchBackend } from '@/lib/search/backends'
+import { SearchError } from '@/lib/search/types'
+import { isUploadedAssetUrl } from '@/lib/upload-image'
 import { ConvexHttpClient } from 'convex/browser'
 import { api } from '@/convex/_generated/api'
+import { Id } from '@/convex/_generated/dataModel'
 import { z } from 'zod'
 import { nanoid } from 'nanoid'
 
 const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!)
 
-const streamRequestSchema = z.object({
-  messages: z.array(
-    z.object({
-      role: z.enum(['user', 'assistant', 'system']),
-      content: z.string(),
-    })
-  ),
-  model: z.string(),
-  continueFromTaskId: z.optional(z.string()),
-})
+// Model calls per turn when tools are enabled (tool round trips + answer)
+const MAX_TOOL_STEPS = 5
+
+const streamRequestSchema = z
+  .object({
+    content: z.string().trim().min(1).optional(),
+    model: z.string(),
+    // Files uploaded through /api/upload-image for a new message
+    attachments: z
+      .array(
+        AttachmentSchema.refine(
+          (attachment) => isUploadedAssetUrl(attachment.url),
+          {
+            message: 'Attachments must be uploaded first',
+          }
+        )
+      )
+      .max(MAX_ATTACHMENTS_PER_MESSAGE)
+      .optional(),
+    // Registry tools to offer the model (see lib/ai/tools.ts)
+    tools: z.array(z.string()).max(20).default([]),
+    // Deep research: plan, search and write a cited report (see
+    // lib/ai/research.ts); replaces the registry tools for this turn
+    research: z.boolean().default(false),
+    // Applied to reasoning models whose provider supports an effort setting
+    reasoningEffort: z.enum(REASONING_EFFORTS).optional(),
+    // Rewrite an earlier user message instead of appending a new one
+    editMessageId: z.string().optional(),
+    editMode: z.enum(['truncate', 'keep']).default('keep'),
+    // Re-run an assistant reply, keeping earlier attempts as versions
+    regenerateMessageId: z.string().optional(),
+  })
+  .refine((data) => data.regenerateMessageId || data.content, {
+    message: 'Message content is required',
+  })
+  .refine((data) => !(data.regenerateMessageId && data.editMessageId), {
+    message: 'Cannot edit and regenerate in the same request',
+  })
+  .refine(
+    (data) =>
+      !data.attachments?.length ||
+      !(data.editMessageId || data.regenerateMessageId),
+    { message: 'Attachments can only be sent with a new message' }
+  )
 
+/**
+ * Single write path for a chat turn: persists the user message (or an edit of
+ * an earlier one, or a new version of a reply), streams the reply into a
+ * streamingTasks row and finalizes everything server-side. Generation runs to
+ * completion even if the client disconnects.
+ */
 export async function POST(
   req: NextRequest,
-  { params }: { params: { threadId: string } }
+  { params }: { params: Promise<{ threadId: string }> }
 ) {
   try {
     const session = await auth.api.getSession({
@@ -36,26 +116,143 @@ export async function POST(
       return new Response('Unauthorized', { status: 401 })
     }
 
-    const { threadId } = params
+    const userId = session.user.id
+    const { threadId } = await params
     const body = await req.json()
-    const { messages, model, continueFromTaskId } =
-      streamRequestSchema.parse(body)
+    const {
+      content,
+      model,
+      attachments,
+      tools: requestedTools,
+      research,
+      reasoningEffort,
+      editMessageId,
+      editMode,
+      regenerateMessageId,
+    } = streamRequestSchema.parse(body)
+
+    // Resolve the catalog model to its provider (rejects disabled/deprecated)
+    // Uses the user's own key for that provider when they have a valid one
+    const resolved = await resolveModel(model, { userId })
+    // Requested tools this model can use (none without supportsTools)
+    const tools = research ? [] : selectTools(requestedTools, resolved)
+    // Fails early when the configured search backend is unavailable
+    const searchBackend = research ? getSearchBackend() : null
+
+    // Load the thread (created on the first message) and its history
+    const thread = await convex.query(api.threads.getById, {
+      threadId,
+      userId,
+    })
+
+    const activePath = thread
+      ? await convex.query(api.messages.getByThread, { threadId, userId })
+      : []
 
-    // Verify thread ownership
-    const thread = await convex.query(api.threads.getById, { threadId })
-    if (!thread) {
-      return new Response('Thread not found', { status: 404 })
+    // When editing or regenerating, the context is everything before the
+    // message being replaced
+    const targetMessageId = editMessageId ?? regenerateMessageId
+    const targetIndex = targetMessageId
+      ? activePath.findIndex((msg) => msg._id === targetMessageId)
+      : -1
+    if (targetMessageId) {
+      const expectedRole = editMessageId ? 'user' : 'assistant'
+      if (targetIndex === -1 || activePath[targetIndex].role !== expectedRole) {
+        return NextResponse.json(
+          { error: 'Message not found' },
+          { status: 404 }
+        )
+      }
+      if (thread?.generationStatus === 'generating') {
+        return NextResponse.json(
+          { error: 'Wait for the current reply to finish' },
+          { status: 409 }
+        )
+      }
     }
+    const history = targetMessageId
+      ? activePath.slice(0, targetIndex)
+      : activePath
 
-    // Check rate limits
-    const estimatedTokens = messages.reduce(
-      (acc, msg) => acc + msg.content.length / 4,
-      0
-    )
+    // Attachments of the turn being answered: the new message's, the edited
+    // message's (edits keep them) or those of the prompt being regenerated
+    const newMessageAttachments = editMessageId
+      ? activePath[targetIndex].attachments
+      : attachments
+    const turnAttachments = content
+      ? newMessageAttachments
+      : [...history].reverse().find((msg) => msg.role === 'user')?.attachments
+    if (needsVision(turnAttachments) && !resolved.config.supportsVision) {
+      return NextResponse.json(
+        {
+          error: `${resolved.config.displayName} can't read images or PDFs. Switch to a model with vision support to send them.`,
+          code: 'VISION_NOT_SUPPORTED',
+        },
+        { status: 400 }
+      )
+    }
+    const attachmentTools = getAttachmentTools(turnAttachments)
+
+    if (research && !resolved.config.supportsTools) {
+      return NextResponse.json(
+        {
+          error: `${resolved.config.displayName} can't use tools, which research needs. Switch to a model with tool support.`,
+          code: 'TOOLS_NOT_SUPPORTED',
+        },
+        { status: 400 }
+      )
+    }
+    const researchTools = research ? ['research'] : []
+
+    // Personalize the reply with the user's customization settings
+    const preferences = await convex.query(api.userPreferences.get, { userId })
+    const systemPrompt = buildSystemPrompt({
+      preferences,
+      model: resolved.config,
+      tools,
+    })
+
+    // Only answers go back to the model, never their reasoning traces
+    const threadMessages = await Promise.all([
+      ...history
+        .filter(
+          (msg) =>
+            (msg.role === 'user' || msg.role === 'assistant') &&
+            msg.content.trim()
+        )
+        .map(async (msg) => ({
+          id: msg._id,
+          role: msg.role as 'user' | 'assistant',
+          ...(await inlineTextAttachments(msg.content, msg.attachments)),
+        })),
+      ...(content
+        ? [
+            inlineTextAttachments(content, newMessageAttachments).then(
+              (turn) => ({ role: 'user' as const, ...turn })
+            ),
+          ]
+        : []),
+    ])
+
+    // Check rate limits before summarizing, which calls a model on the
+    // platform key (own-key requests don't use credits)
     const rateLimitResult = await RateLimitService.checkRateLimit(
-      session.user.id,
+      userId,
       'message',
-      { model, estimatedTokens, tools: ['web_search_preview'] }
+      {
+        model,
+        estimatedTokens: estimatePromptTokens({
+          systemPrompt,
+          messages: threadMessages,
+          config: resolved.config,
+        }),
+        tools: [
+          ...getToolCreditKeys(tools),
+          ...researchTools,
+          ...attachmentTools,
+        ],
+        ownKey: !!resolved.apiKeyId,
+      }
     )
 
     if (!rateLimitResult.allowed) {
@@ -69,97 +266,446 @@ export async function POST(
       )
     }
 
-    // Create streaming task for resumability
-    const taskId = continueFromTaskId || nanoid()
+    // Research also counts against the tier's research quota, own key or not
+    if (research) {
+      const researchLimitResult = await RateLimitService.checkRateLimit(
+        userId,
+        'research'
+      )
+
+      if (!researchLimitResult.allowed) {
+        return NextResponse.json(
+          {
+            error: researchLimitResult.reason,
+            upgradeRequired: researchLimitResult.upgradeRequired,
+            tierInfo: researchLimitResult.tierInfo,
+          },
+          { status: 429 }
+        )
+      }
+    }
+
+    // Fit the thread into the model's window, summarizing the oldest turns
+    const context = await assembleContext({
+      systemPrompt,
+      messages: threadMessages,
+      config: resolved.config,
+      cachedSummary: thread?.contextSummary,
+    })
+    const messages: CoreMessage[] = context.messages.map((msg) =>
+      toCoreMessage(msg, resolved.config.supportsVision)
+    )
+    const estimatedTokens = context.promptTokens
+
+    if (thread && context.summaryChanged) {
+      await convex.mutation(api.threads.setContextSummary, {
+        threadId,
+        userId,
+        summary: context.summary ?? undefined,
+      })
+    }
+
+    if (!thread && content) {
+      try {
+        await convex.mutation(api.threads.create, {
+          threadId,
+          userId,
+          title: content.slice(0, 50) + (content.length > 50 ? '...' : ''),
+          model,
+        })
+      } catch (error) {
+        console.error('❌ Failed to create thread:', error)
+        return new Response('Thread not found', { status: 404 })
+      }
+    }
+
+    // Persist the user's message (edits replace the later conversation)
+    if (editMessageId) {
+      await convex.mutation(api.messages.editUserMessage, {
+        messageId: editMessageId as Id<'messages'>,
+        userId,
+        content: content!,
+        mode: editMode,
+      })
+    } else if (content) {
+      await convex.mutation(api.messages.create, {
+        threadId,
+        userId,
+        role: 'user',
+        content,
+        attachments,
+        model,
+      })
+    }
+
+    // Create the assistant message and the task that streams into it
+    const taskId = nanoid()
+
+    const assistantMessage = regenerateMessageId
+      ? await convex.mutation(api.messages.addReplyVersion, {
+          messageId: regenerateMessageId as Id<'messages'>,
+          userId,
+          model,
+          streamingTaskId: taskId,
+        })
+      : await convex.mutation(api.messages.create, {
+          threadId,
+          userId,
+          role: 'assistant',
+          content: '',
+          model,
+          streamingTaskId: taskId,
+        })
+
+    await convex.mutation(api.streamingTasks.create, {
+      taskId,
+      threadId,
+      userId,
+      model,
+      messageId: assistantMessage.id,
+      systemPrompt: context.system,
+      maxTokens: context.maxOutputTokens,
+    })
 
-    // Update thread status
     await convex.mutation(api.threads.updateStatus, {
       threadId,
+      userId,
       status: 'generating',
       activeTaskId: taskId,
     })
 
-    // Create assistant message for streaming
-    const assistantMessage = await convex.mutation(api.messages.create, {
-      threadId,
-      role: 'assistant',
-      content: '',
+    // Cancellation: the cancel route aborts this controller directly when it
+    // lands on this instance; otherwise the next token flush notices it
+    const abortController = registerTask(taskId)
+    const tokenWriter = createTokenWriter(convex, taskId, () =>
+      abortController.abort()
+    )
+    const toolCallRecorder = createToolCallRecorder(convex, {
+      messageId: assistantMessage.id,
+      userId,
+    })
+
+    const reasoningWriter = createReasoningWriter(convex, {
+      messageId: assistantMessage.id,
+      userId,
       model,
-      streamingTaskId: taskId,
     })
+    const sourceRecorder = createSourceRecorder(convex, {
+      messageId: assistantMessage.id,
+      userId,
+    })
+    const researchRun =
+      searchBackend &&
+      createResearchRun(convex, {
+        messageId: assistantMessage.id,
+        userId,
+        backend: searchBackend,
+        sources: sourceRecorder,
+        abortSignal: abortController.signal,
+      })
 
-    // Stream AI response
-    const result = streamText({
-      model: openai.responses(model),
-      messages,
-      tools: {
-        web_search_preview: openai.tools.webSearchPreview(),
-      },
-      onChunk: async ({ chunk }) => {
-        if (chunk.type === 'text-delta') {
-          // Update streaming content in Convex
-          await convex.mutation(api.messages.updateStreaming, {
-            messageId: assistantMessage.id,
-            content: chunk.textDelta,
-            isComplete: false,
-          })
+    // A research run counts (in credits and against the research quota)
+    // once it has searched
+    const didResearch = () =>
+      !!researchRun && toolCallRecorder.calledTools().length > 0
+
+    // Credit charges for what this turn actually used
+    const getBilledTools = () => [
+      ...getToolCreditKeys(tools, toolCallRecorder.calledTools()),
+      ...(didResearch() ? researchTools : []),
+      ...attachmentTools,
+    ]
+
+    const chargeResearch = async () => {
+      if (!didResearch()) return
+      await RateLimitService.incrementUsage(userId, 'research', 1, {
+        model,
+        tools: researchTools,
+      })
+    }
+
+    // The first reply of a thread triggers title generation
+    const isFirstExchange = !!content && history.length === 0
+    let completedText = ''
+
+    // onFinish, onError and cancellation race; only the first one finalizes
+    let finalized = false
+    const claimFinalize = () => {
+      if (finalized) return false
+      finalized = true
+      releaseTask(taskId)
+      return true
+    }
+
+    abortController.signal.addEventListener('abort', async () => {
+      if (!claimFinalize()) return
+      try {
+        await tokenWriter.flush()
+        await toolCallRecorder.flush()
+        await reasoningWriter.finish()
+        await sourceRecorder.flush()
+        await researchRun?.finish()
+
+        // Keep the partial reply and bill only for what was produced
+        const task = await convex.query(api.streamingTasks.getByTaskId, {
+          taskId,
+        })
+        const partialText = task?.content ?? ''
+        const completionTokens = estimateTokenCount(partialText, model)
+        const usage = {
+          promptTokens: estimatedTokens,
+          completionTokens,
+          totalTokens: estimatedTokens + completionTokens,
         }
-      },
-      onFinish: async (result) => {
-        // Mark message as complete
+
         await convex.mutation(api.messages.updateStreaming, {
           messageId: assistantMessage.id,
-          content: result.text,
+          userId,
+          content: partialText,
           isComplete: true,
-          finishReason: (() => {
-            switch (result.finishReason) {
-              case 'length':
-              case 'stop':
-              case 'error':
-                return result.finishReason
-              case 'content-filter':
-                return 'content_filter'
-              default:
-                return 'stop'
-            }
-          })(),
-          usage: result.usage,
-        })
-
-        // Update thread status
-        await convex.mutation(api.threads.updateStatus, {
-          threadId,
-          status: 'completed',
+          finishReason: 'cancelled',
+          usage,
         })
 
-        // Track actual usage
-        const actualCredits = calculateCreditCost(
-          model,
-          result.usage.totalTokens,
-          ['web_search_preview']
+        console.log(
+          `⏹️ Streaming task ${taskId} cancelled after ${completionTokens} tokens`
         )
+
+        await chargeResearch()
+        if (completionTokens === 0) {
+          return
+        }
+
+        if (resolved.apiKeyId) {
+          await ApiKeyService.recordUsage(resolved.apiKeyId)
+          return
+        }
+
+        const billedTools = getBilledTools()
         await RateLimitService.incrementUsage(
-          session.user.id,
+          userId,
           'message',
-          actualCredits,
+          calculateCreditCost(model, usage.totalTokens, billedTools),
           {
             model,
-            actualTokens: result.usage.totalTokens,
-            tools: ['web_search_preview'],
+            actualTokens: usage.totalTokens,
+            tools: billedTools,
           }
         )
-      },
-      onError: async (error) => {
+      } catch (error) {
+        console.error(`❌ Failed to finalize cancelled task ${taskId}:`, error)
+      }
+    })
+
+    // Keep whatever was generated, flagged as an error, and fail the task
+    const markFailed = async (error: unknown) => {
+      try {
+        const task = await convex.query(api.streamingTasks.getByTaskId, {
+          taskId,
+        })
+        await convex.mutation(api.messages.updateStreaming, {
+          messageId: assistantMessage.id,
+          userId,
+          content: task?.content ?? '',
+          isComplete: true,
+          finishReason: 'error',
+        })
+
+        await convex.mutation(api.streamingTasks.updateStatus, {
+          taskId,
+          status: 'failed',
+          error: {
+            message: error instanceof Error ? error.message : String(error),
+            code: 'STREAM_ERROR',
+            retryable: true,
+          },
+        })
+
         // Mark as failed
         await convex.mutation(api.threads.updateStatus, {
           threadId,
+          userId,
           status: 'failed',
         })
-        console.error('Streaming error:', error)
+      } catch (finalizeError) {
+        console.error(
+          `❌ Failed to finalize failed task ${taskId}:`,
+          finalizeError
+        )
+      }
+    }
+
+    const finalizeFailed = async (error: unknown) => {
+      if (!claimFinalize()) return
+      console.error(`❌ Streaming task ${taskId} failed:`, error)
+      try {
+        await tokenWriter.flush()
+        await toolCallRecorder.flush()
+        await reasoningWriter.finish()
+        await sourceRecorder.flush()
+        await researchRun?.finish()
+      } catch (flushError) {
+        console.error(`❌ Failed to flush failed task ${taskId}:`, flushError)
+      }
+      await markFailed(error)
+    }
+
+    console.log(`🚀 Streaming task ${taskId} started for thread ${threadId}`)
+
+    // Research turns plan their sub-questions before the report streams
+    const system = researchRun
+      ? buildResearchPrompt(
+          context.system,
+          await researchRun.plan(
+            [...context.messages].reverse().find((msg) => msg.role === 'user')
+              ?.content ?? '',
+            resolved.model
+          )
+        )
+      : context.system
+
+    const providerOptions =
+      reasoningEffort && resolved.config.isReasoning
+        ? resolved.provider.getReasoningOptions?.(reasoningEffort, {
+            maxOutputTokens: context.maxOutputTokens,
+          })
+        : undefined
+
+    // Stream AI response
+    const result = streamText({
+      model: resolved.model,
+      system,
+      messages,
+      maxTokens: context.maxOutputTokens,
+      providerOptions,
+      abortSignal: abortController.signal,
+      tools: researchRun
+        ? researchRun.tools
+        : createToolSet(tools, {
+            userId,
+            threadId,
+            resolved,
+            abortSignal: abortController.signal,
+            sources: sourceRecorder,
+          }),
+      maxSteps: researchRun
+        ? MAX_RESEARCH_STEPS
+        : tools.length > 0
+          ? MAX_TOOL_STEPS
+          : 1,
+      onChunk: ({ chunk }) => {
+        if (chunk.type === 'reasoning') {
+          reasoningWriter.push(chunk.textDelta)
+        } else if (chunk.type === 'text-delta') {
+          reasoningWriter.pause()
+          tokenWriter.push(chunk.textDelta)
+          researchRun?.markWriting()
+        } else if (chunk.type === 'tool-call' || chunk.type === 'tool-result') {
+          toolCallRecorder.record(chunk)
+        }
+      },
+      onFinish: async (result) => {
+        if (!claimFinalize()) return
+        try {
+          await tokenWriter.flush()
+          await toolCallRecorder.flush()
+          // OpenAI reports reasoning tokens; others are counted from the trace
+          const reasoningTokens =
+            result.providerMetadata?.openai?.reasoningTokens
+          await reasoningWriter.finish(
+            typeof reasoningTokens === 'number' ? reasoningTokens : undefined
+          )
+          await sourceRecorder.flush()
+          await researchRun?.finish()
+
+          // Mark message as complete (also completes the thread)
+          await convex.mutation(api.messages.updateStreaming, {
+            messageId: assistantMessage.id,
+            userId,
+            content: result.text,
+            isComplete: true,
+            finishReason: (() => {
+              switch (result.finishReason) {
+                case 'length':
+                case 'stop':
+                case 'error':
+                  return result.finishReason
+                case 'content-filter':
+                  return 'content_filter'
+                default:
+                  return 'stop'
+              }
+            })(),
+            usage: result.usage,
+          })
+
+          await convex.mutation(api.streamingTasks.updateStatus, {
+            taskId,
+            status: 'completed',
+          })
+        } catch (error) {
+          console.error(`❌ Failed to complete task ${taskId}:`, error)
+          await markFailed(error)
+          return
+        }
+
+        completedText = result.text
+        console.log(`✅ Streaming task ${taskId} completed`)
+
+        // Billing failures are logged; the reply is already stored
+        try {
+          await chargeResearch()
+
+          // Own-key requests are billed by the provider, not in credits
+          if (resolved.apiKeyId) {
+            await ApiKeyService.recordUsage(resolved.apiKeyId)
+            return
+          }
+
+          // Track actual usage
+          const billedTools = getBilledTools()
+          const actualCredits = calculateCreditCost(
+            model,
+            result.usage.totalTokens,
+            billedTools
+          )
+          await RateLimitService.incrementUsage(
+            userId,
+            'message',
+            actualCredits,
+            {
+              model,
+              actualTokens: result.usage.totalTokens,
+              tools: billedTools,
+            }
+          )
+        } catch (error) {
+          console.error(`❌ Failed to bill task ${taskId}:`, error)
+        }
       },
+      onError: ({ error }) => finalizeFailed(error),
     })
 
-    return result.toDataStreamResponse()
+    // Drain the model stream independently of the HTTP response so the
+    // reply is stored even when nobody is listening; then title new threads
+    after(async () => {
+      await result.consumeStream({
+        onError: (error) => finalizeFailed(error),
+      })
+
+      if (isFirstExchange && completedText && !thread?.userSetTitle) {
+        await generateThreadTitle(convex, {
+          threadId,
+          userId,
+          userMessage: content!,
+          assistantReply: completedText,
+        })
+      }
+    })
+
+    return result.toDataStreamResponse({
+      headers: { 'X-Task-Id': taskId },
+    })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -168,6 +714,27 @@ export async function POST(
       )
     }
 
+    if (error instanceof ModelResolutionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof SearchError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 503 }
+      )
+    }
+
+    if (error instanceof ContextLengthError) {
+      return NextResponse.json(
+        { error: error.message, contextLength: error.contextLength },
+        { status: 400 }
+      )
+    }
+
     console.error('Stream API error:', error)
     return new Response('Internal server error', { status: 500 })
   }
@@ -1,11 +1,23 @@
-import { openai } from '@ai-sdk/openai'
 import { streamText } from 'ai'
+import { resolveModel } from '@/lib/ai/providers'
+import { buildSystemPrompt } from '@/lib/ai/system-prompt'
+import { countMessageTokens } from '@/lib/ai/tokenizer'
+import { createToolSet, getToolCreditKeys, selectTools } from '@/lib/ai/tools'
+import { ModelResolutionError } from '@/lib/ai/types'
 import { auth } from '@/lib/auth'
 import { headers } from 'next/headers'
 import { RateLimitService } from '@/lib/rate-limiting/service'
 import { calculateCreditCost } from '@/lib/rate-limiting/credits'
+import { ApiKeyService } from '@/lib/api-keys/service'
+import { ConvexHttpClient } from 'convex/browser'
+import { api } from '@/convex/_generated/api'
 import { z } from 'zod'
 
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!)
+
+// Model calls per turn when tools are enabled (tool round trips + answer)
+const MAX_TOOL_STEPS = 5
+
 const chatRequestSchema = z.object({
   messages: z.array(
     z.object({
@@ -15,6 +27,8 @@ const chatRequestSchema = z.object({
   ),
   model: z.string().default('gpt-4o'),
   threadId: z.optional(z.string()),
+  // Registry tools to offer the model (see lib/ai/tools.ts)
+  tools: z.array(z.string()).max(20).default([]),
 })
 
 export async function POST(req: Request) {
@@ -28,23 +42,42 @@ export async function POST(req: Request) {
     }
 
     const body = await req.json()
-    const { messages, model, threadId } = chatRequestSchema.parse(body)
+    const {
+      messages,
+      model,
+      threadId,
+      tools: requestedTools,
+    } = chatRequestSchema.parse(body)
 
-    // Estimate tokens for rate limit check
-    const estimatedTokens = messages.reduce(
-      (acc, msg) => acc + msg.content.length / 4,
-      0
-    )
-    const tools = ['web_search_preview'] // Tools being used
+    // Resolve the catalog model to its provider (rejects disabled/deprecated)
+    // Uses the user's own key for that provider when they have a valid one
+    const resolved = await resolveModel(model, { userId: session.user.id })
+
+    // Requested tools this model can use (none without supportsTools)
+    const tools = selectTools(requestedTools, resolved)
+
+    // Personalize the reply with the user's customization settings
+    const preferences = await convex.query(api.userPreferences.get, {
+      userId: session.user.id,
+    })
+    const systemPrompt = buildSystemPrompt({
+      preferences,
+      model: resolved.config,
+      tools,
+    })
+
+    // Count prompt tokens for rate limit check
+    const estimatedTokens = countMessageTokens(messages, model, systemPrompt)
 
-    // Check rate limits before processing
+    // Check rate limits before processing (own-key requests don't use credits)
     const rateLimitResult = await RateLimitService.checkRateLimit(
       session.user.id,
       'message',
       {
         model,
         estimatedTokens,
-        tools,
+        tools: getToolCreditKeys(tools),
+        ownKey: !!resolved.apiKeyId,
       }
     )
 
@@ -60,17 +93,33 @@ export async function POST(req: Request) {
     }
 
     const result = streamText({
-      model: openai.responses(model),
+      model: resolved.model,
+      system: systemPrompt,
       messages,
-      tools: {
-        web_search_preview: openai.tools.webSearchPreview(),
-      },
+      tools: createToolSet(tools, {
+        userId: session.user.id,
+        threadId,
+        resolved,
+      }),
+      maxSteps: tools.length > 0 ? MAX_TOOL_STEPS : 1,
       onFinish: async (result) => {
+        if (resolved.apiKeyId) {
+          await ApiKeyService.recordUsage(resolved.apiKeyId)
+          return
+        }
+
+        const billedTools = getToolCreditKeys(
+          tools,
+          result.steps.flatMap((step) =>
+            step.toolCalls.map((call) => call.toolName)
+          )
+        )
+
         // Track actual usage after completion
         const actualCredits = calculateCreditCost(
           model,
           result.usage.totalTokens,
-          tools
+          billedTools
         )
 
         await RateLimitService.incrementUsage(
@@ -80,7 +129,7 @@ export async function POST(req: Request) {
           {
             model,
             actualTokens: result.usage.totalTokens,
-            tools,
+            tools: billedTools,
           }
         )
       },
@@ -98,6 +147,13 @@ export async function POST(req: Request) {
       )
     }
 
+    if (error instanceof ModelResolutionError) {
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
     console.error('Chat API error:', error)
     return new Response('Internal server error', { status: 500 })
   }
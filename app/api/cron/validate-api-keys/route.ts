@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApiKeyService } from '@/lib/api-keys/service'
+
+// Scheduled job: re-validate API keys that haven't been checked recently
+// Call with `Authorization: Bearer $CRON_SECRET` (e.g. from Vercel Cron)
+export async function GET(req: NextRequest) {
+  const authHeader = req.headers.get('authorization')
+
+  if (
+    !process.env.CRON_SECRET ||
+    authHeader !== `Bearer ${process.env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await ApiKeyService.validateStaleKeys()
+    return NextResponse.json({ ...result, success: true })
+  } catch (error) {
+    console.error('API key validation job error:', error)
+    return NextResponse.json(
+      { error: 'Failed to validate API keys' },
+      { status: 500 }
+    )
+  }
+}
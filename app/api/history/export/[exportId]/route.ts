@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import { ConvexHttpClient } from 'convex/browser'
+import { api } from '@/convex/_generated/api'
+import { EXPORT_FILE_TYPES } from '@/lib/history/types'
+import { exportFilename } from '@/lib/history/export'
+
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!)
+
+// Download a previously created export as an attachment
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ exportId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { exportId } = await params
+    const record = await convex.query(api.messageHistory.getExport, {
+      exportId,
+      userId: session.user.id,
+    })
+
+    if (!record) {
+      return NextResponse.json({ error: 'Export not found' }, { status: 404 })
+    }
+
+    const file = await fetch(record.url)
+    if (!file.ok || !file.body) {
+      return NextResponse.json(
+        { error: 'Export file is no longer available' },
+        { status: 410 }
+      )
+    }
+
+    const filename = exportFilename(record.exportFormat, record.exportedAt)
+
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': EXPORT_FILE_TYPES[record.exportFormat].contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error('History export download error:', error)
+    return NextResponse.json(
+      { error: 'Failed to download export' },
+      { status: 500 }
+    )
+  }
+}
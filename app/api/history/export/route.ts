@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import { ConvexHttpClient } from 'convex/browser'
+import { api } from '@/convex/_generated/api'
+import { nanoid } from 'nanoid'
+import { z } from 'zod'
+import { buildExport } from '@/lib/history/export'
+import { ExportRequestSchema, ExportedThread } from '@/lib/history/types'
+
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!)
+
+// Build an export of the selected threads and store it in Convex storage
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const body = await req.json()
+    const { threadIds, format } = ExportRequestSchema.parse(body)
+
+    const threads: ExportedThread[] = []
+    for (const threadId of threadIds) {
+      const thread = await convex.query(api.threads.getById, {
+        threadId,
+        userId,
+      })
+      if (!thread) {
+        return NextResponse.json(
+          { error: `Thread ${threadId} not found` },
+          { status: 404 }
+        )
+      }
+
+      const messages = await convex.query(api.messages.getByThread, {
+        threadId,
+        userId,
+      })
+      threads.push({
+        threadId: thread.threadId,
+        title: thread.title,
+        model: thread.model,
+        createdAt: thread.createdAt,
+        messages: messages.map((message) => ({
+          role: message.role,
+          content: message.content,
+          model: message.model,
+          createdAt: message.createdAt,
+        })),
+      })
+    }
+
+    const { content, filename, contentType } = buildExport(format, threads)
+    const file = new Blob([content], { type: contentType })
+
+    const uploadUrl = await convex.mutation(
+      api.messageHistory.generateUploadUrl,
+      { userId }
+    )
+    const uploadResponse = await fetch(uploadUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType },
+      body: file,
+    })
+    if (!uploadResponse.ok) {
+      throw new Error(`Export upload failed: ${uploadResponse.status}`)
+    }
+    const { storageId } = (await uploadResponse.json()) as {
+      storageId: string
+    }
+
+    const exportId = nanoid()
+    await convex.mutation(api.messageHistory.recordExport, {
+      userId,
+      exportId,
+      exportFormat: format,
+      exportedThreads: threadIds,
+      storageId,
+      fileSize: file.size,
+    })
+
+    console.log(
+      `📦 Exported ${threads.length} threads as ${format} for user ${userId}`
+    )
+
+    return NextResponse.json({
+      exportId,
+      filename,
+      downloadUrl: `/api/history/export/${exportId}`,
+      success: true,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('History export error:', error)
+    return NextResponse.json(
+      { error: 'Failed to export history' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import { ConvexHttpClient } from 'convex/browser'
+import { api } from '@/convex/_generated/api'
+import { parseImport } from '@/lib/history/import'
+import {
+  HistoryImportError,
+  ImportResult,
+  ImportedThread,
+} from '@/lib/history/types'
+
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!)
+
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024
+// Keep each Convex mutation well under its write and argument size limits;
+// a conversation larger than MAX_BATCH_BYTES can't be imported in one piece
+const MAX_BATCH_THREADS = 25
+const MAX_BATCH_MESSAGES = 1000
+const MAX_BATCH_BYTES = 4 * 1024 * 1024
+
+// A conversation with its encoded size in bytes
+type SizedThread = ImportedThread & { fileSize: number }
+
+function toBatches(threads: SizedThread[]): SizedThread[][] {
+  const batches: SizedThread[][] = []
+  let batch: SizedThread[] = []
+  let batchMessages = 0
+  let batchBytes = 0
+
+  for (const thread of threads) {
+    if (
+      batch.length > 0 &&
+      (batch.length >= MAX_BATCH_THREADS ||
+        batchMessages + thread.messages.length > MAX_BATCH_MESSAGES ||
+        batchBytes + thread.fileSize > MAX_BATCH_BYTES)
+    ) {
+      batches.push(batch)
+      batch = []
+      batchMessages = 0
+      batchBytes = 0
+    }
+    batch.push(thread)
+    batchMessages += thread.messages.length
+    batchBytes += thread.fileSize
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch)
+  }
+  return batches
+}
+
+// Import conversations from a T3 Chat, ChatGPT or Claude export file
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const body = await req.text()
+    if (Buffer.byteLength(body) > MAX_IMPORT_BYTES) {
+      return NextResponse.json(
+        { error: 'Import file is too large (max 50 MB)' },
+        { status: 413 }
+      )
+    }
+
+    let data: unknown
+    try {
+      data = JSON.parse(body)
+    } catch {
+      return NextResponse.json(
+        { error: 'Import file is not valid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseImport(data)
+    const encoder = new TextEncoder()
+    const sized = parsed.threads.map((thread) => ({
+      ...thread,
+      fileSize: encoder.encode(JSON.stringify(thread)).length,
+    }))
+    // Empty conversations have nothing worth importing, and oversized ones
+    // don't fit in a single mutation
+    const threads = sized.filter(
+      (thread) =>
+        thread.messages.length > 0 && thread.fileSize <= MAX_BATCH_BYTES
+    )
+    const oversized = sized.filter(
+      (thread) => thread.fileSize > MAX_BATCH_BYTES
+    )
+
+    const result: ImportResult = {
+      source: parsed.source,
+      threadsCreated: 0,
+      threadsSkipped: parsed.threads.length - threads.length,
+      messagesCreated: 0,
+      messagesSkipped:
+        parsed.skippedMessages +
+        oversized.reduce((acc, thread) => acc + thread.messages.length, 0),
+    }
+
+    for (const batch of toBatches(threads)) {
+      const batchResult = await convex.mutation(
+        api.messageHistory.importThreads,
+        {
+          userId,
+          importedFrom: parsed.source,
+          threads: batch,
+        }
+      )
+      result.threadsCreated += batchResult.threadsCreated
+      result.threadsSkipped += batchResult.threadsSkipped
+      result.messagesCreated += batchResult.messagesCreated
+      result.messagesSkipped += batchResult.messagesSkipped
+    }
+
+    console.log(
+      `📥 Imported ${result.threadsCreated} threads from ${parsed.source} for user ${userId} (${result.threadsSkipped} skipped)`
+    )
+
+    return NextResponse.json({ ...result, success: true })
+  } catch (error) {
+    if (error instanceof HistoryImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('History import error:', error)
+    return NextResponse.json(
+      { error: 'Failed to import history' },
+      { status: 500 }
+    )
+  }
+}
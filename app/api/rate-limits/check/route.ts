@@ -1,14 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { normalizeProviderId } from '@/lib/ai/providers'
+import { ApiKeyService } from '@/lib/api-keys/service'
 import { RateLimitService } from '@/lib/rate-limiting/service'
 import { getOrCreateSession } from '@/lib/session-utils'
+import { ConvexHttpClient } from 'convex/browser'
+import { api } from '@/convex/_generated/api'
 import { z } from 'zod'
 
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!)
+
 const checkRequestSchema = z.object({
   action: z.enum(['message', 'search', 'research', 'file_upload']),
   metadata: z.optional(
     z.object({
       model: z.optional(z.string()),
       estimatedTokens: z.optional(z.number()),
+      content: z.optional(z.string()),
       tools: z.optional(z.array(z.string())),
       fileSize: z.optional(z.number()),
     })
@@ -50,10 +57,26 @@ export async function POST(req: NextRequest) {
     const body = await req.json()
     const validatedBody = checkRequestSchema.parse(body)
 
+    // Messages sent with the user's own key cost no credits, as in the
+    // chat routes
+    const model = validatedBody.metadata?.model
+    const config =
+      validatedBody.action === 'message' && model
+        ? await convex.query(api.availableModels.getByModelId, {
+            modelId: model,
+          })
+        : null
+    const ownKey = config
+      ? !!(await ApiKeyService.getActiveKey(
+          session.user.id,
+          normalizeProviderId(config.provider)
+        ))
+      : false
+
     const result = await RateLimitService.checkRateLimit(
       session.user.id,
       validatedBody.action,
-      validatedBody.metadata
+      { ...validatedBody.metadata, ownKey }
     )
 
     return NextResponse.json({
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getProvider } from '@/lib/ai/providers'
+import { getAvailableTools } from '@/lib/ai/tools'
+import { TOOL_CREDIT_COSTS } from '@/lib/rate-limiting/credits'
+import { ConvexHttpClient } from 'convex/browser'
+import { api } from '@/convex/_generated/api'
+import { z } from 'zod'
+
+const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!)
+
+const toolsQuerySchema = z.object({
+  model: z.string().min(1),
+})
+
+/**
+ * Tools a model can use, for the composer's tool picker
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { model } = toolsQuerySchema.parse(
+      Object.fromEntries(req.nextUrl.searchParams)
+    )
+
+    const config = await convex.query(api.availableModels.getByModelId, {
+      modelId: model,
+    })
+    const provider = config ? getProvider(config.provider) : undefined
+    if (!config || !provider) {
+      return NextResponse.json({ tools: [] })
+    }
+
+    return NextResponse.json({
+      tools: getAvailableTools(config, provider).map((definition) => ({
+        name: definition.name,
+        label: definition.label,
+        creditKey: definition.creditKey,
+        credits: TOOL_CREDIT_COSTS[definition.creditKey] || 1,
+      })),
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Tools API error:', error)
+    return NextResponse.json({ error: 'Failed to load tools' }, { status: 500 })
+  }
+}
@@ -1,5 +1,13 @@
 import { uploadImageAssets } from '@/lib/upload-image'
 import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import { nanoid } from 'nanoid'
+import {
+  ATTACHMENT_EXTENSION_TYPES,
+  ATTACHMENT_MEDIA_TYPES,
+  MAX_ATTACHMENT_SIZE,
+} from '@/lib/attachments/types'
 
 export const config = {
   api: { bodyParser: false }, // Disable default body parsing
@@ -7,6 +15,14 @@ export const config = {
 
 export async function POST(req: NextRequest) {
   try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     // Parse the form data
     const formData = await req.formData()
     const file = formData.get('file') as File | null
@@ -15,26 +31,22 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 })
     }
 
-    // Validate MIME type - only allow image files
-    const allowedMimeTypes = [
-      'image/jpeg',
-      'image/jpg',
-      'image/png',
-      'image/gif',
-      'image/webp',
-      'image/svg+xml',
-    ]
+    // Validate MIME type - images, PDFs and text files
+    const fileExt = file.name.split('.').pop()?.toLowerCase() || ''
+    const mediaType = file.type || ATTACHMENT_EXTENSION_TYPES[fileExt] || ''
 
-    if (!allowedMimeTypes.includes(file.type)) {
+    if (!ATTACHMENT_MEDIA_TYPES.includes(mediaType)) {
       return NextResponse.json(
-        { error: 'Invalid file type. Only image files are allowed.' },
+        {
+          error:
+            'Invalid file type. Only images, PDFs and text files are allowed.',
+        },
         { status: 400 }
       )
     }
 
     // Validate file size - limit to 10MB
-    const maxSizeInBytes = 10 * 1024 * 1024 // 10MB
-    if (file.size > maxSizeInBytes) {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
       return NextResponse.json(
         { error: 'File too large. Maximum size allowed is 10MB.' },
         { status: 400 }
@@ -46,14 +58,18 @@ export async function POST(req: NextRequest) {
     const buffer = Buffer.from(arrayBuffer)
 
     // Generate a unique filename with original extension
-    const fileExt = file.name.split('.').pop() || ''
     const timestamp = Date.now()
-    const filename = `upload-${timestamp}.${fileExt || 'png'}`
+    const filename = `upload-${timestamp}-${nanoid(8)}.${fileExt || 'png'}`
 
     // Upload the file
-    const url = await uploadImageAssets(buffer, filename)
+    const url = await uploadImageAssets(buffer, filename, mediaType)
 
-    return NextResponse.json({ url })
+    return NextResponse.json({
+      url,
+      filename: file.name,
+      mediaType,
+      size: file.size,
+    })
   } catch (error) {
     console.error('Upload error:', error)
     return NextResponse.json(
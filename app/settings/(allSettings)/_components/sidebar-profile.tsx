@@ -1,8 +1,33 @@
 'use client'
 
 import Image from 'next/image'
+import { toast } from 'sonner'
+import { authClient } from '@/lib/auth-client'
+import { cn } from '@/lib/utils'
+import { useUserPreferences } from '@/hooks/use-user-preferences'
+import { useShortcutBindings } from '@/hooks/use-shortcuts'
+import { formatShortcut } from '@/lib/shortcuts/combo'
+import { SHORTCUT_LABELS, ShortcutAction } from '@/lib/shortcuts/types'
+
+const PROFILE_SHORTCUTS: ShortcutAction[] = [
+  'search',
+  'newChat',
+  'toggleSidebar',
+]
 
 export default function SidebarProfile() {
+  const { data: authSession } = authClient.useSession()
+  const { preferences } = useUserPreferences()
+  const user = authSession?.user
+  const hidePersonalInfo = preferences?.hidePersonalInfo ?? false
+  const shortcuts = useShortcutBindings()
+
+  const copyUserId = async () => {
+    if (!user) return
+    await navigator.clipboard.writeText(user.id)
+    toast.success('User ID copied to clipboard')
+  }
+
   return (
     <div className="hidden flex-shrink-0 flex-grow-0 space-y-8 md:block md:max-w-[25%] lg:max-w-[30%]">
       {/* Profile Section */}
@@ -14,8 +39,13 @@ export default function SidebarProfile() {
           height={160}
           className="mx-auto rounded-full transition-opacity duration-200"
         />
-        <h1 className="mt-4 text-2xl font-bold transition-opacity duration-200">
-          Dummy User
+        <h1
+          className={cn(
+            'mt-4 text-2xl font-bold transition-opacity duration-200',
+            hidePersonalInfo && 'select-none blur-sm'
+          )}
+        >
+          {hidePersonalInfo ? 'Hidden Name' : user?.name || 'Anonymous'}
         </h1>
 
         <p
@@ -23,9 +53,15 @@ export default function SidebarProfile() {
           role="button"
           tabIndex={0}
           aria-label="Copy user ID to clipboard"
+          onClick={copyUserId}
         >
-          <span className="absolute inset-0 truncate transition-transform duration-300 [backface-visibility:hidden] [transform-style:preserve-3d] group-hover:[transform:rotateX(180deg)]">
-            dummy@example.com
+          <span
+            className={cn(
+              'absolute inset-0 truncate transition-transform duration-300 [backface-visibility:hidden] [transform-style:preserve-3d] group-hover:[transform:rotateX(180deg)]',
+              hidePersonalInfo && 'select-none blur-sm'
+            )}
+          >
+            {hidePersonalInfo ? 'hidden@example.com' : user?.email}
           </span>
           <span className="absolute inset-0 transition-transform duration-300 [backface-visibility:hidden] [transform-style:preserve-3d] [transform:rotateX(180deg)] group-hover:[transform:rotateX(0deg)]">
             <span className="flex h-6 items-center justify-center gap-2 text-sm">
@@ -84,42 +120,23 @@ export default function SidebarProfile() {
       <div className="space-y-6 rounded-lg bg-card p-4">
         <span className="text-sm font-semibold">Keyboard Shortcuts</span>
         <div className="grid gap-4">
-          <div className="flex items-center justify-between">
-            <span className="text-sm font-medium">Search</span>
-            <div className="flex gap-1">
-              <kbd className="rounded bg-background px-2 py-1 font-sans text-sm">
-                ⌘
-              </kbd>
-              <kbd className="rounded bg-background px-2 py-1 font-sans text-sm">
-                K
-              </kbd>
-            </div>
-          </div>
-          <div className="flex items-center justify-between">
-            <span className="text-sm font-medium">New Chat</span>
-            <div className="flex gap-1">
-              <kbd className="rounded bg-background px-2 py-1 font-sans text-sm">
-                ⌘
-              </kbd>
-              <kbd className="rounded bg-background px-2 py-1 font-sans text-sm">
-                Shift
-              </kbd>
-              <kbd className="rounded bg-background px-2 py-1 font-sans text-sm">
-                O
-              </kbd>
-            </div>
-          </div>
-          <div className="flex items-center justify-between">
-            <span className="text-sm font-medium">Toggle Sidebar</span>
-            <div className="flex gap-1">
-              <kbd className="rounded bg-background px-2 py-1 font-sans text-sm">
-                ⌘
-              </kbd>
-              <kbd className="rounded bg-background px-2 py-1 font-sans text-sm">
-                B
-              </kbd>
+          {PROFILE_SHORTCUTS.map((action) => (
+            <div key={action} className="flex items-center justify-between">
+              <span className="text-sm font-medium">
+                {SHORTCUT_LABELS[action]}
+              </span>
+              <div className="flex gap-1">
+                {formatShortcut(shortcuts[action]).map((label, index) => (
+                  <kbd
+                    key={index}
+                    className="rounded bg-background px-2 py-1 font-sans text-sm"
+                  >
+                    {label}
+                  </kbd>
+                ))}
+              </div>
             </div>
-          </div>
+          ))}
         </div>
       </div>
     </div>
@@ -1,10 +1,370 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { toast } from 'sonner'
+
+interface ApiKey {
+  id: string
+  keyName: string
+  provider: string
+  keyHint: string
+  isValid: boolean
+  lastValidatedAt: string | null
+  validationError: string | null
+  requestCount: number
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+const providerOptions = [
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'anthropic', label: 'Anthropic' },
+  { value: 'google', label: 'Google' },
+  { value: 'deepseek', label: 'DeepSeek' },
+  { value: 'mistral', label: 'Mistral' },
+]
+
+const providerLabel = (provider: string) =>
+  providerOptions.find((option) => option.value === provider)?.label ?? provider
+
 const ApiKeys = () => {
+  const [keys, setKeys] = useState<ApiKey[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [newKey, setNewKey] = useState({
+    keyName: '',
+    provider: 'openai',
+    apiKey: '',
+  })
+  const [rotatingKey, setRotatingKey] = useState<ApiKey | null>(null)
+  const [rotatedSecret, setRotatedSecret] = useState('')
+  const [busyKeyId, setBusyKeyId] = useState<string | null>(null)
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const response = await fetch('/api/api-keys')
+      if (!response.ok) throw new Error('Failed to fetch API keys')
+      const data = await response.json()
+      setKeys(data.keys)
+    } catch (error) {
+      console.error('❌ Failed to load API keys:', error)
+      toast.error('Could not load your API keys')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchKeys()
+  }, [fetchKeys])
+
+  const upsertKey = (key: ApiKey) => {
+    setKeys((prev) =>
+      prev.some((k) => k.id === key.id)
+        ? prev.map((k) => (k.id === key.id ? key : k))
+        : [key, ...prev]
+    )
+  }
+
+  const reportValidation = (key: ApiKey) => {
+    if (key.isValid) {
+      toast.success(`${key.keyName} is valid`)
+    } else {
+      toast.error(
+        `${key.keyName} could not be validated: ${key.validationError ?? 'unknown error'}`
+      )
+    }
+  }
+
+  const handleAddKey = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newKey),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to add key')
+
+      upsertKey(data.key)
+      reportValidation(data.key)
+      setNewKey({ keyName: '', provider: newKey.provider, apiKey: '' })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add key')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRotateKey = async () => {
+    if (!rotatingKey) return
+    setBusyKeyId(rotatingKey.id)
+
+    try {
+      const response = await fetch(`/api/api-keys/${rotatingKey.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiKey: rotatedSecret }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to rotate key')
+
+      upsertKey(data.key)
+      reportValidation(data.key)
+      setRotatingKey(null)
+      setRotatedSecret('')
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to rotate key'
+      )
+    } finally {
+      setBusyKeyId(null)
+    }
+  }
+
+  const handleValidateKey = async (key: ApiKey) => {
+    setBusyKeyId(key.id)
+
+    try {
+      const response = await fetch(`/api/api-keys/${key.id}/validate`, {
+        method: 'POST',
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to validate key')
+
+      upsertKey(data.key)
+      reportValidation(data.key)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to validate key'
+      )
+    } finally {
+      setBusyKeyId(null)
+    }
+  }
+
+  const handleRevokeKey = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.keyName}"? This cannot be undone.`)) return
+    setBusyKeyId(key.id)
+
+    try {
+      const response = await fetch(`/api/api-keys/${key.id}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) throw new Error('Failed to revoke key')
+
+      setKeys((prev) => prev.filter((k) => k.id !== key.id))
+      toast.success(`${key.keyName} revoked`)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to revoke key'
+      )
+    } finally {
+      setBusyKeyId(null)
+    }
+  }
+
   return (
     <div className="mt-2 space-y-8">
       <div className="space-y-6">
         <h2 className="text-2xl font-bold">API Keys</h2>
-        <p className="text-muted-foreground">Manage your API keys.</p>
+        <p className="text-muted-foreground">
+          Bring your own API keys for select models. Requests that use your own
+          key are billed by the provider and don&apos;t count against your
+          message credits. Keys are encrypted at rest.
+        </p>
       </div>
+
+      {/* Add Key */}
+      <form
+        onSubmit={handleAddKey}
+        className="grid gap-4 rounded-lg border p-4"
+      >
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="grid gap-2">
+            <Label className="text-base font-medium">Provider</Label>
+            <Select
+              value={newKey.provider}
+              onValueChange={(value) =>
+                setNewKey((prev) => ({ ...prev, provider: value }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select provider" />
+              </SelectTrigger>
+              <SelectContent>
+                {providerOptions.map((provider) => (
+                  <SelectItem key={provider.value} value={provider.value}>
+                    {provider.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label className="text-base font-medium">Name</Label>
+            <Input
+              placeholder="e.g. Personal key"
+              maxLength={50}
+              value={newKey.keyName}
+              onChange={(e) =>
+                setNewKey((prev) => ({ ...prev, keyName: e.target.value }))
+              }
+            />
+          </div>
+        </div>
+        <div className="grid gap-2">
+          <Label className="text-base font-medium">API Key</Label>
+          <Input
+            type="password"
+            autoComplete="off"
+            placeholder="sk-..."
+            value={newKey.apiKey}
+            onChange={(e) =>
+              setNewKey((prev) => ({ ...prev, apiKey: e.target.value }))
+            }
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button
+            type="submit"
+            disabled={
+              isSaving || !newKey.keyName.trim() || !newKey.apiKey.trim()
+            }
+          >
+            {isSaving ? 'Validating...' : 'Add Key'}
+          </Button>
+        </div>
+      </form>
+
+      {/* Existing Keys */}
+      <ul className="w-full divide-y rounded border">
+        {isLoading && (
+          <li className="px-4 py-6 text-center text-sm text-muted-foreground">
+            Loading keys...
+          </li>
+        )}
+
+        {!isLoading && keys.length === 0 && (
+          <li className="px-4 py-6 text-center text-sm text-muted-foreground">
+            No API keys yet.
+          </li>
+        )}
+
+        {keys.map((key) => (
+          <li
+            key={key.id}
+            className="flex flex-col gap-3 px-4 py-3 md:flex-row md:items-center md:justify-between"
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="truncate font-medium">{key.keyName}</span>
+                <Badge variant="outline" className="text-xs">
+                  {providerLabel(key.provider)}
+                </Badge>
+                <Badge
+                  variant={key.isValid ? 'secondary' : 'destructive'}
+                  className="text-xs"
+                >
+                  {key.isValid ? 'Valid' : 'Invalid'}
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                ••••{key.keyHint} · {key.requestCount} requests
+                {key.lastUsedAt &&
+                  ` · last used ${new Date(key.lastUsedAt).toLocaleString()}`}
+              </p>
+              {key.validationError && (
+                <p className="text-xs text-red-600">{key.validationError}</p>
+              )}
+            </div>
+            <div className="flex shrink-0 gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busyKeyId === key.id}
+                onClick={() => handleValidateKey(key)}
+              >
+                Re-check
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busyKeyId === key.id}
+                onClick={() => setRotatingKey(key)}
+              >
+                Rotate
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={busyKeyId === key.id}
+                onClick={() => handleRevokeKey(key)}
+              >
+                Revoke
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {/* Rotate Dialog */}
+      <Dialog
+        open={!!rotatingKey}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRotatingKey(null)
+            setRotatedSecret('')
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rotate {rotatingKey?.keyName}</DialogTitle>
+            <DialogDescription>
+              Paste the new {rotatingKey && providerLabel(rotatingKey.provider)}{' '}
+              key. The old key is discarded once the new one is saved.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="password"
+            autoComplete="off"
+            placeholder="New API key"
+            value={rotatedSecret}
+            onChange={(e) => setRotatedSecret(e.target.value)}
+          />
+          <DialogFooter>
+            <Button
+              onClick={handleRotateKey}
+              disabled={!rotatedSecret.trim() || busyKeyId !== null}
+            >
+              {busyKeyId ? 'Validating...' : 'Save New Key'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -0,0 +1,188 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useMutation } from 'convex/react'
+import { toast } from 'sonner'
+import { api } from '@/convex/_generated/api'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import { useShortcutBindings } from '@/hooks/use-shortcuts'
+import { useUserPreferences } from '@/hooks/use-user-preferences'
+import {
+  findShortcutConflicts,
+  formatShortcut,
+  parseShortcut,
+  shortcutFromEvent,
+} from '@/lib/shortcuts/combo'
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  SHORTCUT_LABELS,
+  ShortcutAction,
+  ShortcutBindings,
+  ShortcutParseError,
+} from '@/lib/shortcuts/types'
+
+function ShortcutKeys({ shortcut }: { shortcut: string }) {
+  return (
+    <div className="flex gap-1">
+      {formatShortcut(shortcut).map((label, index) => (
+        <kbd
+          key={index}
+          className="rounded bg-secondary px-2 py-1 font-sans text-sm"
+        >
+          {label}
+        </kbd>
+      ))}
+    </div>
+  )
+}
+
+export const KeyboardShortcutsSettings: React.FC = () => {
+  const { userId } = useUserPreferences()
+  const bindings = useShortcutBindings()
+  const updatePreferences = useMutation(api.userPreferences.createOrUpdate)
+  const [recording, setRecording] = useState<ShortcutAction | null>(null)
+
+  const conflicts = findShortcutConflicts(bindings)
+  const conflictFor = (action: ShortcutAction) =>
+    conflicts.find((conflict) => conflict.actions.includes(action))
+
+  const saveBindings = async (next: ShortcutBindings) => {
+    if (!userId) return
+
+    try {
+      await updatePreferences({ userId, shortcuts: next })
+      toast.success('Shortcuts saved')
+    } catch (error) {
+      console.error('Failed to save shortcuts:', error)
+      toast.error('Failed to save shortcuts')
+    }
+  }
+
+  // Capture the next key press while recording, ahead of the browser's
+  // own shortcuts
+  useEffect(() => {
+    if (!recording) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault()
+      event.stopPropagation()
+
+      const isBareEscape =
+        event.key === 'Escape' &&
+        !event.metaKey &&
+        !event.ctrlKey &&
+        !event.altKey &&
+        !event.shiftKey
+      if (isBareEscape) {
+        setRecording(null)
+        return
+      }
+
+      const shortcut = shortcutFromEvent(event)
+      if (!shortcut) return
+
+      try {
+        parseShortcut(shortcut)
+      } catch (error) {
+        if (error instanceof ShortcutParseError) {
+          toast.error(error.message)
+          return
+        }
+        throw error
+      }
+
+      const next = { ...bindings, [recording]: shortcut }
+      const conflict = findShortcutConflicts(next).find((entry) =>
+        entry.actions.includes(recording)
+      )
+      if (conflict) {
+        const others = conflict.actions.filter((action) => action !== recording)
+        toast.error(
+          others.length > 0
+            ? `Already used by ${others.map((action) => SHORTCUT_LABELS[action]).join(', ')}`
+            : 'That shortcut is reserved by the browser'
+        )
+        return
+      }
+
+      setRecording(null)
+      saveBindings(next)
+    }
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true })
+    return () =>
+      window.removeEventListener('keydown', handleKeyDown, { capture: true })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [recording, bindings])
+
+  const isDefault = SHORTCUT_ACTIONS.every(
+    (action) => bindings[action] === DEFAULT_SHORTCUTS[action]
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-2xl font-bold">Keyboard Shortcuts</h2>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isDefault || !userId}
+          onClick={() => saveBindings(DEFAULT_SHORTCUTS)}
+        >
+          Reset to Defaults
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Click a shortcut, then press the new key combination. Press Esc to
+        cancel.
+      </p>
+      <div className="space-y-4 py-2">
+        {SHORTCUT_ACTIONS.map((action) => {
+          const conflict = conflictFor(action)
+          const isRecording = recording === action
+
+          return (
+            <div
+              key={action}
+              className="flex items-center justify-between gap-x-1"
+            >
+              <div className="space-y-0.5">
+                <Label className="text-base font-medium">
+                  {SHORTCUT_LABELS[action]}
+                </Label>
+                {conflict && (
+                  <p className="text-sm text-destructive">
+                    {conflict.reserved
+                      ? 'Conflicts with a browser shortcut'
+                      : 'Conflicts with another shortcut'}
+                  </p>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                type="button"
+                disabled={!userId}
+                className={cn(
+                  'h-auto min-w-32 justify-end px-2 py-1',
+                  isRecording && 'ring-2 ring-primary/50'
+                )}
+                onClick={() => setRecording(isRecording ? null : action)}
+              >
+                {isRecording ? (
+                  <span className="text-sm text-muted-foreground">
+                    Press keys...
+                  </span>
+                ) : (
+                  <ShortcutKeys shortcut={bindings[action]} />
+                )}
+              </Button>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,14 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { toast } from 'sonner'
+import { api } from '@/convex/_generated/api'
+import { Doc } from '@/convex/_generated/dataModel'
+import { buildSystemPrompt } from '@/lib/ai/system-prompt'
+import { CODE_FONTS, getFontStack, MAIN_TEXT_FONTS } from '@/lib/fonts'
+import { useUserPreferences } from '@/hooks/use-user-preferences'
+import { KeyboardShortcutsSettings } from './_components/KeyboardShortcutsSetting'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
@@ -42,39 +50,89 @@ const defaultTraits = [
   'patient',
 ]
 
-const fontOptions = [
-  { value: 'inter', label: 'Inter' },
-  { value: 'system', label: 'System UI' },
-  { value: 'roboto', label: 'Roboto' },
-  { value: 'opensans', label: 'Open Sans' },
-  { value: 'lato', label: 'Lato' },
-]
+// Options that save as soon as they change; keys match userPreferences
+type OptionKey = Exclude<
+  keyof CustomizationSettings,
+  'name' | 'occupation' | 'traits' | 'additionalInfo'
+>
 
-const codeFontOptions = [
-  { value: 'jetbrains-mono', label: 'JetBrains Mono' },
-  { value: 'fira-code', label: 'Fira Code' },
-  { value: 'source-code-pro', label: 'Source Code Pro' },
-  { value: 'monaco', label: 'Monaco' },
-  { value: 'consolas', label: 'Consolas' },
-]
+const defaultSettings: CustomizationSettings = {
+  name: '',
+  occupation: '',
+  traits: [],
+  additionalInfo: '',
+  disableExternalLinkWarning: false,
+  invertSendBehavior: false,
+  boringTheme: false,
+  hidePersonalInfo: false,
+  disableThematicBreaks: false,
+  statsForNerds: false,
+  mainTextFont: '',
+  codeFont: '',
+}
+
+function toSettings(
+  preferences: Doc<'userPreferences'>
+): CustomizationSettings {
+  return {
+    name: preferences.displayName ?? '',
+    occupation: preferences.occupation ?? '',
+    traits: preferences.traits ?? [],
+    additionalInfo: preferences.additionalContext ?? '',
+    disableExternalLinkWarning: preferences.disableExternalLinkWarning,
+    invertSendBehavior: preferences.invertSendBehavior,
+    boringTheme: preferences.boringTheme,
+    hidePersonalInfo: preferences.hidePersonalInfo,
+    disableThematicBreaks: preferences.disableThematicBreaks,
+    statsForNerds: preferences.statsForNerds,
+    mainTextFont: preferences.mainTextFont ?? '',
+    codeFont: preferences.codeFont ?? '',
+  }
+}
 
 export default function T3ChatCustomization() {
-  const [settings, setSettings] = useState<CustomizationSettings>({
-    name: '',
-    occupation: '',
-    traits: [],
-    additionalInfo: '',
-    disableExternalLinkWarning: false,
-    invertSendBehavior: false,
-    boringTheme: true,
-    hidePersonalInfo: false,
-    disableThematicBreaks: false,
-    statsForNerds: false,
-    mainTextFont: '',
-    codeFont: '',
-  })
+  const { preferences, userId } = useUserPreferences()
+  const updatePreferences = useMutation(api.userPreferences.createOrUpdate)
+
+  const [settings, setSettings] =
+    useState<CustomizationSettings>(defaultSettings)
+  const [hasLoaded, setHasLoaded] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Fill the form once stored preferences arrive
+  useEffect(() => {
+    if (hasLoaded || preferences === undefined) return
+    if (preferences) setSettings(toSettings(preferences))
+    setHasLoaded(true)
+  }, [preferences, hasLoaded])
 
   const [currentTrait, setCurrentTrait] = useState('')
+  const [previewModelId, setPreviewModelId] = useState('')
+
+  const models = useQuery(api.availableModels.getAll)
+  const previewModel =
+    models?.find((model) => model.modelId === previewModelId) ?? models?.[0]
+
+  // Same builder the chat routes use, so this is exactly what gets sent
+  const systemPromptPreview = useMemo(
+    () =>
+      buildSystemPrompt({
+        preferences: {
+          displayName: settings.name,
+          occupation: settings.occupation,
+          traits: settings.traits,
+          additionalContext: settings.additionalInfo,
+        },
+        model: previewModel,
+      }),
+    [
+      settings.name,
+      settings.occupation,
+      settings.traits,
+      settings.additionalInfo,
+      previewModel,
+    ]
+  )
 
   const addTrait = (trait: string) => {
     if (
@@ -104,9 +162,42 @@ export default function T3ChatCustomization() {
     }
   }
 
-  const handleSavePreferences = () => {
-    console.log('Saving preferences:', settings)
-    // Implement save logic here
+  const handleSavePreferences = async () => {
+    if (!userId) return
+
+    setIsSaving(true)
+    try {
+      await updatePreferences({
+        userId,
+        displayName: settings.name.trim(),
+        occupation: settings.occupation.trim(),
+        traits: settings.traits,
+        additionalContext: settings.additionalInfo.trim(),
+      })
+      toast.success('Preferences saved')
+    } catch (error) {
+      console.error('Failed to save preferences:', error)
+      toast.error('Failed to save preferences')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const updateOption = async <K extends OptionKey>(
+    key: K,
+    value: CustomizationSettings[K]
+  ) => {
+    const previous = settings[key]
+    setSettings((prev) => ({ ...prev, [key]: value }))
+    if (!userId) return
+
+    try {
+      await updatePreferences({ userId, [key]: value })
+    } catch (error) {
+      console.error('Failed to save preference:', error)
+      setSettings((prev) => ({ ...prev, [key]: previous }))
+      toast.error('Failed to save preference')
+    }
   }
 
   const handleLoadLegacyData = () => {
@@ -242,6 +333,38 @@ export default function T3ChatCustomization() {
             </span>
           </div>
 
+          {/* System Prompt Preview */}
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="space-y-0.5">
+                <Label className="text-base font-medium">
+                  System Prompt Preview
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  What T3 Chat sends ahead of every conversation.
+                </p>
+              </div>
+              <Select
+                value={previewModel?.modelId ?? ''}
+                onValueChange={setPreviewModelId}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Select model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {models?.map((model) => (
+                    <SelectItem key={model.modelId} value={model.modelId}>
+                      {model.displayName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded-lg border border-dashed border-input p-4 text-xs text-muted-foreground">
+              {systemPromptPreview}
+            </pre>
+          </div>
+
           {/* Action Buttons */}
           <div className="flex flex-row items-center gap-2 justify-between">
             <Button
@@ -254,10 +377,10 @@ export default function T3ChatCustomization() {
             <Button
               type="button"
               className="bg-primary hover:bg-pink-600/90"
-              disabled={!settings.name.trim()}
+              disabled={!settings.name.trim() || !userId || isSaving}
               onClick={handleSavePreferences}
             >
-              Save Preferences
+              {isSaving ? 'Saving...' : 'Save Preferences'}
             </Button>
           </div>
         </form>
@@ -281,10 +404,7 @@ export default function T3ChatCustomization() {
             <Switch
               checked={settings.disableExternalLinkWarning}
               onCheckedChange={(checked) =>
-                setSettings((prev) => ({
-                  ...prev,
-                  disableExternalLinkWarning: checked,
-                }))
+                updateOption('disableExternalLinkWarning', checked)
               }
             />
           </div>
@@ -306,10 +426,7 @@ export default function T3ChatCustomization() {
             <Switch
               checked={settings.invertSendBehavior}
               onCheckedChange={(checked) =>
-                setSettings((prev) => ({
-                  ...prev,
-                  invertSendBehavior: checked,
-                }))
+                updateOption('invertSendBehavior', checked)
               }
             />
           </div>
@@ -328,7 +445,7 @@ export default function T3ChatCustomization() {
             <Switch
               checked={settings.boringTheme}
               onCheckedChange={(checked) =>
-                setSettings((prev) => ({ ...prev, boringTheme: checked }))
+                updateOption('boringTheme', checked)
               }
             />
           </div>
@@ -345,7 +462,7 @@ export default function T3ChatCustomization() {
             <Switch
               checked={settings.hidePersonalInfo}
               onCheckedChange={(checked) =>
-                setSettings((prev) => ({ ...prev, hidePersonalInfo: checked }))
+                updateOption('hidePersonalInfo', checked)
               }
             />
           </div>
@@ -364,10 +481,7 @@ export default function T3ChatCustomization() {
             <Switch
               checked={settings.disableThematicBreaks}
               onCheckedChange={(checked) =>
-                setSettings((prev) => ({
-                  ...prev,
-                  disableThematicBreaks: checked,
-                }))
+                updateOption('disableThematicBreaks', checked)
               }
             />
           </div>
@@ -384,7 +498,7 @@ export default function T3ChatCustomization() {
             <Switch
               checked={settings.statsForNerds}
               onCheckedChange={(checked) =>
-                setSettings((prev) => ({ ...prev, statsForNerds: checked }))
+                updateOption('statsForNerds', checked)
               }
             />
           </div>
@@ -405,14 +519,14 @@ export default function T3ChatCustomization() {
                   <Select
                     value={settings.mainTextFont}
                     onValueChange={(value) =>
-                      setSettings((prev) => ({ ...prev, mainTextFont: value }))
+                      updateOption('mainTextFont', value)
                     }
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Select font" />
                     </SelectTrigger>
                     <SelectContent>
-                      {fontOptions.map((font) => (
+                      {MAIN_TEXT_FONTS.map((font) => (
                         <SelectItem key={font.value} value={font.value}>
                           {font.label}
                         </SelectItem>
@@ -430,15 +544,13 @@ export default function T3ChatCustomization() {
                   </div>
                   <Select
                     value={settings.codeFont}
-                    onValueChange={(value) =>
-                      setSettings((prev) => ({ ...prev, codeFont: value }))
-                    }
+                    onValueChange={(value) => updateOption('codeFont', value)}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Select font" />
                     </SelectTrigger>
                     <SelectContent>
-                      {codeFontOptions.map((font) => (
+                      {CODE_FONTS.map((font) => (
                         <SelectItem key={font.value} value={font.value}>
                           {font.label}
                         </SelectItem>
@@ -452,7 +564,15 @@ export default function T3ChatCustomization() {
               <div>
                 <h1 className="text-base font-medium">Fonts Preview</h1>
                 <div className="rounded-lg border border-dashed border-input p-4">
-                  <div className="prose prose-pink max-w-none dark:prose-invert prose-pre:m-0 prose-pre:bg-transparent prose-pre:p-0">
+                  <div
+                    className="prose prose-pink max-w-none dark:prose-invert prose-pre:m-0 prose-pre:bg-transparent prose-pre:p-0"
+                    style={{
+                      fontFamily: getFontStack(
+                        MAIN_TEXT_FONTS,
+                        settings.mainTextFont
+                      ),
+                    }}
+                  >
                     <div className="flex justify-end">
                       <div className="group relative inline-block max-w-[80%] break-words rounded-xl border border-secondary/50 bg-secondary/50 px-4 py-3 text-left">
                         Can you write me a simple hello world program?
@@ -467,7 +587,14 @@ export default function T3ChatCustomization() {
                       </div>
                       <div className="bg-chat-accent text-sm font-[450] text-secondary-foreground rounded-b border border-t-0">
                         <pre className="px-4 py-4 overflow-auto text-sm">
-                          <code>{`function greet(name: string) {
+                          <code
+                            style={{
+                              fontFamily: getFontStack(
+                                CODE_FONTS,
+                                settings.codeFont
+                              ),
+                            }}
+                          >{`function greet(name: string) {
   console.log(\`Hello, \${name}!\`);
   return true;
 }`}</code>
@@ -481,6 +608,9 @@ export default function T3ChatCustomization() {
           </div>
         </div>
       </div>
+
+      {/* Keyboard Shortcuts */}
+      <KeyboardShortcutsSettings />
     </div>
   )
 }
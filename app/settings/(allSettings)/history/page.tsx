@@ -1,49 +1,174 @@
 'use client'
 
-import { useState } from 'react'
+import { useRef, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '@/convex/_generated/api'
 import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
-import { Card } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import { authClient } from '@/lib/auth-client'
+import {
+  ExportFormat,
+  IMPORT_SOURCE_LABELS,
+  ImportResult,
+} from '@/lib/history/types'
 
-interface HistoryItem {
-  id: string
-  title: string
-  createdAt: string
-  selected?: boolean
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  markdown: 'Markdown',
 }
 
-const dummyHistory: HistoryItem[] = [
-  {
-    id: '1',
-    title: 'Restore Desktop to Original State',
-    createdAt: '25/8/2025, 9:11:25 PM',
-  },
-  { id: '2', title: 'Greeting Title', createdAt: '23/8/2025, 8:07:00 PM' },
-  { id: '3', title: 'New Conversation', createdAt: '23/8/2025, 8:00:25 PM' },
-  {
-    id: '4',
-    title: 'Black Hole Existence Inquiry',
-    createdAt: '14/8/2025, 10:17:23 AM',
-  },
-]
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
 
 export default function HistoryAndSync() {
-  const [history, setHistory] = useState<HistoryItem[]>(dummyHistory)
+  const { data: authSession } = authClient.useSession()
+  const userId = authSession?.user.id
+
+  const threads = useQuery(api.threads.getByUser, userId ? { userId } : 'skip')
+  const exports = useQuery(
+    api.messageHistory.listExports,
+    userId ? { userId } : 'skip'
+  )
+  const deleteThread = useMutation(api.threads.softDelete)
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json')
+  const [isExporting, setIsExporting] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Threads can disappear (deleted elsewhere) while selected
+  const selectedThreadIds =
+    threads
+      ?.filter((thread) => selectedIds.has(thread.threadId))
+      .map((thread) => thread.threadId) ?? []
+  const hasSelection = selectedThreadIds.length > 0
 
   const toggleSelect = (id: string) => {
-    setHistory((prev) =>
-      prev.map((item) =>
-        item.id === id ? { ...item, selected: !item.selected } : item
-      )
-    )
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
   }
 
   const selectAll = () => {
-    setHistory((prev) => prev.map((item) => ({ ...item, selected: true })))
+    setSelectedIds(new Set(threads?.map((thread) => thread.threadId)))
   }
 
   const clearSelection = () => {
-    setHistory((prev) => prev.map((item) => ({ ...item, selected: false })))
+    setSelectedIds(new Set())
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const response = await fetch('/api/history/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          threadIds: selectedThreadIds,
+          format: exportFormat,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to export history')
+      }
+
+      toast.success(
+        `Exported ${selectedThreadIds.length} conversation${selectedThreadIds.length === 1 ? '' : 's'}`
+      )
+      window.location.assign(data.downloadUrl)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to export history'
+      )
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!userId) return
+    if (
+      !confirm(
+        `Move ${selectedThreadIds.length} conversation${selectedThreadIds.length === 1 ? '' : 's'} to the trash?`
+      )
+    ) {
+      return
+    }
+
+    setIsDeleting(true)
+    try {
+      for (const threadId of selectedThreadIds) {
+        await deleteThread({ threadId, userId })
+      }
+      clearSelection()
+      toast.success(
+        'Moved to trash. Conversations can be restored for 30 days.'
+      )
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to delete conversations'
+      )
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true)
+    try {
+      const response = await fetch('/api/history/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text(),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import history')
+      }
+
+      const result = data as ImportResult
+      toast.success(
+        `Imported ${result.threadsCreated} conversation${result.threadsCreated === 1 ? '' : 's'} (${result.messagesCreated} messages) from ${IMPORT_SOURCE_LABELS[result.source]}`,
+        {
+          description:
+            result.threadsSkipped > 0 || result.messagesSkipped > 0
+              ? `Skipped ${result.threadsSkipped} already imported or empty conversation${result.threadsSkipped === 1 ? '' : 's'} and ${result.messagesSkipped} message${result.messagesSkipped === 1 ? '' : 's'}`
+              : undefined,
+        }
+      )
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to import history'
+      )
+    } finally {
+      setIsImporting(false)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+    }
   }
 
   return (
@@ -52,8 +177,9 @@ export default function HistoryAndSync() {
         <h2 className="text-2xl font-bold">Message History</h2>
         <div className="space-y-6">
           <p className="text-muted-foreground/80 text-sm">
-            Save your history as JSON, or import someone else's. Importing will
-            NOT delete existing messages
+            Save your history as JSON, CSV or Markdown, or import a T3 Chat,
+            ChatGPT or Claude export. Importing will NOT delete existing
+            messages
           </p>
 
           <div className="space-y-2">
@@ -72,7 +198,7 @@ export default function HistoryAndSync() {
                 <Button
                   variant="outline"
                   size="sm"
-                  className="h-8 px-3 text-sm invisible"
+                  className={`h-8 px-3 text-sm ${hasSelection ? '' : 'invisible'}`}
                   onClick={clearSelection}
                 >
                   Clear <span className="hidden md:inline">Selection</span>
@@ -80,28 +206,59 @@ export default function HistoryAndSync() {
               </div>
 
               <div className="flex items-center gap-2">
+                <Select
+                  value={exportFormat}
+                  onValueChange={(value) =>
+                    setExportFormat(value as ExportFormat)
+                  }
+                >
+                  <SelectTrigger size="sm" className="h-8 w-28 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button
                   variant="outline"
                   size="sm"
                   className="h-8 px-3 text-xs"
-                  disabled
+                  disabled={!hasSelection || isExporting}
+                  onClick={handleExport}
                 >
-                  Export
+                  {isExporting ? 'Exporting...' : 'Export'}
                 </Button>
                 <Button
                   variant="destructive"
                   size="sm"
                   className="h-8 px-3 text-xs"
-                  disabled
+                  disabled={!hasSelection || isDeleting}
+                  onClick={handleDelete}
                 >
                   Delete
                 </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) handleImport(file)
+                  }}
+                />
                 <Button
                   variant="outline"
                   size="sm"
                   className="h-8 px-3 text-xs"
+                  disabled={isImporting}
+                  onClick={() => fileInputRef.current?.click()}
                 >
-                  Import
+                  {isImporting ? 'Importing...' : 'Import'}
                 </Button>
               </div>
             </div>
@@ -110,26 +267,66 @@ export default function HistoryAndSync() {
               className="w-full divide-y overflow-y-scroll rounded border"
               style={{ maxHeight: '15rem', minHeight: '15rem' }}
             >
-              {history.map((item) => (
+              {threads?.map((thread) => (
                 <li
-                  key={item.id}
+                  key={thread._id}
                   className="grid cursor-pointer grid-cols-[auto_1fr_auto_auto] items-center gap-3 px-4 py-2 hover:bg-muted/50"
                   style={{ minHeight: '2.5rem' }}
-                  onClick={() => toggleSelect(item.id)}
+                  onClick={() => toggleSelect(thread.threadId)}
                 >
                   <Checkbox
-                    checked={item.selected}
-                    onCheckedChange={() => toggleSelect(item.id)}
+                    checked={selectedIds.has(thread.threadId)}
+                    onClick={(e) => e.stopPropagation()}
+                    onCheckedChange={() => toggleSelect(thread.threadId)}
                   />
-                  <span className="truncate">{item.title}</span>
+                  <span className="truncate">{thread.title}</span>
                   <span className="w-8" />
                   <span className="w-[24ch] select-none text-right text-xs text-muted-foreground">
-                    {item.createdAt}
+                    {new Date(thread.createdAt).toLocaleString()}
                   </span>
                 </li>
               ))}
+              {threads?.length === 0 && (
+                <li className="px-4 py-8 text-center text-sm text-muted-foreground">
+                  No conversations yet.
+                </li>
+              )}
             </ul>
           </div>
+
+          {exports && exports.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Previous exports</h3>
+              <ul className="w-full divide-y rounded border">
+                {exports.map((record) => (
+                  <li
+                    key={record._id}
+                    className="grid grid-cols-[1fr_auto_auto] items-center gap-3 px-4 py-2 text-sm"
+                  >
+                    <span className="truncate">
+                      {FORMAT_LABELS[record.exportFormat]} ·{' '}
+                      {record.exportedThreads.length} conversation
+                      {record.exportedThreads.length === 1 ? '' : 's'} ·{' '}
+                      {formatFileSize(record.fileSize)}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(record.exportedAt).toLocaleString()}
+                    </span>
+                    <Button
+                      asChild
+                      variant="outline"
+                      size="sm"
+                      className="h-7 px-3 text-xs"
+                    >
+                      <a href={`/api/history/export/${record.exportId}`}>
+                        Download
+                      </a>
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </section>
 
@@ -1,7 +1,10 @@
 // components/HistorySyncSettings.tsx
 'use client' // This might be needed if you're using Next.js App Router and client-side hooks
 
-import React, { useState } from 'react' // Assuming you have a toast component from shadcn
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useQuery } from 'convex/react'
+import { api } from '@/convex/_generated/api'
 import { Input } from '@/components/ui/input'
 import {
   Card,
@@ -16,72 +19,149 @@ import { Switch } from '@/components/ui/switch'
 import { Button } from '@/components/ui/button'
 import { DataDisplayCard } from './dispaly-card'
 import { toast } from 'sonner'
+import { authClient } from '@/lib/auth-client'
+import {
+  useHistorySync,
+  useLocalHistoryStats,
+  useSyncSettings,
+} from '@/hooks/use-local-history'
+import {
+  clearLocalHistory,
+  listAllMessages,
+  listThreads,
+} from '@/lib/local-history/db'
+import { SyncResult } from '@/lib/local-history/types'
+import { buildExport } from '@/lib/history/export'
 
-// --- DUMMY DATA ---
-interface SyncStatus {
-  isEnabled: boolean
-  lastSynced: Date | null
-  syncedMessagesCount: number
-  syncedChatsCount: number
-}
-
-interface LocalHistory {
-  messagesCount: number
-  chatsCount: number
-  lastUpdated: Date
+function describeSync(result: SyncResult): string {
+  const parts = [
+    `${result.pulledMessages} messages received`,
+    `${result.pushedMessages} sent`,
+  ]
+  if (result.conflicts > 0) {
+    parts.push(
+      `${result.conflicts} conflict${result.conflicts === 1 ? '' : 's'} resolved`
+    )
+  }
+  return parts.join(', ')
 }
 
-const DUMMY_SYNC_STATUS: SyncStatus = {
-  isEnabled: true, // Initially enabled
-  lastSynced: new Date(Date.now() - 60 * 60 * 24 * 30 * 2 * 1000), // 2 months ago
-  syncedMessagesCount: 12345,
-  syncedChatsCount: 123,
-}
+export const HistorySyncSettings: React.FC = () => {
+  const router = useRouter()
+  const { data: authSession } = authClient.useSession()
+  const userId = authSession?.user.id
 
-const DUMMY_LOCAL_HISTORY: LocalHistory = {
-  messagesCount: 54321,
-  chatsCount: 456,
-  lastUpdated: new Date(), // Now
-}
-// --- END DUMMY DATA ---
+  const { settings, setSyncEnabled } = useSyncSettings()
+  const { syncNow, isSyncing } = useHistorySync()
+  const { counts, conflicts } = useLocalHistoryStats()
+  const syncedThreads = useQuery(
+    api.threads.getByUser,
+    userId ? { userId } : 'skip'
+  )
 
-export const HistorySyncSettings: React.FC = () => {
-  const [syncEnabled, setSyncEnabled] = useState(DUMMY_SYNC_STATUS.isEnabled)
   const [exportFileName, setExportFileName] = useState('t3_chat_export')
   const [isExporting, setIsExporting] = useState(false)
+  const [isClearing, setIsClearing] = useState(false)
+
+  const syncEnabled = settings?.syncEnabled ?? true
+  const lastSynced = settings?.lastSyncedAt
+    ? new Date(settings.lastSyncedAt)
+    : null
+  const syncedMessagesCount =
+    syncedThreads?.reduce((acc, thread) => acc + thread.messageCount, 0) ?? 0
+
+  const handleSyncNow = async () => {
+    try {
+      const result = await syncNow()
+      toast.success('Your chat history has been synced', {
+        description: describeSync(result),
+      })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Sync failed')
+    }
+  }
 
-  // Handlers for dummy actions
-  const handleSyncToggle = (checked: boolean) => {
-    setSyncEnabled(checked)
+  const handleSyncToggle = async (checked: boolean) => {
+    await setSyncEnabled(checked)
     if (checked) {
       toast.success('Your chat history will now sync automatically')
+      // Upload anything created while sync was off
+      await handleSyncNow()
     } else {
-      toast.success('Your chat history will no longer sync.')
+      toast.success(
+        'Your chat history will no longer sync. New chats stay on this device.'
+      )
     }
-    // In a real app, you'd call a Convex mutation here to update user settings
-    // await convex.mutation('user.setSyncSetting', { enabled: checked });
   }
 
   const handleExportLocalHistory = async () => {
     setIsExporting(true)
-    toast.success('Preparing your local chat history for download...')
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 2000))
-    console.log(`Exporting local history to ${exportFileName}.json`)
-    toast.success(
-      `Your local history has been exported as "${exportFileName}.json".`
-    )
-    setIsExporting(false)
-    // In a real app, this would trigger a download
+    try {
+      const [threads, messages] = await Promise.all([
+        listThreads(),
+        listAllMessages(),
+      ])
+      const { content, contentType } = buildExport(
+        'json',
+        threads
+          .filter((thread) => thread.visibility !== 'deleted')
+          .map((thread) => ({
+            threadId: thread.threadId,
+            title: thread.title,
+            model: thread.model,
+            createdAt: thread.createdAt,
+            messages: messages
+              .filter(
+                (message) =>
+                  message.threadId === thread.threadId &&
+                  message.isActiveVersion !== false
+              )
+              .sort((a, b) => a.createdAt - b.createdAt)
+              .map((message) => ({
+                role: message.role,
+                content: message.content,
+                model: message.model,
+                createdAt: message.createdAt,
+              })),
+          }))
+      )
+
+      const url = URL.createObjectURL(
+        new Blob([content], { type: contentType })
+      )
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${exportFileName || 't3_chat_export'}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+
+      toast.success(
+        `Your local history has been exported as "${link.download}".`
+      )
+    } catch (error) {
+      console.error('Local history export failed:', error)
+      toast.error('Failed to export local history')
+    } finally {
+      setIsExporting(false)
+    }
   }
 
-  const handleSyncNow = async () => {
-    toast('Initiating a manual sync of your chat history...')
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 2000))
-    console.log('Manually syncing history...')
-    toast('Your chat history has been synced successfully.')
-    // In a real app, you'd call a Convex mutation to trigger a sync
+  const handleClearLocalHistory = async () => {
+    const warning = syncEnabled
+      ? 'Clear chat history stored on this device? Synced chats will download again on the next sync.'
+      : 'Clear chat history stored on this device? Cloud sync is off, so these chats will be lost.'
+    if (!confirm(warning)) return
+
+    setIsClearing(true)
+    try {
+      await clearLocalHistory()
+      toast.success('Local history cleared')
+    } catch (error) {
+      console.error('Failed to clear local history:', error)
+      toast.error('Failed to clear local history')
+    } finally {
+      setIsClearing(false)
+    }
   }
 
   return (
@@ -118,16 +198,25 @@ export const HistorySyncSettings: React.FC = () => {
                   aria-label="Toggle cloud sync"
                 />
               </div>
+              {!syncEnabled && (
+                <p className="mt-4 text-sm text-muted-foreground">
+                  Chats are stored only in this browser.
+                </p>
+              )}
               {syncEnabled && (
                 <p className="mt-4 text-sm text-muted-foreground">
-                  Last synced: {DUMMY_SYNC_STATUS.lastSynced?.toLocaleString()}
+                  Last synced: {lastSynced?.toLocaleString() ?? 'Never'}
                 </p>
               )}
             </CardContent>
             {syncEnabled && (
               <CardFooter>
-                <Button onClick={handleSyncNow} className="w-full">
-                  Sync Now
+                <Button
+                  onClick={handleSyncNow}
+                  disabled={isSyncing}
+                  className="w-full"
+                >
+                  {isSyncing ? 'Syncing...' : 'Sync Now'}
                 </Button>
               </CardFooter>
             )}
@@ -138,24 +227,22 @@ export const HistorySyncSettings: React.FC = () => {
         <DataDisplayCard
           title="Synced History"
           description="View and manage the chat history stored in the cloud."
-          dataCount={DUMMY_SYNC_STATUS.syncedMessagesCount}
+          dataCount={syncedMessagesCount}
           dataLabel="messages"
           buttonText="View Synced History"
-          onButtonClick={() => {
-            toast('Viewing synced history is not yet implemented.')
-          }}
+          onButtonClick={() => router.push('/settings/history')}
         />
 
         {/* Local History Card */}
         <DataDisplayCard
           title="Local History"
           description="Manage chat history stored directly on this device."
-          dataCount={DUMMY_LOCAL_HISTORY.messagesCount}
+          dataCount={counts?.messages ?? 0}
           dataLabel="messages"
           buttonText="Clear Local History"
-          onButtonClick={() => {
-            toast('Clearing local history is not yet implemented.')
-          }}
+          onButtonClick={handleClearLocalHistory}
+          isLoading={isClearing}
+          updatedAt={lastSynced}
         />
       </div>
 
@@ -195,6 +282,53 @@ export const HistorySyncSettings: React.FC = () => {
             </CardFooter>
           </Card>
         </div>
+
+        {/* Conflict Log */}
+        <div className="md:col-span-2">
+          <Card className="rounded-xl">
+            <CardHeader>
+              <CardTitle className="text-xl">Sync Conflicts</CardTitle>
+              <CardDescription>
+                Messages and thread titles changed on this device and in the
+                cloud between syncs. The cloud version was kept.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!conflicts || conflicts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No conflicts so far.
+                </p>
+              ) : (
+                <ul className="max-h-64 divide-y overflow-y-auto rounded border">
+                  {conflicts.map((conflict) => (
+                    <li key={conflict.id} className="space-y-1 px-4 py-2">
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>
+                          Kept the{' '}
+                          {conflict.winner === 'local' ? 'local' : 'cloud'}{' '}
+                          version
+                        </span>
+                        <span>
+                          {new Date(conflict.resolvedAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="truncate text-sm">
+                        {conflict.winner === 'local'
+                          ? conflict.localContent
+                          : conflict.remoteContent}
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground line-through">
+                        {conflict.winner === 'local'
+                          ? conflict.remoteContent
+                          : conflict.localContent}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
       </div>
     </div>
   )
@@ -18,6 +18,7 @@ interface DataDisplayCardProps {
   buttonText: string
   onButtonClick: () => void
   isLoading?: boolean
+  updatedAt?: Date | null
 }
 
 export const DataDisplayCard: React.FC<DataDisplayCardProps> = ({
@@ -28,6 +29,7 @@ export const DataDisplayCard: React.FC<DataDisplayCardProps> = ({
   buttonText,
   onButtonClick,
   isLoading = false,
+  updatedAt,
 }) => {
   return (
     <Card className="rounded-xl border-dashed">
@@ -40,8 +42,9 @@ export const DataDisplayCard: React.FC<DataDisplayCardProps> = ({
           <p className="font-medium text-foreground">
             {dataCount.toLocaleString()} {dataLabel}
           </p>
-          <p className="text-xs">Updated 2 months ago</p>{' '}
-          {/* Dummy update time */}
+          {updatedAt && (
+            <p className="text-xs">Updated {updatedAt.toLocaleString()}</p>
+          )}
         </div>
       </CardContent>
       <CardFooter>
@@ -0,0 +1,59 @@
+'use client'
+
+import Image from 'next/image'
+import { FileTextIcon, XIcon } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { ATTACHMENT_KINDS, MessageAttachment } from '@/lib/attachments/types'
+
+interface AttachmentPreviewProps {
+  attachment: MessageAttachment
+  size?: 'sm' | 'lg' // Composer thumbnails vs. images in a sent message
+  onRemove?: () => void
+}
+
+export function AttachmentPreview({
+  attachment,
+  size = 'sm',
+  onRemove,
+}: AttachmentPreviewProps) {
+  const isImage = ATTACHMENT_KINDS[attachment.mediaType] === 'image'
+
+  return (
+    <div className="relative">
+      <a
+        href={attachment.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={attachment.filename}
+      >
+        {isImage ? (
+          <Image
+            src={attachment.url}
+            alt={attachment.filename}
+            width={size === 'sm' ? 64 : 256}
+            height={size === 'sm' ? 64 : 256}
+            className={cn(
+              'rounded-md border object-cover',
+              size === 'sm' ? 'h-16 w-16' : 'max-h-64 w-auto'
+            )}
+          />
+        ) : (
+          <div className="flex h-16 max-w-48 items-center gap-2 rounded-md border bg-muted px-3 text-xs">
+            <FileTextIcon className="h-4 w-4 shrink-0" />
+            <span className="truncate">{attachment.filename}</span>
+          </div>
+        )}
+      </a>
+      {onRemove && (
+        <button
+          type="button"
+          aria-label={`Remove ${attachment.filename}`}
+          className="absolute -right-1.5 -top-1.5 rounded-full border bg-background p-0.5 hover:bg-muted"
+          onClick={onRemove}
+        >
+          <XIcon className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  )
+}
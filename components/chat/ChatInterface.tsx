@@ -1,27 +1,73 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { Fragment, useEffect, useRef, useState } from 'react'
 import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
-import { useConvex, useMutation, useQuery } from 'convex/react'
+import { Textarea } from '@/components/ui/textarea'
+import { useMutation, useQuery } from 'convex/react'
 import { api } from '../../convex/_generated/api'
+import { Id } from '../../convex/_generated/dataModel'
 import { ModelSelector } from '@/components/chat/ModelSelector'
 import { StreamingMessage } from '@/components/chat/StreamingMessage'
+import { ContextSummaryMarker } from '@/components/chat/ContextSummaryMarker'
+import { AttachmentPreview } from '@/components/chat/AttachmentPreview'
 import { useRouter } from 'next/navigation'
 import { SidebarTrigger } from '@/components/ui/sidebar'
 import { Separator } from '@/components/ui/separator'
 import { useSession } from '@/components/auth/AnonymousProvider'
+import { authClient } from '@/lib/auth-client'
+import { readDataStream } from '@/lib/ai/data-stream'
+import { useResumableStream } from '@/hooks/use-resumable-stream'
+import { useLocalMessages, useSyncSettings } from '@/hooks/use-local-history'
+import { useShortcut } from '@/hooks/use-shortcuts'
+import { useAttachmentUploads } from '@/hooks/use-attachment-uploads'
+import { useAvailableTools } from '@/hooks/use-available-tools'
+import { getAttachmentTools, needsVision } from '@/lib/ai/attachments'
+import {
+  ATTACHMENT_EXTENSION_TYPES,
+  ATTACHMENT_MEDIA_TYPES,
+} from '@/lib/attachments/types'
+import { streamLocalTurn } from '@/lib/local-history/chat'
 import { nanoid } from 'nanoid'
+import {
+  BrainIcon,
+  PaperclipIcon,
+  SquareIcon,
+  TelescopeIcon,
+  WrenchIcon,
+} from 'lucide-react'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { REASONING_EFFORTS, ReasoningEffort } from '@/lib/ai/types'
 
 interface ChatInterfaceProps {
   threadId?: string
+  highlightMessageId?: string // Message to scroll to and highlight
 }
 
-export default function ChatInterface({ threadId }: ChatInterfaceProps) {
+const HIGHLIGHT_DURATION_MS = 3000
+
+// File picker filter; extensions cover text files with no reported type
+const ATTACHMENT_ACCEPT = [
+  ...ATTACHMENT_MEDIA_TYPES,
+  ...Object.keys(ATTACHMENT_EXTENSION_TYPES).map(
+    (extension) => `.${extension}`
+  ),
+].join(',')
+
+export default function ChatInterface({
+  threadId,
+  highlightMessageId,
+}: ChatInterfaceProps) {
   const router = useRouter()
   const { isSessionReady, sessionError, refreshSession } = useSession()
 
-  const convex = useConvex()
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [selectedModel, setSelectedModel] = useState('gpt-4o')
@@ -30,13 +76,87 @@ export default function ChatInterface({ threadId }: ChatInterfaceProps) {
   >('Free')
   const [tierFetchAttempted, setTierFetchAttempted] = useState(false)
 
-  const createThread = useMutation(api.threads.create)
-  const createMessage = useMutation(api.messages.create)
+  const { data: authSession } = authClient.useSession()
+  const userId = authSession?.user.id
+
   const messages = useQuery(
     api.messages.getByThread,
-    threadId ? { threadId } : 'skip'
+    threadId && userId ? { threadId, userId } : 'skip'
+  )
+  const userPreferences = useQuery(
+    api.userPreferences.get,
+    userId ? { userId } : 'skip'
   )
-  const userPreferences = useQuery(api.userPreferences.get)
+  const { isStreaming: isResuming, resumeStream } = useResumableStream({
+    threadId,
+  })
+  const thread = useQuery(
+    api.threads.getById,
+    threadId && userId ? { threadId, userId } : 'skip'
+  )
+  // With sync off the conversation lives only in IndexedDB
+  const { settings: syncSettings } = useSyncSettings()
+  const isLocalOnly = syncSettings?.syncEnabled === false
+  const localMessages = useLocalMessages(isLocalOnly ? threadId : undefined)
+  const localAbortRef = useRef<AbortController | null>(null)
+  const composerRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const selectedModelConfig = useQuery(api.availableModels.getByModelId, {
+    modelId: selectedModel,
+  })
+  const modelName = selectedModelConfig?.displayName ?? selectedModel
+  const {
+    attachments,
+    isUploading,
+    addFiles,
+    removeAttachment,
+    clearAttachments,
+  } = useAttachmentUploads({
+    supportsVision: !!selectedModelConfig?.supportsVision,
+    modelName,
+    onError: (message) => alert(message),
+  })
+  const { tools, enabledTools, toggleTool } = useAvailableTools(selectedModel)
+  // Deep research for the next message (needs a model with tool support)
+  const [researchMode, setResearchMode] = useState(false)
+  const canResearch = !isLocalOnly && !!selectedModelConfig?.supportsTools
+  const [reasoningEffort, setReasoningEffort] =
+    useState<ReasoningEffort>('medium')
+  const isReasoningModel = !!selectedModelConfig?.isReasoning
+  const displayedMessages = isLocalOnly
+    ? localMessages
+        ?.filter((message) => message.isActiveVersion !== false)
+        .map((message) => ({
+          ...message,
+          _id: message.id as Id<'messages'>,
+        }))
+    : messages
+  const isGenerating = isLocalOnly
+    ? isLoading
+    : thread?.generationStatus === 'generating'
+  const isBusy = isLoading || isResuming || isGenerating
+  const [isStopping, setIsStopping] = useState(false)
+  const branchThread = useMutation(api.threads.branch)
+  const selectVersion = useMutation(api.messages.selectVersion)
+
+  const [highlightedId, setHighlightedId] = useState<string | null>(null)
+  const hasMessages = !!displayedMessages && displayedMessages.length > 0
+
+  // Scroll to a message opened from search once it has rendered
+  useEffect(() => {
+    if (!highlightMessageId || !hasMessages) return
+
+    const element = document.getElementById(`message-${highlightMessageId}`)
+    if (!element) return
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    setHighlightedId(highlightMessageId)
+    const timer = setTimeout(
+      () => setHighlightedId(null),
+      HIGHLIGHT_DURATION_MS
+    )
+    return () => clearTimeout(timer)
+  }, [highlightMessageId, hasMessages])
 
   // Fetch user tier after session is ready
   useEffect(() => {
@@ -110,9 +230,84 @@ export default function ChatInterface({ threadId }: ChatInterfaceProps) {
     }
   }, [userPreferences])
 
+  /**
+   * Send a turn to the stream route and follow it to the end
+   * The route persists the thread, messages and every token; the Convex
+   * subscription renders the reply as it arrives.
+   */
+  const streamTurn = async (
+    targetThreadId: string,
+    body: {
+      content?: string
+      model: string
+      attachments?: typeof attachments
+      editMessageId?: string
+      editMode?: 'truncate' | 'keep'
+      regenerateMessageId?: string
+      research?: boolean
+    }
+  ) => {
+    const response = await fetch(`/api/chat/${targetThreadId}/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...body,
+        tools: enabledTools.map((tool) => tool.name),
+        reasoningEffort: isReasoningModel ? reasoningEffort : undefined,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response
+        .json()
+        .catch(() => ({ error: response.statusText }))
+      if (response.status === 429) {
+        alert(`Rate limit exceeded: ${errorData.error}`)
+        return
+      }
+      if (
+        errorData.contextLength ||
+        errorData.code === 'VISION_NOT_SUPPORTED' ||
+        errorData.code === 'TOOLS_NOT_SUPPORTED'
+      ) {
+        alert(errorData.error)
+        return
+      }
+      throw new Error(errorData.error || 'Failed to send message')
+    }
+
+    // Follow the stream so the button stays busy until the reply is done;
+    // if the connection drops, pick up from the last token received
+    const result = await readDataStream(response)
+    const taskId = response.headers.get('X-Task-Id')
+
+    if (result.interrupted && taskId) {
+      await resumeStream(taskId, result.tokenIndex)
+    } else if (result.error) {
+      console.error('Generation failed:', result.error)
+    }
+  }
+
+  // Enter sends by default; with inverted behavior Enter adds a new line and
+  // Shift/Ctrl/⌘ + Enter sends
+  const handleComposerKeyDown = (
+    e: React.KeyboardEvent<HTMLTextAreaElement>
+  ) => {
+    if (e.key !== 'Enter' || e.nativeEvent.isComposing) return
+
+    const hasModifier = e.shiftKey || e.ctrlKey || e.metaKey
+    const shouldSend = userPreferences?.invertSendBehavior
+      ? hasModifier
+      : !e.shiftKey
+    if (shouldSend) {
+      e.preventDefault()
+      e.currentTarget.form?.requestSubmit()
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!input.trim() || isLoading) return
+    if (!input.trim() || isBusy || isUploading) return
 
     if (!isSessionReady) {
       console.log('⏳ Waiting for session to be ready...')
@@ -120,7 +315,17 @@ export default function ChatInterface({ threadId }: ChatInterfaceProps) {
       return
     }
 
+    // The model may have changed since the files were attached
+    if (needsVision(attachments) && !selectedModelConfig?.supportsVision) {
+      alert(
+        `${modelName} can't read images or PDFs. Switch to a model with vision support or remove them.`
+      )
+      return
+    }
+
     const userMessage = input.trim()
+    const messageAttachments = attachments
+    const research = researchMode && canResearch
     setIsLoading(true)
 
     try {
@@ -141,8 +346,13 @@ export default function ChatInterface({ threadId }: ChatInterfaceProps) {
               action: 'message',
               metadata: {
                 model: selectedModel,
-                estimatedTokens: userMessage.length / 4,
-                tools: ['web_search_preview'],
+                content: userMessage,
+                tools: [
+                  ...(research
+                    ? ['research']
+                    : enabledTools.map((tool) => tool.creditKey)),
+                  ...getAttachmentTools(messageAttachments),
+                ],
               },
             }),
           })
@@ -222,6 +432,22 @@ export default function ChatInterface({ threadId }: ChatInterfaceProps) {
       }
 
       setInput('')
+      clearAttachments()
+
+      if (isLocalOnly) {
+        localAbortRef.current = new AbortController()
+        try {
+          await streamLocalTurn({
+            threadId: actualThreadId!,
+            content: userMessage,
+            model: selectedModel,
+            signal: localAbortRef.current.signal,
+          })
+        } finally {
+          localAbortRef.current = null
+        }
+        return
+      }
 
       // Ensure user exists in Convex before creating thread
       try {
@@ -234,118 +460,140 @@ export default function ChatInterface({ threadId }: ChatInterfaceProps) {
         console.warn('Could not ensure user sync, continuing anyway:', error)
       }
 
-      // Create thread if it doesn't exist
-      let thread = null
-      try {
-        thread = await convex.query(api.threads.getById, {
-          threadId: actualThreadId!,
-        })
-      } catch (error) {
-        console.log(
-          'Thread not found or not accessible, will create new one:',
-          error
-        )
-      }
+      await streamTurn(actualThreadId!, {
+        content: userMessage,
+        model: selectedModel,
+        attachments: messageAttachments.length ? messageAttachments : undefined,
+        research,
+      })
+    } catch (error) {
+      console.error('Chat error:', error)
+      alert('Failed to send message. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
 
-      if (!thread) {
-        await createThread({
-          threadId: actualThreadId!,
-          title:
-            userMessage.slice(0, 50) + (userMessage.length > 50 ? '...' : ''),
-          model: selectedModel,
-        })
-      }
+  const handleEdit = async (
+    messageId: Id<'messages'>,
+    content: string,
+    mode: 'truncate' | 'keep'
+  ) => {
+    if (!threadId || isBusy) return
+    setIsLoading(true)
 
-      // Add user message to Convex
-      await createMessage({
-        threadId: actualThreadId!,
-        role: 'user',
-        content: userMessage,
+    try {
+      await streamTurn(threadId, {
+        content,
         model: selectedModel,
+        editMessageId: messageId,
+        editMode: mode,
       })
+    } catch (error) {
+      console.error('Edit error:', error)
+      alert('Failed to edit message. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
 
-      // Stream AI response
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          messages: [
-            ...(messages || []).map((msg) => ({
-              role: msg.role,
-              content: msg.content,
-            })),
-            { role: 'user', content: userMessage },
-          ],
-          model: selectedModel,
-          threadId: actualThreadId,
-        }),
+  const handleRegenerate = async (messageId: Id<'messages'>) => {
+    if (!threadId || isBusy) return
+    setIsLoading(true)
+
+    try {
+      // Uses the model currently picked in the header selector; research
+      // replies are regenerated as research
+      await streamTurn(threadId, {
+        model: selectedModel,
+        regenerateMessageId: messageId,
+        research: !!messages?.find((msg) => msg._id === messageId)?.research,
       })
+    } catch (error) {
+      console.error('Regenerate error:', error)
+      alert('Failed to regenerate reply. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json()
-        if (response.status === 429) {
-          alert(`Rate limit exceeded: ${errorData.error}`)
-          return
-        }
-        throw new Error(errorData.error || 'Failed to send message')
-      }
+  const handleSelectVersion = async (messageId: string) => {
+    if (!userId) return
 
-      // Handle streaming response
-      const reader = response.body?.getReader()
-      if (!reader) throw new Error('No response body')
+    try {
+      await selectVersion({ messageId: messageId as Id<'messages'>, userId })
+    } catch (error) {
+      console.error('Version switch error:', error)
+    }
+  }
 
-      let assistantContent = ''
+  const handleBranch = async (messageId: Id<'messages'>) => {
+    if (!threadId || !userId) return
 
-      // Create assistant message for streaming
-      const assistantMessageResult = await createMessage({
-        threadId: actualThreadId!,
-        role: 'assistant',
-        content: '',
-        model: selectedModel,
+    try {
+      // Copies the conversation up to this message into a new thread
+      const branch = await branchThread({
+        threadId,
+        messageId,
+        newThreadId: nanoid(),
+        userId,
       })
-      const assistantMessageId = assistantMessageResult.id
-
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        const chunk = new TextDecoder().decode(value)
-        const lines = chunk.split('\n').filter((line) => line.trim())
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6))
-              if (data.type === 'text-delta') {
-                assistantContent += data.textDelta
-                await convex.mutation(api.messages.updateStreaming, {
-                  messageId: assistantMessageId,
-                  content: assistantContent,
-                  isComplete: false,
-                })
-              } else if (data.type === 'finish') {
-                await convex.mutation(api.messages.updateStreaming, {
-                  messageId: assistantMessageId,
-                  content: assistantContent,
-                  isComplete: true,
-                  finishReason: data.finishReason,
-                  usage: data.usage,
-                })
-              }
-            } catch (e) {
-              console.error('Error parsing stream data:', e)
-            }
-          }
-        }
+      router.push(`/chat/${branch.threadId}`)
+    } catch (error) {
+      console.error('Branch error:', error)
+      alert('Failed to branch conversation. Please try again.')
+    }
+  }
+
+  const handleStop = async () => {
+    if (isLocalOnly) {
+      localAbortRef.current?.abort()
+      return
+    }
+
+    if (!threadId || isStopping) return
+    setIsStopping(true)
+
+    try {
+      // The partial reply stays in the thread with a "cancelled" badge
+      const response = await fetch(`/api/chat/${threadId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId: thread?.activeTaskId }),
+      })
+
+      if (!response.ok && response.status !== 409) {
+        const errorData = await response
+          .json()
+          .catch(() => ({ error: response.statusText }))
+        throw new Error(errorData.error || 'Failed to stop generation')
       }
     } catch (error) {
-      console.error('Chat error:', error)
-      alert('Failed to send message. Please try again.')
+      console.error('Stop error:', error)
+      alert('Failed to stop generation. Please try again.')
     } finally {
-      setIsLoading(false)
+      setIsStopping(false)
     }
   }
 
+  const lastMessage = displayedMessages?.[displayedMessages.length - 1]
+  const lastReply = displayedMessages
+    ?.filter((message) => message.role === 'assistant')
+    .pop()
+
+  useShortcut('stopGeneration', handleStop, isGenerating)
+  useShortcut(
+    'regenerate',
+    () => handleRegenerate(lastMessage!._id),
+    !isBusy && !isLocalOnly && lastMessage?.role === 'assistant'
+  )
+  useShortcut(
+    'copyLastReply',
+    () => navigator.clipboard.writeText(lastReply!.content),
+    !!lastReply?.content
+  )
+  useShortcut('focusComposer', () => composerRef.current?.focus())
+
   return (
     <div className="flex flex-col h-full">
       {/* Header */}
@@ -387,15 +635,45 @@ export default function ChatInterface({ threadId }: ChatInterfaceProps) {
           </div>
         ) : (
           <>
-            {(messages || []).map((message) => (
-              <StreamingMessage
-                key={message._id}
-                message={message}
-                showStats={userPreferences?.statsForNerds}
-              />
+            {/* Local-only threads don't support branching, edits or versions */}
+            {(displayedMessages || []).map((message, index) => (
+              <Fragment key={message._id}>
+                <StreamingMessage
+                  message={message}
+                  showStats={userPreferences?.statsForNerds}
+                  hideThematicBreaks={userPreferences?.disableThematicBreaks}
+                  highlighted={highlightedId === message._id}
+                  onBranch={
+                    isLocalOnly ? undefined : () => handleBranch(message._id)
+                  }
+                  onEdit={
+                    isBusy || isLocalOnly
+                      ? undefined
+                      : (content, mode) =>
+                          handleEdit(message._id, content, mode)
+                  }
+                  onRegenerate={
+                    !isBusy &&
+                    !isLocalOnly &&
+                    index === displayedMessages!.length - 1
+                      ? () => handleRegenerate(message._id)
+                      : undefined
+                  }
+                  onSelectVersion={
+                    isBusy || isLocalOnly ? undefined : handleSelectVersion
+                  }
+                />
+                {!isLocalOnly &&
+                  thread?.contextSummary?.throughMessageId === message._id && (
+                    <ContextSummaryMarker
+                      summary={thread.contextSummary.content}
+                      model={thread.contextSummary.model}
+                    />
+                  )}
+              </Fragment>
             ))}
 
-            {(!messages || messages.length === 0) && (
+            {(!displayedMessages || displayedMessages.length === 0) && (
               <div className="flex flex-col items-center justify-center h-full text-center">
                 <h2 className="text-xl font-semibold mb-2">
                   Start a conversation
@@ -411,28 +689,177 @@ export default function ChatInterface({ threadId }: ChatInterfaceProps) {
 
       {/* Input */}
       <div className="border-t bg-background p-4">
-        <form onSubmit={handleSubmit} className="flex gap-2">
-          <Input
-            className="flex-1"
+        {attachments.length > 0 && (
+          <div className="mb-3 flex flex-wrap gap-2">
+            {attachments.map((attachment) => (
+              <AttachmentPreview
+                key={attachment.url}
+                attachment={attachment}
+                onRemove={() => removeAttachment(attachment.url)}
+              />
+            ))}
+          </div>
+        )}
+        <form onSubmit={handleSubmit} className="flex items-end gap-2">
+          {/* Local-only threads never leave the browser, so no uploads */}
+          {!isLocalOnly && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                hidden
+                accept={ATTACHMENT_ACCEPT}
+                onChange={(e) => {
+                  addFiles(Array.from(e.target.files ?? []))
+                  e.target.value = ''
+                }}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Attach files"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy || isUploading || !isSessionReady}
+              >
+                <PaperclipIcon className="h-4 w-4" />
+              </Button>
+              {tools.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Tools"
+                      disabled={isBusy || !isSessionReady}
+                    >
+                      <WrenchIcon className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent side="top" align="start">
+                    <DropdownMenuLabel>Tools</DropdownMenuLabel>
+                    {tools.map((tool) => (
+                      <DropdownMenuCheckboxItem
+                        key={tool.name}
+                        checked={enabledTools.includes(tool)}
+                        onCheckedChange={(checked) =>
+                          toggleTool(tool.name, checked)
+                        }
+                        onSelect={(e) => e.preventDefault()}
+                      >
+                        {tool.label}
+                        <span className="ml-auto pl-4 text-xs text-muted-foreground">
+                          {tool.credits}{' '}
+                          {tool.credits === 1 ? 'credit' : 'credits'}
+                        </span>
+                      </DropdownMenuCheckboxItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              {canResearch && (
+                <Button
+                  type="button"
+                  variant={researchMode ? 'secondary' : 'ghost'}
+                  size="icon"
+                  aria-label="Research"
+                  aria-pressed={researchMode}
+                  title="Research: search the web and write a cited report"
+                  onClick={() => setResearchMode(!researchMode)}
+                  disabled={isBusy || !isSessionReady}
+                >
+                  <TelescopeIcon className="h-4 w-4" />
+                </Button>
+              )}
+              {isReasoningModel && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="gap-1 px-2 capitalize"
+                      aria-label="Reasoning effort"
+                      disabled={isBusy || !isSessionReady}
+                    >
+                      <BrainIcon className="h-4 w-4" />
+                      {reasoningEffort}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent side="top" align="start">
+                    <DropdownMenuLabel>Reasoning effort</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup
+                      value={reasoningEffort}
+                      onValueChange={(value) =>
+                        setReasoningEffort(value as ReasoningEffort)
+                      }
+                    >
+                      {REASONING_EFFORTS.map((effort) => (
+                        <DropdownMenuRadioItem
+                          key={effort}
+                          value={effort}
+                          className="capitalize"
+                        >
+                          {effort}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </>
+          )}
+          <Textarea
+            ref={composerRef}
+            className="max-h-48 min-h-9 flex-1 resize-none"
+            rows={1}
             value={input}
             placeholder={
               !isSessionReady
                 ? 'Establishing connection...'
-                : 'Type your message...'
+                : researchMode && canResearch
+                  ? 'What should I research?'
+                  : 'Type your message...'
             }
             onChange={(e) => setInput(e.target.value)}
-            disabled={isLoading || !isSessionReady}
+            onKeyDown={handleComposerKeyDown}
+            onPaste={(e) => {
+              const files = Array.from(e.clipboardData.files)
+              if (files.length > 0 && !isLocalOnly) {
+                e.preventDefault()
+                addFiles(files)
+              }
+            }}
+            disabled={isBusy || !isSessionReady}
           />
-          <Button
-            type="submit"
-            disabled={isLoading || !input.trim() || !isSessionReady}
-          >
-            {!isSessionReady
-              ? 'Connecting...'
-              : isLoading
-                ? 'Sending...'
-                : 'Send'}
-          </Button>
+          {isGenerating ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleStop}
+              disabled={isStopping}
+            >
+              <SquareIcon className="h-4 w-4" />
+              {isStopping ? 'Stopping...' : 'Stop'}
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={
+                isBusy || isUploading || !input.trim() || !isSessionReady
+              }
+            >
+              {!isSessionReady
+                ? 'Connecting...'
+                : isBusy
+                  ? 'Sending...'
+                  : isUploading
+                    ? 'Uploading...'
+                    : 'Send'}
+            </Button>
+          )}
         </form>
       </div>
     </div>
@@ -1,30 +1,102 @@
 'use client'
 
-import { useQuery } from 'convex/react'
+import { useMutation, useQuery } from 'convex/react'
 import { api } from '../../convex/_generated/api'
 import { useRouter, useParams } from 'next/navigation'
 import { nanoid } from 'nanoid'
 import {
   Sidebar,
   SidebarContent,
+  SidebarFooter,
   SidebarGroup,
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarHeader,
   SidebarMenu,
+  SidebarMenuAction,
   SidebarMenuButton,
   SidebarMenuItem,
+  useSidebar,
 } from '@/components/ui/sidebar'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { PlusIcon, MessageSquareIcon } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Fragment, useState } from 'react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  PlusIcon,
+  MessageSquareIcon,
+  GitBranchIcon,
+  PencilIcon,
+  MoreHorizontalIcon,
+  PinIcon,
+  PinOffIcon,
+  ArchiveIcon,
+  Trash2Icon,
+  ArchiveRestoreIcon,
+  ArrowLeftIcon,
+  SearchIcon,
+} from 'lucide-react'
+import { authClient } from '@/lib/auth-client'
+import { Doc } from '../../convex/_generated/dataModel'
+import { SearchPalette } from '@/components/chat/SearchPalette'
+import { useLocalThreads, useSyncSettings } from '@/hooks/use-local-history'
+import { useShortcut } from '@/hooks/use-shortcuts'
 
 export function ChatSidebar() {
   const router = useRouter()
   const params = useParams()
   const currentThreadId = params.threadId as string
 
-  const threads = useQuery(api.threads.getByUser)
+  const { data: authSession } = authClient.useSession()
+  const userId = authSession?.user.id
+
+  const threads = useQuery(api.threads.getByUser, userId ? { userId } : 'skip')
+  // With sync off, conversations are listed from this device only
+  const { settings: syncSettings } = useSyncSettings()
+  const isLocalOnly = syncSettings?.syncEnabled === false
+  const localThreads = useLocalThreads(isLocalOnly)?.filter(
+    (thread) => thread.visibility === 'visible'
+  )
+  const updateTitle = useMutation(api.threads.updateTitle)
+  const setPinned = useMutation(api.threads.setPinned)
+  const archiveThread = useMutation(api.threads.archive)
+  const deleteThread = useMutation(api.threads.softDelete)
+  const restoreThread = useMutation(api.threads.restore)
+  const purgeThread = useMutation(api.threads.purge)
+
+  const [isSearchOpen, setIsSearchOpen] = useState(false)
+  const [view, setView] = useState<'chats' | 'archived' | 'deleted'>('chats')
+  const hiddenThreads = useQuery(
+    api.threads.getByVisibility,
+    userId && view !== 'chats' ? { userId, visibility: view } : 'skip'
+  )
+  const [renamingThreadId, setRenamingThreadId] = useState<string | null>(null)
+  const [titleDraft, setTitleDraft] = useState('')
+
+  // Nest branches under the thread they were branched from (pinned
+  // threads always stay at the top level)
+  const threadIds = new Set(threads?.map((thread) => thread.threadId))
+  const isNested = (thread: Doc<'threads'>) =>
+    !thread.pinned &&
+    !!thread.branchParent &&
+    threadIds.has(thread.branchParent)
+  const branchesByParent = new Map<string, Doc<'threads'>[]>()
+  for (const thread of threads ?? []) {
+    if (isNested(thread)) {
+      const siblings = branchesByParent.get(thread.branchParent!) ?? []
+      branchesByParent.set(thread.branchParent!, [...siblings, thread])
+    }
+  }
+  const rootThreads = threads?.filter((thread) => !isNested(thread))
+  const pinnedThreads = rootThreads?.filter((thread) => thread.pinned)
+  const unpinnedThreads = rootThreads?.filter((thread) => !thread.pinned)
 
   const handleNewChat = () => {
     const newThreadId = nanoid()
@@ -35,73 +107,377 @@ export function ChatSidebar() {
     router.push(`/chat/${threadId}`)
   }
 
+  // Conversations in the order they're listed, branches after their parent
+  const listThreadIds = (list: Doc<'threads'>[]): string[] =>
+    list.flatMap((thread) => [
+      thread.threadId,
+      ...listThreadIds(branchesByParent.get(thread.threadId) ?? []),
+    ])
+  const listedThreadIds = isLocalOnly
+    ? (localThreads ?? []).map((thread) => thread.threadId)
+    : view === 'chats'
+      ? listThreadIds([...(pinnedThreads ?? []), ...(unpinnedThreads ?? [])])
+      : (hiddenThreads ?? []).map((thread) => thread.threadId)
+
+  const selectAdjacentThread = (offset: 1 | -1) => {
+    if (listedThreadIds.length === 0) return
+    const index = listedThreadIds.indexOf(currentThreadId)
+    const next =
+      index === -1
+        ? offset === 1
+          ? 0
+          : listedThreadIds.length - 1
+        : index + offset
+    if (next >= 0 && next < listedThreadIds.length) {
+      handleThreadSelect(listedThreadIds[next])
+    }
+  }
+
+  const { toggleSidebar } = useSidebar()
+  useShortcut('newChat', handleNewChat)
+  useShortcut('toggleSidebar', toggleSidebar)
+  useShortcut('nextThread', () => selectAdjacentThread(1))
+  useShortcut('previousThread', () => selectAdjacentThread(-1))
+
+  const startRename = (thread: Doc<'threads'>) => {
+    setTitleDraft(thread.title)
+    setRenamingThreadId(thread.threadId)
+  }
+
+  const saveRename = async (thread: Doc<'threads'>) => {
+    const title = titleDraft.trim()
+    setRenamingThreadId(null)
+    if (!userId || !title || title === thread.title) return
+
+    try {
+      // Marks the title as user-set so auto-titling never overwrites it
+      await updateTitle({ threadId: thread.threadId, userId, title })
+    } catch (error) {
+      console.error('Failed to rename thread:', error)
+    }
+  }
+
+  const handleTogglePin = async (thread: Doc<'threads'>) => {
+    if (!userId) return
+
+    try {
+      await setPinned({
+        threadId: thread.threadId,
+        userId,
+        pinned: !thread.pinned,
+      })
+    } catch (error) {
+      console.error('Failed to pin thread:', error)
+    }
+  }
+
+  // Archive, delete, restore and purge all move the thread out of the
+  // current list, so leave it if it's the open conversation
+  const moveThread = async (
+    action: (args: { threadId: string; userId: string }) => Promise<unknown>,
+    thread: Doc<'threads'>
+  ) => {
+    if (!userId) return
+
+    try {
+      await action({ threadId: thread.threadId, userId })
+      if (currentThreadId === thread.threadId) {
+        router.push('/chat')
+      }
+    } catch (error) {
+      console.error('Failed to update thread:', error)
+      alert(error instanceof Error ? error.message : 'Failed to update thread')
+    }
+  }
+
+  const handlePurge = (thread: Doc<'threads'>) => {
+    if (
+      confirm(`Permanently delete "${thread.title}"? This cannot be undone.`)
+    ) {
+      moveThread(purgeThread, thread)
+    }
+  }
+
+  const renderThreadMenu = (thread: Doc<'threads'>) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <SidebarMenuAction showOnHover title="More">
+          <MoreHorizontalIcon />
+        </SidebarMenuAction>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="right" align="start">
+        {view === 'chats' ? (
+          <>
+            <DropdownMenuItem onClick={() => startRename(thread)}>
+              <PencilIcon />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleTogglePin(thread)}>
+              {thread.pinned ? <PinOffIcon /> : <PinIcon />}
+              {thread.pinned ? 'Unpin' : 'Pin'}
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => moveThread(archiveThread, thread)}>
+              <ArchiveIcon />
+              Archive
+            </DropdownMenuItem>
+          </>
+        ) : (
+          <DropdownMenuItem onClick={() => moveThread(restoreThread, thread)}>
+            <ArchiveRestoreIcon />
+            Restore
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuSeparator />
+        {view === 'deleted' ? (
+          <DropdownMenuItem
+            variant="destructive"
+            onClick={() => handlePurge(thread)}
+          >
+            <Trash2Icon />
+            Delete permanently
+          </DropdownMenuItem>
+        ) : (
+          <DropdownMenuItem
+            variant="destructive"
+            onClick={() => moveThread(deleteThread, thread)}
+          >
+            <Trash2Icon />
+            Delete
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+
+  const renderThread = (
+    thread: Doc<'threads'>,
+    depth: number
+  ): React.ReactNode => (
+    <Fragment key={thread._id}>
+      <SidebarMenuItem style={{ paddingLeft: depth * 12 }}>
+        {renamingThreadId === thread.threadId ? (
+          <Input
+            autoFocus
+            value={titleDraft}
+            maxLength={100}
+            className="h-8 text-sm"
+            onChange={(e) => setTitleDraft(e.target.value)}
+            onBlur={() => saveRename(thread)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                saveRename(thread)
+              } else if (e.key === 'Escape') {
+                setRenamingThreadId(null)
+              }
+            }}
+          />
+        ) : (
+          <>
+            <SidebarMenuButton
+              onClick={() => handleThreadSelect(thread.threadId)}
+              isActive={currentThreadId === thread.threadId}
+              className="w-full justify-start"
+            >
+              {thread.branchParent ? (
+                <GitBranchIcon className="h-4 w-4" />
+              ) : (
+                <MessageSquareIcon className="h-4 w-4" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between">
+                  <span
+                    className="truncate text-sm"
+                    onDoubleClick={() =>
+                      view === 'chats' && startRename(thread)
+                    }
+                  >
+                    {thread.title}
+                  </span>
+                  <div className="flex items-center gap-1 ml-2">
+                    {thread.generationStatus === 'generating' && (
+                      <Badge variant="secondary" className="text-xs">
+                        <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+                      </Badge>
+                    )}
+                    {thread.pinned && (
+                      <span className="text-yellow-500 text-xs">📌</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-xs text-gray-500 mt-1">
+                  <span>{thread.messageCount} messages</span>
+                  {thread.model && (
+                    <Badge variant="outline" className="text-xs">
+                      {thread.model}
+                    </Badge>
+                  )}
+                </div>
+                {view === 'chats' &&
+                  thread.branchParent &&
+                  !threadIds.has(thread.branchParent) && (
+                    <div className="text-xs text-gray-500 mt-1 truncate">
+                      Branch of a hidden conversation
+                    </div>
+                  )}
+              </div>
+            </SidebarMenuButton>
+            {renderThreadMenu(thread)}
+          </>
+        )}
+      </SidebarMenuItem>
+      {view === 'chats' &&
+        branchesByParent
+          .get(thread.threadId)
+          ?.map((branch) => renderThread(branch, depth + 1))}
+    </Fragment>
+  )
+
   return (
     <Sidebar>
       <SidebarHeader>
         <div className="flex items-center justify-between p-2">
           <h2 className="text-lg font-semibold">T3Chat</h2>
-          <Button
-            onClick={handleNewChat}
-            size="sm"
-            variant="outline"
-            className="h-8 w-8 p-0"
-          >
-            <PlusIcon className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button
+              onClick={() => setIsSearchOpen(true)}
+              size="sm"
+              variant="outline"
+              className="h-8 w-8 p-0"
+              title="Search"
+            >
+              <SearchIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={handleNewChat}
+              size="sm"
+              variant="outline"
+              className="h-8 w-8 p-0"
+            >
+              <PlusIcon className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
+        <SearchPalette open={isSearchOpen} onOpenChange={setIsSearchOpen} />
       </SidebarHeader>
 
       <SidebarContent>
-        <SidebarGroup>
-          <SidebarGroupLabel>Conversations</SidebarGroupLabel>
-          <SidebarGroupContent>
-            <SidebarMenu>
-              {threads?.map((thread) => (
-                <SidebarMenuItem key={thread._id}>
-                  <SidebarMenuButton
-                    onClick={() => handleThreadSelect(thread.threadId)}
-                    isActive={currentThreadId === thread.threadId}
-                    className="w-full justify-start"
-                  >
-                    <MessageSquareIcon className="h-4 w-4" />
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center justify-between">
-                        <span className="truncate text-sm">{thread.title}</span>
-                        <div className="flex items-center gap-1 ml-2">
-                          {thread.generationStatus === 'generating' && (
-                            <Badge variant="secondary" className="text-xs">
-                              <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                            </Badge>
-                          )}
-                          {thread.pinned && (
-                            <span className="text-yellow-500 text-xs">📌</span>
-                          )}
-                        </div>
-                      </div>
-                      <div className="flex items-center gap-2 text-xs text-gray-500 mt-1">
-                        <span>{thread.messageCount} messages</span>
-                        {thread.model && (
-                          <Badge variant="outline" className="text-xs">
-                            {thread.model}
-                          </Badge>
-                        )}
-                      </div>
+        {isLocalOnly ? (
+          <SidebarGroup>
+            <SidebarGroupLabel>On this device</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {localThreads?.map((thread) => (
+                  <SidebarMenuItem key={thread.threadId}>
+                    <SidebarMenuButton
+                      onClick={() => handleThreadSelect(thread.threadId)}
+                      isActive={currentThreadId === thread.threadId}
+                      className="w-full justify-start"
+                    >
+                      <MessageSquareIcon className="h-4 w-4" />
+                      <span className="truncate text-sm">{thread.title}</span>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+
+                {localThreads?.length === 0 && (
+                  <div className="text-center text-gray-500 text-sm py-8 px-4">
+                    <MessageSquareIcon className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                    <p>No conversations on this device.</p>
+                    <p className="text-xs mt-1">
+                      Cloud sync is off, so new chats stay local.
+                    </p>
+                  </div>
+                )}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        ) : view === 'chats' ? (
+          <>
+            {pinnedThreads && pinnedThreads.length > 0 && (
+              <SidebarGroup>
+                <SidebarGroupLabel>Pinned</SidebarGroupLabel>
+                <SidebarGroupContent>
+                  <SidebarMenu>
+                    {pinnedThreads.map((thread) => renderThread(thread, 0))}
+                  </SidebarMenu>
+                </SidebarGroupContent>
+              </SidebarGroup>
+            )}
+
+            <SidebarGroup>
+              <SidebarGroupLabel>Conversations</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {unpinnedThreads?.map((thread) => renderThread(thread, 0))}
+
+                  {threads?.length === 0 && (
+                    <div className="text-center text-gray-500 text-sm py-8 px-4">
+                      <MessageSquareIcon className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                      <p>No conversations yet.</p>
+                      <p className="text-xs mt-1">Click + to start chatting!</p>
                     </div>
-                  </SidebarMenuButton>
-                </SidebarMenuItem>
-              ))}
-
-              {threads?.length === 0 && (
-                <div className="text-center text-gray-500 text-sm py-8 px-4">
-                  <MessageSquareIcon className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                  <p>No conversations yet.</p>
-                  <p className="text-xs mt-1">Click + to start chatting!</p>
-                </div>
-              )}
-            </SidebarMenu>
-          </SidebarGroupContent>
-        </SidebarGroup>
+                  )}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          </>
+        ) : (
+          <SidebarGroup>
+            <SidebarGroupLabel>
+              {view === 'archived' ? 'Archived' : 'Trash'}
+            </SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {hiddenThreads?.map((thread) => renderThread(thread, 0))}
+
+                {hiddenThreads?.length === 0 && (
+                  <div className="text-center text-gray-500 text-sm py-8 px-4">
+                    {view === 'archived' ? (
+                      <p>No archived conversations.</p>
+                    ) : (
+                      <>
+                        <p>Trash is empty.</p>
+                        <p className="text-xs mt-1">
+                          Deleted conversations are removed after 30 days.
+                        </p>
+                      </>
+                    )}
+                  </div>
+                )}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
       </SidebarContent>
+
+      <SidebarFooter className={isLocalOnly ? 'hidden' : undefined}>
+        <SidebarMenu>
+          {view === 'chats' ? (
+            <>
+              <SidebarMenuItem>
+                <SidebarMenuButton onClick={() => setView('archived')}>
+                  <ArchiveIcon className="h-4 w-4" />
+                  <span>Archive</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton onClick={() => setView('deleted')}>
+                  <Trash2Icon className="h-4 w-4" />
+                  <span>Trash</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            </>
+          ) : (
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={() => setView('chats')}>
+                <ArrowLeftIcon className="h-4 w-4" />
+                <span>Back to conversations</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          )}
+        </SidebarMenu>
+      </SidebarFooter>
     </Sidebar>
   )
 }
@@ -0,0 +1,43 @@
+'use client'
+
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { getSourceHostname } from '@/lib/search/citations'
+import { Source } from '@/lib/search/types'
+
+interface CitationProps {
+  number: number
+  source: Source
+}
+
+/**
+ * Numbered citation chip linking to its source, with a hover card showing
+ * the source's title, site and snippet
+ */
+export function Citation({ number, source }: CitationProps) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <a
+          href={source.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded bg-black/10 px-1 align-super text-[10px] font-medium leading-none no-underline hover:bg-black/20"
+          aria-label={`Source ${number}: ${source.title}`}
+        >
+          {number}
+        </a>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-xs text-left">
+        <div className="font-medium">{source.title}</div>
+        <div className="opacity-70">{getSourceHostname(source.url)}</div>
+        {source.snippet && (
+          <p className="mt-1 line-clamp-3 opacity-90">{source.snippet}</p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  )
+}
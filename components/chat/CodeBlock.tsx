@@ -0,0 +1,114 @@
+'use client'
+
+import { memo, useEffect, useState } from 'react'
+import { CheckIcon, CopyIcon, DownloadIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  getCachedHighlight,
+  getCodeFileName,
+  highlightCode,
+} from '@/lib/markdown/highlight'
+
+interface CodeBlockProps {
+  code: string
+  language: string
+}
+
+// Waits for a growing block to pause before highlighting it again
+const HIGHLIGHT_DELAY_MS = 150
+
+/**
+ * Fenced code block with highlighting, a language label and copy/download
+ * buttons; memoized so finished blocks don't re-render while a reply streams
+ */
+export const CodeBlock = memo(function CodeBlock({
+  code,
+  language,
+}: CodeBlockProps) {
+  const [highlighted, setHighlighted] = useState<{
+    code: string
+    html: string
+  } | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const html =
+    highlighted?.code === code
+      ? highlighted.html
+      : getCachedHighlight(code, language)
+
+  useEffect(() => {
+    if (getCachedHighlight(code, language)) return
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      highlightCode(code, language)
+        .then((result) => {
+          if (!cancelled) setHighlighted({ code, html: result })
+        })
+        .catch((error) => console.error('❌ Failed to highlight code:', error))
+    }, HIGHLIGHT_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [code, language])
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(code)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([code], { type: 'text/plain' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = getCodeFileName(language)
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="not-prose my-2 overflow-hidden rounded-md border border-black/10 bg-white">
+      <div className="flex items-center justify-between border-b border-black/10 bg-black/5 pl-2 text-xs text-gray-500">
+        <span className="font-mono">{language}</span>
+        <div className="flex">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="Download"
+            onClick={download}
+          >
+            <DownloadIcon className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title={copied ? 'Copied' : 'Copy code'}
+            onClick={copy}
+          >
+            {copied ? (
+              <CheckIcon className="h-3.5 w-3.5" />
+            ) : (
+              <CopyIcon className="h-3.5 w-3.5" />
+            )}
+          </Button>
+        </div>
+      </div>
+      {/* Plain text while the block is still growing or being highlighted */}
+      {html ? (
+        <div
+          className="overflow-x-auto font-mono text-xs [&_pre]:bg-transparent! [&_pre]:p-2"
+          dangerouslySetInnerHTML={{ __html: html }}
+        />
+      ) : (
+        <pre className="overflow-x-auto p-2 font-mono text-xs">
+          <code>{code}</code>
+        </pre>
+      )}
+    </div>
+  )
+})
@@ -0,0 +1,52 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDownIcon, ChevronRightIcon } from 'lucide-react'
+
+interface ContextSummaryMarkerProps {
+  summary: string // Empty when the turns were dropped without a summary
+  model: string
+}
+
+/**
+ * Divider after the last message that no longer fits the model's context
+ * window; expands to the summary the model sees in its place
+ */
+export function ContextSummaryMarker({
+  summary,
+  model,
+}: ContextSummaryMarkerProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  return (
+    <div className="py-2">
+      <div className="flex items-center gap-3 text-xs text-gray-500">
+        <div className="h-px flex-1 bg-border" />
+        {summary ? (
+          <button
+            type="button"
+            className="flex items-center gap-1 hover:text-foreground"
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? (
+              <ChevronDownIcon className="h-3 w-3" />
+            ) : (
+              <ChevronRightIcon className="h-3 w-3" />
+            )}
+            Earlier messages summarized to fit {model}&apos;s context window
+          </button>
+        ) : (
+          <span>
+            Earlier messages no longer fit {model}&apos;s context window
+          </span>
+        )}
+        <div className="h-px flex-1 bg-border" />
+      </div>
+      {expanded && (
+        <div className="mx-auto mt-2 max-w-2xl whitespace-pre-wrap rounded-md bg-muted p-3 text-sm text-muted-foreground">
+          {summary}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import 'katex/dist/katex.min.css'
+import { createContext, memo, useContext, useMemo } from 'react'
+import Markdown, { Components } from 'react-markdown'
+import rehypeKatex from 'rehype-katex'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import { Citation } from '@/components/chat/Citation'
+import { CodeBlock } from '@/components/chat/CodeBlock'
+import { MermaidDiagram } from '@/components/chat/MermaidDiagram'
+import { getCodeLanguage } from '@/lib/markdown/highlight'
+import { normalizeMathDelimiters } from '@/lib/markdown/math'
+import { getCitationNumber, remarkCitations } from '@/lib/search/citations'
+import { Source } from '@/lib/search/types'
+
+interface MarkdownContentProps {
+  content: string
+  sources?: Source[]
+  isStreaming?: boolean
+  hideThematicBreaks?: boolean
+}
+
+type MarkdownState = Omit<MarkdownContentProps, 'content'>
+
+// Per-message state for the renderers below. Keeping the renderers at module
+// level keeps their identity stable, so code blocks and diagrams aren't
+// remounted on every streamed delta.
+const MarkdownStateContext = createContext<MarkdownState>({})
+
+const components: Components = {
+  // [n] markers become citations of the message's sources
+  a: function Link({ href, children }) {
+    const { sources } = useContext(MarkdownStateContext)
+    const citation = getCitationNumber(href)
+    const source = citation && sources?.[citation - 1]
+    if (citation && source) {
+      return <Citation number={citation} source={source} />
+    }
+    return <a href={href}>{children}</a>
+  },
+  hr: function ThematicBreak() {
+    const { hideThematicBreaks } = useContext(MarkdownStateContext)
+    return hideThematicBreaks ? null : <hr />
+  },
+  // Fenced blocks; inline code keeps the default renderer
+  pre: function Pre({ node, children }) {
+    const { isStreaming } = useContext(MarkdownStateContext)
+    const code = node?.children[0]
+    if (code?.type !== 'element' || code.tagName !== 'code') {
+      return <pre>{children}</pre>
+    }
+
+    const className = code.properties.className
+    const language = getCodeLanguage(
+      Array.isArray(className) ? className.join(' ') : undefined
+    )
+    const text = code.children
+      .map((child) => (child.type === 'text' ? child.value : ''))
+      .join('')
+      .replace(/\n$/, '')
+
+    if (language === 'mermaid') {
+      return <MermaidDiagram code={text} isStreaming={!!isStreaming} />
+    }
+    return <CodeBlock code={text} language={language} />
+  },
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="w-full border-collapse text-xs">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th
+      className="border border-black/10 bg-black/5 px-2 py-1 text-left font-medium"
+      style={style}
+    >
+      {children}
+    </th>
+  ),
+  td: ({ children, style }) => (
+    <td className="border border-black/10 px-2 py-1" style={style}>
+      {children}
+    </td>
+  ),
+}
+
+/**
+ * Message markdown: GFM tables, highlighted code blocks, KaTeX math, Mermaid
+ * diagrams and source citations
+ */
+export const MarkdownContent = memo(function MarkdownContent({
+  content,
+  sources,
+  isStreaming = false,
+  hideThematicBreaks = false,
+}: MarkdownContentProps) {
+  const state = useMemo(
+    () => ({ sources, isStreaming, hideThematicBreaks }),
+    [sources, isStreaming, hideThematicBreaks]
+  )
+  const sourceCount = sources?.length ?? 0
+
+  return (
+    <MarkdownStateContext.Provider value={state}>
+      <Markdown
+        remarkPlugins={[
+          remarkGfm,
+          [remarkMath, { singleDollarTextMath: false }],
+          [remarkCitations, { sourceCount }],
+        ]}
+        rehypePlugins={[rehypeKatex]}
+        components={components}
+      >
+        {normalizeMathDelimiters(content)}
+      </Markdown>
+    </MarkdownStateContext.Provider>
+  )
+})
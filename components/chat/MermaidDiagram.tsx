@@ -0,0 +1,73 @@
+'use client'
+
+import { memo, useEffect, useId, useState } from 'react'
+import { CodeBlock } from '@/components/chat/CodeBlock'
+
+interface MermaidDiagramProps {
+  code: string
+  isStreaming: boolean
+}
+
+type Mermaid = (typeof import('mermaid'))['default']
+
+let mermaidPromise: Promise<Mermaid> | null = null
+
+// Mermaid is large, so it loads the first time a reply contains a diagram
+function getMermaid(): Promise<Mermaid> {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      mermaid.initialize({
+        startOnLoad: false,
+        securityLevel: 'strict',
+        theme: 'neutral',
+      })
+      return mermaid
+    })
+  }
+  return mermaidPromise
+}
+
+/**
+ * Mermaid block drawn as a diagram once the reply finishes; shows the source
+ * while streaming and when the diagram doesn't parse
+ */
+export const MermaidDiagram = memo(function MermaidDiagram({
+  code,
+  isStreaming,
+}: MermaidDiagramProps) {
+  const id = `mermaid-${useId().replace(/:/g, '')}`
+  const [svg, setSvg] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    // Half-written diagrams rarely parse, so wait for the whole block
+    if (isStreaming) return
+
+    let cancelled = false
+    setFailed(false)
+    getMermaid()
+      .then((mermaid) => mermaid.render(id, code))
+      .then((result) => {
+        if (!cancelled) setSvg(result.svg)
+      })
+      .catch((error) => {
+        console.error('❌ Failed to render Mermaid diagram:', error)
+        if (!cancelled) setFailed(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [id, code, isStreaming])
+
+  if (isStreaming || failed || !svg) {
+    return <CodeBlock code={code} language="mermaid" />
+  }
+
+  return (
+    <div
+      className="not-prose my-2 flex justify-center overflow-x-auto rounded-md border border-black/10 bg-white p-2"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  )
+})
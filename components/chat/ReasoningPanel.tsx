@@ -0,0 +1,74 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  BrainIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  Loader2Icon,
+} from 'lucide-react'
+
+export interface MessageReasoning {
+  content: string
+  tokenCount?: number // Set once the reply finishes
+  durationMs?: number // Unset while the model thinks
+}
+
+interface ReasoningPanelProps {
+  reasoning: MessageReasoning
+  isStreaming: boolean
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(1, Math.round(ms / 1000))
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+/**
+ * Collapsible reasoning trace shown above a reply ("Thought for 12s")
+ */
+export function ReasoningPanel({
+  reasoning,
+  isStreaming,
+}: ReasoningPanelProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  const isThinking = isStreaming && reasoning.durationMs === undefined
+  const label = isThinking
+    ? 'Thinking...'
+    : reasoning.durationMs !== undefined
+      ? `Thought for ${formatDuration(reasoning.durationMs)}`
+      : 'Reasoning'
+
+  return (
+    <div className="my-1 text-xs">
+      <button
+        type="button"
+        className="flex items-center gap-1.5 text-gray-500 hover:text-foreground"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? (
+          <ChevronDownIcon className="h-3 w-3" />
+        ) : (
+          <ChevronRightIcon className="h-3 w-3" />
+        )}
+        <BrainIcon className="h-3 w-3" />
+        {label}
+        {isThinking && <Loader2Icon className="h-3 w-3 animate-spin" />}
+      </button>
+      {expanded && (
+        <div className="mt-1 border-l-2 border-black/10 pl-2 text-gray-600">
+          <div className="max-h-64 overflow-y-auto whitespace-pre-wrap">
+            {reasoning.content}
+          </div>
+          {reasoning.tokenCount !== undefined && (
+            <div className="mt-1 text-[10px] text-gray-500">
+              {reasoning.tokenCount.toLocaleString()} reasoning tokens
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  Loader2Icon,
+  TelescopeIcon,
+} from 'lucide-react'
+import { getSourceHostname } from '@/lib/search/citations'
+import { ResearchState, Source } from '@/lib/search/types'
+
+interface ResearchProgressProps {
+  research: ResearchState
+  sources: Source[]
+}
+
+function getStatusLabel(research: ResearchState, sourceCount: number) {
+  switch (research.status) {
+    case 'planning':
+      return 'Planning research...'
+    case 'searching':
+      return `Researching ${research.questions.length} ${research.questions.length === 1 ? 'question' : 'questions'}...`
+    case 'writing':
+      return 'Writing report...'
+    case 'done':
+      return `Researched ${sourceCount} ${sourceCount === 1 ? 'source' : 'sources'}`
+  }
+}
+
+/**
+ * Plan and sources of a research reply; open while the research runs
+ */
+export function ResearchProgress({ research, sources }: ResearchProgressProps) {
+  const [expanded, setExpanded] = useState<boolean | null>(null)
+
+  const isRunning = research.status !== 'done'
+  // Follows the run until the user opens or closes it
+  const isExpanded = expanded ?? isRunning
+
+  return (
+    <div className="my-1 rounded-md border border-black/10 bg-white/60 text-xs">
+      <button
+        type="button"
+        className="flex w-full items-center gap-1.5 px-2 py-1 text-left"
+        onClick={() => setExpanded(!isExpanded)}
+      >
+        {isExpanded ? (
+          <ChevronDownIcon className="h-3 w-3" />
+        ) : (
+          <ChevronRightIcon className="h-3 w-3" />
+        )}
+        <TelescopeIcon className="h-3 w-3 text-gray-500" />
+        <span>{getStatusLabel(research, sources.length)}</span>
+        {isRunning && (
+          <Loader2Icon className="ml-auto h-3 w-3 animate-spin text-gray-500" />
+        )}
+      </button>
+      {isExpanded && (
+        <div className="space-y-2 border-t border-black/10 px-2 py-1.5">
+          {research.questions.length > 0 && (
+            <div>
+              <div className="mb-0.5 text-gray-500">Plan</div>
+              <ol className="list-decimal space-y-0.5 pl-4">
+                {research.questions.map((question, index) => (
+                  <li key={index}>{question}</li>
+                ))}
+              </ol>
+            </div>
+          )}
+          {sources.length > 0 && (
+            <div>
+              <div className="mb-0.5 text-gray-500">Sources</div>
+              <ol className="space-y-0.5">
+                {sources.map((source, index) => (
+                  <li key={source.url} className="flex gap-1.5">
+                    <span className="text-gray-500">[{index + 1}]</span>
+                    <a
+                      href={source.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="truncate hover:underline"
+                      title={source.url}
+                    >
+                      {source.title}
+                    </a>
+                    <span className="shrink-0 text-gray-500">
+                      {getSourceHostname(source.url)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
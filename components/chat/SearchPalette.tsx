@@ -0,0 +1,236 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { useRouter } from 'next/navigation'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Toggle } from '@/components/ui/toggle'
+import { Badge } from '@/components/ui/badge'
+import { MessageSquareIcon, PinIcon, ArchiveIcon } from 'lucide-react'
+import { authClient } from '@/lib/auth-client'
+import { useShortcut } from '@/hooks/use-shortcuts'
+
+const SEARCH_DEBOUNCE_MS = 200
+
+const DATE_RANGES = {
+  any: { label: 'Any time', ms: undefined },
+  day: { label: 'Past day', ms: 24 * 60 * 60 * 1000 },
+  week: { label: 'Past week', ms: 7 * 24 * 60 * 60 * 1000 },
+  month: { label: 'Past month', ms: 30 * 24 * 60 * 60 * 1000 },
+  year: { label: 'Past year', ms: 365 * 24 * 60 * 60 * 1000 },
+} as const
+
+type DateRange = keyof typeof DATE_RANGES
+
+interface SearchPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function SearchPalette({ open, onOpenChange }: SearchPaletteProps) {
+  const router = useRouter()
+  const { data: authSession } = authClient.useSession()
+  const userId = authSession?.user.id
+
+  const [input, setInput] = useState('')
+  const [model, setModel] = useState<string>('all')
+  const [dateRange, setDateRange] = useState<DateRange>('any')
+  const [pinnedOnly, setPinnedOnly] = useState(false)
+  const [archivedOnly, setArchivedOnly] = useState(false)
+  const [searchArgs, setSearchArgs] = useState<{
+    query: string
+    from?: number
+  }>({ query: '' })
+
+  const models = useQuery(api.availableModels.getAll)
+  const results = useQuery(
+    api.search.search,
+    userId && searchArgs.query
+      ? {
+          userId,
+          query: searchArgs.query,
+          model: model === 'all' ? undefined : model,
+          from: searchArgs.from,
+          pinned: pinnedOnly || undefined,
+          archived: archivedOnly || undefined,
+        }
+      : 'skip'
+  )
+
+  useShortcut('search', () => onOpenChange(!open))
+
+  // Debounce typing; the date window is anchored when the search runs
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const rangeMs = DATE_RANGES[dateRange].ms
+      setSearchArgs({
+        query: input.trim(),
+        from: rangeMs === undefined ? undefined : Date.now() - rangeMs,
+      })
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => clearTimeout(timer)
+  }, [input, dateRange])
+
+  const openResult = (threadId: string, messageId?: string) => {
+    onOpenChange(false)
+    router.push(
+      messageId ? `/chat/${threadId}?m=${messageId}` : `/chat/${threadId}`
+    )
+  }
+
+  const isSearching = !!searchArgs.query && results === undefined
+  const hasResults =
+    !!results && (results.threads.length > 0 || results.messages.length > 0)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogHeader className="sr-only">
+        <DialogTitle>Search conversations</DialogTitle>
+        <DialogDescription>
+          Search thread titles and messages across your conversations
+        </DialogDescription>
+      </DialogHeader>
+      <DialogContent className="overflow-hidden p-0 sm:max-w-2xl">
+        {/* Results come from the Convex search index, so skip cmdk's own filtering */}
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={input}
+            onValueChange={setInput}
+            placeholder="Search your conversations..."
+          />
+          <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2">
+            <Select value={model} onValueChange={setModel}>
+              <SelectTrigger size="sm" className="w-40">
+                <SelectValue placeholder="Model" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All models</SelectItem>
+                {models?.map((m) => (
+                  <SelectItem key={m._id} value={m.modelId}>
+                    {m.displayName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={dateRange}
+              onValueChange={(value) => setDateRange(value as DateRange)}
+            >
+              <SelectTrigger size="sm" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DATE_RANGES).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Toggle
+              size="sm"
+              variant="outline"
+              pressed={pinnedOnly}
+              onPressedChange={setPinnedOnly}
+            >
+              <PinIcon />
+              Pinned
+            </Toggle>
+            <Toggle
+              size="sm"
+              variant="outline"
+              pressed={archivedOnly}
+              onPressedChange={setArchivedOnly}
+            >
+              <ArchiveIcon />
+              Archived
+            </Toggle>
+          </div>
+          <CommandList className="max-h-[400px]">
+            {searchArgs.query && !isSearching && !hasResults && (
+              <CommandEmpty>No results found.</CommandEmpty>
+            )}
+            {isSearching && (
+              <div className="py-6 text-center text-sm text-gray-500">
+                Searching...
+              </div>
+            )}
+
+            {results && results.threads.length > 0 && (
+              <CommandGroup heading="Conversations">
+                {results.threads.map((thread) => (
+                  <CommandItem
+                    key={thread.threadId}
+                    value={`thread-${thread.threadId}`}
+                    onSelect={() => openResult(thread.threadId)}
+                  >
+                    <MessageSquareIcon />
+                    <span className="flex-1 truncate">{thread.title}</span>
+                    {thread.pinned && <PinIcon className="opacity-50" />}
+                    {thread.archived && <ArchiveIcon className="opacity-50" />}
+                    <Badge variant="outline" className="text-xs">
+                      {thread.model}
+                    </Badge>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {results && results.messages.length > 0 && (
+              <CommandGroup heading="Messages">
+                {results.messages.map((message) => (
+                  <CommandItem
+                    key={message.messageId}
+                    value={`message-${message.messageId}`}
+                    onSelect={() =>
+                      openResult(message.threadId, message.messageId)
+                    }
+                  >
+                    <div className="flex min-w-0 flex-1 flex-col gap-1">
+                      <div className="flex items-center gap-2 text-xs text-gray-500">
+                        <span className="truncate font-medium">
+                          {message.threadTitle}
+                        </span>
+                        <span>·</span>
+                        <span>
+                          {message.role === 'user' ? 'You' : message.model}
+                        </span>
+                        <span className="ml-auto shrink-0">
+                          {new Date(message.createdAt).toLocaleDateString()}
+                        </span>
+                      </div>
+                      <p className="line-clamp-2 text-sm">{message.snippet}</p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
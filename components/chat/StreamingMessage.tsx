@@ -1,8 +1,29 @@
 'use client'
 
 import { cn } from '@/lib/utils'
-import Markdown from 'react-markdown'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  GitBranchIcon,
+  PencilIcon,
+  RefreshCwIcon,
+} from 'lucide-react'
+import { useState } from 'react'
+import { AttachmentPreview } from '@/components/chat/AttachmentPreview'
+import { MarkdownContent } from '@/components/chat/MarkdownContent'
+import {
+  MessageReasoning,
+  ReasoningPanel,
+} from '@/components/chat/ReasoningPanel'
+import { ResearchProgress } from '@/components/chat/ResearchProgress'
+import { ToolCall, ToolCallCard } from '@/components/chat/ToolCallCard'
+import { countTokens } from '@/lib/ai/tokenizer'
+import { MessageAttachment } from '@/lib/attachments/types'
+import { ResearchState, Source } from '@/lib/search/types'
 
 interface StreamingMessageProps {
   message: {
@@ -16,26 +37,147 @@ interface StreamingMessageProps {
       completionTokens: number
       totalTokens: number
     }
-    finishReason?: 'stop' | 'length' | 'content_filter' | 'error'
-    attachments?: Array<{
-      type: 'file'
-      url: string
-      filename: string
-      mediaType: string
-      size?: number
-    }>
+    finishReason?: 'stop' | 'length' | 'content_filter' | 'error' | 'cancelled'
+    editedAt?: number
+    createdAt?: number
+    updatedAt?: number
+    firstTokenAt?: number
+    versionIndex?: number // Position among alternate versions of this turn
+    versionCount?: number
+    siblingIds?: string[]
+    attachments?: MessageAttachment[]
+    toolCalls?: ToolCall[]
+    reasoning?: MessageReasoning
+    research?: ResearchState
+    sources?: Source[]
   }
   showStats?: boolean
+  hideThematicBreaks?: boolean
+  highlighted?: boolean // Briefly emphasized after jumping here from search
+  onBranch?: () => void
+  onEdit?: (content: string, mode: 'truncate' | 'keep') => void
+  onRegenerate?: () => void
+  onSelectVersion?: (messageId: string) => void
+}
+
+// "Stats for nerds": timing comes from the reply's first token and its
+// final write, counts and speed from the provider's reported completion
+// tokens; replies without usage (still streaming, cancelled) are counted
+// with the model's tokenizer
+function getMessageStats(message: StreamingMessageProps['message']) {
+  const tokens =
+    message.usage?.completionTokens ??
+    countTokens(message.content, message.model)
+  const isEstimate = !message.usage
+  const timeToFirstToken =
+    message.firstTokenAt && message.createdAt
+      ? message.firstTokenAt - message.createdAt
+      : null
+  const generationMs =
+    !message.isStreaming && message.firstTokenAt && message.updatedAt
+      ? message.updatedAt - message.firstTokenAt
+      : 0
+  const tokensPerSecond =
+    message.usage && generationMs > 0
+      ? message.usage.completionTokens / (generationMs / 1000)
+      : null
+
+  return { tokens, isEstimate, timeToFirstToken, tokensPerSecond }
 }
 
 export function StreamingMessage({
   message,
   showStats = false,
+  hideThematicBreaks = false,
+  highlighted = false,
+  onBranch,
+  onEdit,
+  onRegenerate,
+  onSelectVersion,
 }: StreamingMessageProps) {
   const isUser = message.role === 'user'
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
+  const [keepPrevious, setKeepPrevious] = useState(true)
+
+  const versionIndex = message.versionIndex ?? 0
+  const versionCount = message.versionCount ?? 1
+  const showVersions =
+    versionCount > 1 && !!message.siblingIds && !!onSelectVersion
+
+  const stats = showStats ? getMessageStats(message) : null
+
+  const selectVersion = (index: number) => {
+    const siblingId = message.siblingIds?.[index]
+    if (siblingId && onSelectVersion) onSelectVersion(siblingId)
+  }
+
+  const startEditing = () => {
+    setDraft(message.content)
+    setIsEditing(true)
+  }
+
+  const saveEdit = () => {
+    const content = draft.trim()
+    if (!content || !onEdit) return
+    setIsEditing(false)
+    if (content !== message.content) {
+      onEdit(content, keepPrevious ? 'keep' : 'truncate')
+    }
+  }
+
+  if (isEditing) {
+    return (
+      <div className="flex justify-end">
+        <div className="w-full max-w-[65%] space-y-2 rounded-2xl border p-3">
+          <Textarea
+            value={draft}
+            autoFocus
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault()
+                saveEdit()
+              } else if (e.key === 'Escape') {
+                setIsEditing(false)
+              }
+            }}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-xs text-gray-500">
+              <Checkbox
+                checked={keepPrevious}
+                onCheckedChange={(checked) => setKeepPrevious(checked === true)}
+              />
+              Keep previous version
+            </label>
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditing(false)}
+              >
+                Cancel
+              </Button>
+              <Button size="sm" onClick={saveEdit} disabled={!draft.trim()}>
+                Save & regenerate
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
 
   return (
-    <div className={cn('flex', isUser ? 'justify-end' : 'justify-start')}>
+    <div
+      id={`message-${message._id}`}
+      className={cn(
+        'group flex items-end gap-1 rounded-2xl transition-colors duration-700',
+        isUser ? 'flex-row-reverse' : 'flex-row',
+        highlighted && 'bg-yellow-100/60 dark:bg-yellow-500/10'
+      )}
+    >
       <div
         className={cn(
           'max-w-[65%] px-3 py-1.5 text-sm shadow-sm relative',
@@ -44,11 +186,49 @@ export function StreamingMessage({
             : 'bg-[#E9E9EB] text-black rounded-2xl rounded-bl-sm'
         )}
       >
+        {/* Reasoning trace, kept apart from the answer */}
+        {!isUser && message.reasoning && (
+          <ReasoningPanel
+            reasoning={message.reasoning}
+            isStreaming={message.isStreaming}
+          />
+        )}
+
+        {/* Research plan and sources */}
+        {!isUser && message.research && (
+          <ResearchProgress
+            research={message.research}
+            sources={message.sources ?? []}
+          />
+        )}
+
+        {/* Tool calls made while writing the reply */}
+        {!isUser && message.toolCalls && message.toolCalls.length > 0 && (
+          <div className="my-1 space-y-1">
+            {message.toolCalls.map((toolCall, index) => (
+              <ToolCallCard
+                key={toolCall.toolCallId ?? index}
+                toolCall={toolCall}
+                isStreaming={message.isStreaming}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Message content */}
         <div className="prose-sm prose-p:my-0.5 prose-li:my-0.5 prose-ul:my-1 prose-ol:my-1">
-          <Markdown>{message.content}</Markdown>
+          <MarkdownContent
+            content={message.content}
+            sources={message.sources}
+            isStreaming={message.isStreaming}
+            hideThematicBreaks={hideThematicBreaks}
+          />
         </div>
 
+        {isUser && message.editedAt && (
+          <div className="mt-0.5 text-right text-[10px] opacity-70">edited</div>
+        )}
+
         {/* Streaming indicator */}
         {message.isStreaming && (
           <div className="flex items-center gap-1 mt-1">
@@ -63,11 +243,13 @@ export function StreamingMessage({
 
         {/* File attachments */}
         {message.attachments && message.attachments.length > 0 && (
-          <div className="flex flex-wrap gap-1 mt-2">
-            {message.attachments.map((attachment, index) => (
-              <Badge key={index} variant="outline" className="text-xs">
-                {attachment.filename}
-              </Badge>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {message.attachments.map((attachment) => (
+              <AttachmentPreview
+                key={attachment.url}
+                attachment={attachment}
+                size="lg"
+              />
             ))}
           </div>
         )}
@@ -81,8 +263,18 @@ export function StreamingMessage({
               </Badge>
             )}
 
-            {showStats && message.usage && (
-              <span>{message.usage.totalTokens} tokens</span>
+            {stats && (
+              <span className="tabular-nums">
+                {[
+                  `${stats.isEstimate ? '~' : ''}${stats.tokens} tokens`,
+                  stats.tokensPerSecond !== null &&
+                    `${stats.tokensPerSecond.toFixed(1)} tok/s`,
+                  stats.timeToFirstToken !== null &&
+                    `TTFT ${(stats.timeToFirstToken / 1000).toFixed(2)}s`,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </span>
             )}
 
             {message.finishReason && message.finishReason !== 'stop' && (
@@ -98,6 +290,77 @@ export function StreamingMessage({
           </div>
         )}
       </div>
+
+      {/* Message actions */}
+      {!message.isStreaming && (
+        <div
+          className={cn(
+            'flex items-center transition-opacity',
+            !showVersions && 'opacity-0 group-hover:opacity-100'
+          )}
+        >
+          {showVersions && (
+            <div className="flex items-center text-xs text-gray-500">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="Previous version"
+                disabled={versionIndex === 0}
+                onClick={() => selectVersion(versionIndex - 1)}
+              >
+                <ChevronLeftIcon className="h-3.5 w-3.5" />
+              </Button>
+              <span className="tabular-nums">
+                {versionIndex + 1}/{versionCount}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="Next version"
+                disabled={versionIndex === versionCount - 1}
+                onClick={() => selectVersion(versionIndex + 1)}
+              >
+                <ChevronRightIcon className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          )}
+          {!isUser && onRegenerate && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Regenerate"
+              onClick={onRegenerate}
+            >
+              <RefreshCwIcon className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          {isUser && onEdit && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Edit message"
+              onClick={startEditing}
+            >
+              <PencilIcon className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          {onBranch && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Branch from here"
+              onClick={onBranch}
+            >
+              <GitBranchIcon className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   )
 }
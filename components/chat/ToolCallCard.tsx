@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  Loader2Icon,
+  WrenchIcon,
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+export interface ToolCall {
+  toolCallId?: string
+  toolName: string
+  arguments: unknown
+  result?: unknown // Unset while the tool runs
+}
+
+interface ToolCallCardProps {
+  toolCall: ToolCall
+  isStreaming: boolean // Whether the reply can still receive a result
+}
+
+function formatJson(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+}
+
+// Tools report failures as { error } results for the model to explain
+function getToolError(result: unknown): string | null {
+  if (result && typeof result === 'object' && 'error' in result) {
+    return String((result as { error: unknown }).error)
+  }
+  return null
+}
+
+/**
+ * Collapsible card for one tool call: its status, arguments and result
+ */
+export function ToolCallCard({ toolCall, isStreaming }: ToolCallCardProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  const hasResult = toolCall.result !== undefined
+  const error = hasResult ? getToolError(toolCall.result) : null
+  const status = error
+    ? 'Error'
+    : hasResult
+      ? 'Done'
+      : isStreaming
+        ? 'Running'
+        : 'No result'
+
+  return (
+    <div className="rounded-md border border-black/10 bg-white/60 text-xs">
+      <button
+        type="button"
+        className="flex w-full items-center gap-1.5 px-2 py-1 text-left"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? (
+          <ChevronDownIcon className="h-3 w-3" />
+        ) : (
+          <ChevronRightIcon className="h-3 w-3" />
+        )}
+        <WrenchIcon className="h-3 w-3 text-gray-500" />
+        <span className="font-mono">{toolCall.toolName}</span>
+        <span
+          className={cn(
+            'ml-auto flex items-center gap-1 text-gray-500',
+            error && 'text-red-600'
+          )}
+        >
+          {status === 'Running' && (
+            <Loader2Icon className="h-3 w-3 animate-spin" />
+          )}
+          {status}
+        </span>
+      </button>
+      {expanded && (
+        <div className="space-y-2 border-t border-black/10 px-2 py-1.5">
+          <div>
+            <div className="mb-0.5 text-gray-500">Arguments</div>
+            <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-black/5 p-1.5">
+              {formatJson(toolCall.arguments)}
+            </pre>
+          </div>
+          {hasResult && (
+            <div>
+              <div className="mb-0.5 text-gray-500">Result</div>
+              <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-black/5 p-1.5">
+                {formatJson(toolCall.result)}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,10 +1,13 @@
 'use client'
 
+import { useEffect } from 'react'
 import { ThemeProvider as NextThemesProvider } from 'next-themes'
 import { ConvexProvider } from 'convex/react'
 import { ConvexReactClient } from 'convex/react'
 import { AnonymousProvider } from './auth/AnonymousProvider'
 import { authClient } from '@/lib/auth-client'
+import { CODE_FONTS, getFontStack, MAIN_TEXT_FONTS } from '@/lib/fonts'
+import { useUserPreferences } from '@/hooks/use-user-preferences'
 
 const convex = new ConvexReactClient(process.env.NEXT_PUBLIC_CONVEX_URL!, {
   fetchAccessToken: async ({ forceRefreshToken }) => {
@@ -40,10 +43,40 @@ export function ThemeProvider({ children, ...props }: ThemeProviderProps) {
   return <NextThemesProvider {...props}>{children}</NextThemesProvider>
 }
 
+// Apply the theme and font preferences to the whole document
+function UserPreferenceStyles() {
+  const { preferences } = useUserPreferences()
+  const boringTheme = preferences?.boringTheme ?? false
+  const mainTextFont = getFontStack(MAIN_TEXT_FONTS, preferences?.mainTextFont)
+  const codeFont = getFontStack(CODE_FONTS, preferences?.codeFont)
+
+  useEffect(() => {
+    const root = document.documentElement
+    root.classList.toggle('boring-theme', boringTheme)
+
+    if (mainTextFont) {
+      root.style.setProperty('--font-main', mainTextFont)
+    } else {
+      root.style.removeProperty('--font-main')
+    }
+
+    if (codeFont) {
+      root.style.setProperty('--font-code', codeFont)
+    } else {
+      root.style.removeProperty('--font-code')
+    }
+  }, [boringTheme, mainTextFont, codeFont])
+
+  return null
+}
+
 export function AppProviders({ children }: { children: React.ReactNode }) {
   return (
     <ConvexProvider client={convex}>
-      <AnonymousProvider>{children}</AnonymousProvider>
+      <AnonymousProvider>
+        <UserPreferenceStyles />
+        {children}
+      </AnonymousProvider>
     </ConvexProvider>
   )
 }
@@ -15,8 +15,13 @@ import type {
 } from 'convex/server'
 import type * as auth from '../auth.js'
 import type * as availableModels from '../availableModels.js'
+import type * as crons from '../crons.js'
+import type * as lib_messageTree from '../lib/messageTree.js'
+import type * as messageHistory from '../messageHistory.js'
 import type * as messages from '../messages.js'
+import type * as search from '../search.js'
 import type * as streamingTasks from '../streamingTasks.js'
+import type * as sync from '../sync.js'
 import type * as threads from '../threads.js'
 import type * as userPreferences from '../userPreferences.js'
 import type * as users from '../users.js'
@@ -32,8 +37,13 @@ import type * as users from '../users.js'
 declare const fullApi: ApiFromModules<{
   auth: typeof auth
   availableModels: typeof availableModels
+  crons: typeof crons
+  'lib/messageTree': typeof lib_messageTree
+  messageHistory: typeof messageHistory
   messages: typeof messages
+  search: typeof search
   streamingTasks: typeof streamingTasks
+  sync: typeof sync
   threads: typeof threads
   userPreferences: typeof userPreferences
   users: typeof users
@@ -30,15 +30,21 @@ export const getByTier = query({
   },
 })
 
+// Returns the model regardless of availability so callers can report
+// disabled or deprecated models instead of treating them as unknown
+export const getByModelId = query({
+  args: { modelId: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('availableModels')
+      .withIndex('by_model_id', (q) => q.eq('modelId', args.modelId))
+      .first()
+  },
+})
+
 export const seed = mutation({
   args: {},
   handler: async (ctx) => {
-    // Check if models already exist
-    const existing = await ctx.db.query('availableModels').first()
-    if (existing) {
-      return { message: 'Models already seeded' }
-    }
-
     const now = Date.now()
     const defaultModels = [
       {
@@ -121,12 +127,156 @@ export const seed = mutation({
         createdAt: now,
         updatedAt: now,
       },
+      {
+        modelId: 'claude-4-sonnet',
+        provider: 'Anthropic',
+        providerModelId: 'claude-sonnet-4-20250514',
+        displayName: 'Claude 4 Sonnet',
+        description: "Anthropic's balanced model for coding and analysis",
+        contextLength: 200000,
+        maxOutputTokens: 64000,
+        supportsVision: true,
+        supportsTools: true,
+        supportsContinuation: true,
+        requiredTier: 'Pro' as const,
+        isThinking: false,
+        isReasoning: false,
+        isBeta: false,
+        isNew: true,
+        creditsPerMessage: 4,
+        enabled: true,
+        createdAt: now,
+        updatedAt: now,
+      },
+      {
+        modelId: 'gemini-2.5-flash',
+        provider: 'Google',
+        displayName: 'Gemini 2.5 Flash',
+        description: "Google's fast multimodal model",
+        contextLength: 1000000,
+        maxOutputTokens: 65536,
+        supportsVision: true,
+        supportsTools: true,
+        supportsContinuation: true,
+        requiredTier: 'Free' as const,
+        isThinking: false,
+        isReasoning: false,
+        isBeta: false,
+        isNew: true,
+        creditsPerMessage: 2,
+        enabled: true,
+        createdAt: now,
+        updatedAt: now,
+      },
+      {
+        modelId: 'gemini-2.5-pro',
+        provider: 'Google',
+        displayName: 'Gemini 2.5 Pro',
+        description: "Google's most capable reasoning model",
+        contextLength: 1000000,
+        maxOutputTokens: 65536,
+        supportsVision: true,
+        supportsTools: true,
+        supportsContinuation: true,
+        requiredTier: 'Pro' as const,
+        isThinking: true,
+        isReasoning: true,
+        isBeta: false,
+        isNew: true,
+        creditsPerMessage: 3,
+        enabled: true,
+        createdAt: now,
+        updatedAt: now,
+      },
+      {
+        modelId: 'deepseek-v3.1',
+        provider: 'DeepSeek',
+        providerModelId: 'deepseek-chat',
+        displayName: 'DeepSeek v3.1',
+        description: 'Open-weight model with strong coding performance',
+        contextLength: 128000,
+        maxOutputTokens: 8192,
+        supportsVision: false,
+        supportsTools: true,
+        supportsContinuation: true,
+        requiredTier: 'Free' as const,
+        isThinking: false,
+        isReasoning: false,
+        isBeta: false,
+        isNew: false,
+        creditsPerMessage: 2,
+        enabled: true,
+        createdAt: now,
+        updatedAt: now,
+      },
+      {
+        modelId: 'mistral-large',
+        provider: 'Mistral',
+        providerModelId: 'mistral-large-latest',
+        displayName: 'Mistral Large',
+        description: "Mistral's flagship model",
+        contextLength: 128000,
+        maxOutputTokens: 8192,
+        supportsVision: false,
+        supportsTools: true,
+        supportsContinuation: true,
+        requiredTier: 'Pro' as const,
+        isThinking: false,
+        isReasoning: false,
+        isBeta: false,
+        isNew: false,
+        creditsPerMessage: 2,
+        enabled: true,
+        createdAt: now,
+        updatedAt: now,
+      },
+      {
+        modelId: 'llama-3.1-70b',
+        provider: 'Meta',
+        providerModelId: 'llama-3.1-70b-versatile',
+        displayName: 'Llama 3.1 70B',
+        description:
+          "Meta's open-weight model served over an OpenAI-compatible API",
+        contextLength: 128000,
+        maxOutputTokens: 8192,
+        supportsVision: false,
+        supportsTools: true,
+        supportsContinuation: true,
+        requiredTier: 'Free' as const,
+        isThinking: false,
+        isReasoning: false,
+        isBeta: false,
+        isNew: false,
+        creditsPerMessage: 2,
+        enabled: true,
+        createdAt: now,
+        updatedAt: now,
+      },
     ]
 
+    // Upsert by modelId so existing deployments pick up new models and
+    // catalog changes; an existing row keeps its createdAt and enabled flag
+    let inserted = 0
+    let updated = 0
     for (const model of defaultModels) {
-      await ctx.db.insert('availableModels', model)
+      const existing = await ctx.db
+        .query('availableModels')
+        .withIndex('by_model_id', (q) => q.eq('modelId', model.modelId))
+        .first()
+
+      if (existing) {
+        await ctx.db.patch(existing._id, {
+          ...model,
+          createdAt: existing.createdAt,
+          enabled: existing.enabled,
+        })
+        updated++
+      } else {
+        await ctx.db.insert('availableModels', model)
+        inserted++
+      }
     }
 
-    return { message: `Seeded ${defaultModels.length} models` }
+    return { message: `Seeded ${inserted} new and ${updated} existing models` }
   },
 })
@@ -0,0 +1,13 @@
+import { cronJobs } from 'convex/server'
+import { internal } from './_generated/api'
+
+const crons = cronJobs()
+
+// Hard-delete threads that have been in the trash for 30 days
+crons.daily(
+  'purge deleted threads',
+  { hourUTC: 4, minuteUTC: 0 },
+  internal.threads.purgeExpired
+)
+
+export default crons
@@ -0,0 +1,158 @@
+import { Doc, Id } from '../_generated/dataModel'
+import { MutationCtx, QueryCtx } from '../_generated/server'
+
+// Conversation tree helpers
+// Every message points at the message it follows (parentMessageId, null for
+// the first message). Edits and regenerations add alternate versions that
+// share a parent; the conversation that is shown and sent as context is the
+// path through the active versions. Messages written before versioning have
+// no parentMessageId and simply follow the previous message.
+
+type Message = Doc<'messages'>
+type ParentKey = Id<'messages'> | 'root'
+
+export interface MessageTree {
+  messages: Message[]
+  parentOf: Map<Id<'messages'>, ParentKey>
+  childrenOf: Map<ParentKey, Message[]>
+}
+
+export function buildMessageTree(messages: Message[]): MessageTree {
+  const parentOf = new Map<Id<'messages'>, ParentKey>()
+  const childrenOf = new Map<ParentKey, Message[]>()
+
+  messages.forEach((message, index) => {
+    const parent: ParentKey =
+      message.parentMessageId === undefined
+        ? (messages[index - 1]?._id ?? 'root')
+        : (message.parentMessageId ?? 'root')
+
+    parentOf.set(message._id, parent)
+    childrenOf.set(parent, [...(childrenOf.get(parent) ?? []), message])
+  })
+
+  return { messages, parentOf, childrenOf }
+}
+
+/**
+ * Pick the version to follow among siblings: the newest active one
+ */
+function activeChild(children: Message[] | undefined): Message | undefined {
+  if (!children || children.length === 0) return undefined
+  const active = children.filter((m) => m.isActiveVersion !== false)
+  const candidates = active.length > 0 ? active : children
+  return candidates[candidates.length - 1]
+}
+
+export function getActivePathFromTree(tree: MessageTree): Message[] {
+  const path: Message[] = []
+  let next = activeChild(tree.childrenOf.get('root'))
+
+  while (next) {
+    path.push(next)
+    next = activeChild(tree.childrenOf.get(next._id))
+  }
+
+  return path
+}
+
+/**
+ * All messages of a thread, oldest first
+ */
+export async function getThreadMessages(
+  ctx: QueryCtx,
+  threadId: string
+): Promise<Message[]> {
+  return await ctx.db
+    .query('messages')
+    .withIndex('by_thread', (q) => q.eq('threadId', threadId))
+    .order('asc')
+    .collect()
+}
+
+/**
+ * The conversation as currently shown: one version per turn
+ */
+export async function getActivePath(
+  ctx: QueryCtx,
+  threadId: string
+): Promise<Message[]> {
+  return getActivePathFromTree(
+    buildMessageTree(await getThreadMessages(ctx, threadId))
+  )
+}
+
+/**
+ * Every message below the given one, across all versions
+ */
+export function getDescendants(
+  tree: MessageTree,
+  messageId: Id<'messages'>
+): Message[] {
+  const descendants: Message[] = []
+  const queue = [...(tree.childrenOf.get(messageId) ?? [])]
+
+  while (queue.length > 0) {
+    const message = queue.shift()!
+    descendants.push(message)
+    queue.push(...(tree.childrenOf.get(message._id) ?? []))
+  }
+
+  return descendants
+}
+
+/**
+ * Make one version active and hide its siblings
+ */
+export async function activateVersion(
+  ctx: MutationCtx,
+  tree: MessageTree,
+  messageId: Id<'messages'>
+): Promise<void> {
+  const parent = tree.parentOf.get(messageId)
+  if (!parent) return
+
+  for (const sibling of tree.childrenOf.get(parent) ?? []) {
+    const isActiveVersion = sibling._id === messageId
+    if ((sibling.isActiveVersion !== false) !== isActiveVersion) {
+      await ctx.db.patch(sibling._id, { isActiveVersion })
+    }
+  }
+}
+
+/**
+ * Give legacy messages explicit parents so new versions can hang off them
+ */
+export async function linkLegacyMessages(
+  ctx: MutationCtx,
+  tree: MessageTree
+): Promise<void> {
+  for (const message of tree.messages) {
+    if (message.parentMessageId === undefined) {
+      const parent = tree.parentOf.get(message._id)
+      await ctx.db.patch(message._id, {
+        parentMessageId: parent === 'root' || !parent ? null : parent,
+      })
+    }
+  }
+}
+
+/**
+ * Recompute messageCount and totalTokensUsed from the active path
+ */
+export async function syncThreadStats(
+  ctx: MutationCtx,
+  thread: Doc<'threads'>
+): Promise<void> {
+  const path = await getActivePath(ctx, thread.threadId)
+
+  await ctx.db.patch(thread._id, {
+    messageCount: path.length,
+    totalTokensUsed: path.reduce(
+      (acc, m) => acc + (m.usage?.totalTokens || 0),
+      0
+    ),
+    lastMessageAt: path[path.length - 1]?.createdAt ?? thread.lastMessageAt,
+    updatedAt: Date.now(),
+  })
+}
@@ -0,0 +1,223 @@
+import { v } from 'convex/values'
+import { mutation, query } from './_generated/server'
+import { Id } from './_generated/dataModel'
+import { nanoid } from 'nanoid'
+
+// Upload URL for a history export file
+export const generateUploadUrl = mutation({
+  args: { userId: v.string() },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_auth_user_id', (q) => q.eq('authUserId', args.userId))
+      .first()
+
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    return await ctx.storage.generateUploadUrl()
+  },
+})
+
+export const recordExport = mutation({
+  args: {
+    userId: v.string(),
+    exportId: v.string(),
+    exportFormat: v.union(
+      v.literal('json'),
+      v.literal('csv'),
+      v.literal('markdown')
+    ),
+    exportedThreads: v.array(v.string()),
+    storageId: v.string(),
+    fileSize: v.number(),
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_auth_user_id', (q) => q.eq('authUserId', args.userId))
+      .first()
+
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    const now = Date.now()
+    return await ctx.db.insert('messageHistory', {
+      userId: args.userId,
+      exportId: args.exportId,
+      exportFormat: args.exportFormat,
+      exportedThreads: args.exportedThreads,
+      exportedAt: now,
+      storageId: args.storageId,
+      fileSize: args.fileSize,
+      createdAt: now,
+    })
+  },
+})
+
+// Past exports, newest first (downloaded through /api/history/export/[exportId])
+export const listExports = query({
+  args: { userId: v.string() },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const records = await ctx.db
+      .query('messageHistory')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .order('desc')
+      .collect()
+
+    return records.filter((record) => record.storageId && !record.importId)
+  },
+})
+
+export const getExport = query({
+  args: { exportId: v.string(), userId: v.string() },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const record = await ctx.db
+      .query('messageHistory')
+      .withIndex('by_export_id', (q) => q.eq('exportId', args.exportId))
+      .first()
+
+    if (!record || record.userId !== args.userId || !record.storageId) {
+      return null
+    }
+
+    const url = await ctx.storage.getUrl(record.storageId as Id<'_storage'>)
+    return url ? { ...record, url } : null
+  },
+})
+
+// Create threads from parsed imports, skipping any already imported
+// (matched by importId). Called in batches by /api/history/import.
+export const importThreads = mutation({
+  args: {
+    userId: v.string(),
+    importedFrom: v.string(),
+    threads: v.array(
+      v.object({
+        importId: v.string(),
+        title: v.string(),
+        model: v.string(),
+        createdAt: v.number(),
+        fileSize: v.number(), // Size of this conversation in the source file
+        messages: v.array(
+          v.object({
+            role: v.union(
+              v.literal('user'),
+              v.literal('assistant'),
+              v.literal('system'),
+              v.literal('tool')
+            ),
+            content: v.string(),
+            model: v.optional(v.string()),
+            createdAt: v.number(),
+          })
+        ),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_auth_user_id', (q) => q.eq('authUserId', args.userId))
+      .first()
+
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    const result = {
+      threadsCreated: 0,
+      threadsSkipped: 0,
+      messagesCreated: 0,
+      messagesSkipped: 0,
+    }
+    const now = Date.now()
+
+    for (const imported of args.threads) {
+      const existing = await ctx.db
+        .query('messageHistory')
+        .withIndex('by_user_import_id', (q) =>
+          q.eq('userId', args.userId).eq('importId', imported.importId)
+        )
+        .first()
+
+      if (existing) {
+        result.threadsSkipped++
+        result.messagesSkipped += imported.messages.length
+        continue
+      }
+
+      const threadId = nanoid()
+      const lastMessageAt =
+        imported.messages[imported.messages.length - 1]?.createdAt ??
+        imported.createdAt
+
+      await ctx.db.insert('threads', {
+        threadId,
+        userId: args.userId,
+        title: imported.title,
+        model: imported.model,
+        generationStatus: 'idle',
+        lastMessageAt,
+        pinned: false,
+        visibility: 'visible',
+        userSetTitle: true, // Keep the original title
+        totalTokensUsed: 0,
+        messageCount: imported.messages.length,
+        createdAt: imported.createdAt,
+        updatedAt: now,
+      })
+
+      let parentMessageId: Id<'messages'> | null = null
+      for (const message of imported.messages) {
+        parentMessageId = await ctx.db.insert('messages', {
+          threadId,
+          userId: args.userId,
+          role: message.role,
+          content: message.content,
+          parentMessageId,
+          isStreaming: false,
+          finishReason: message.role === 'assistant' ? 'stop' : undefined,
+          model: message.model,
+          createdAt: message.createdAt,
+          updatedAt: now,
+        })
+      }
+
+      await ctx.db.insert('messageHistory', {
+        userId: args.userId,
+        exportId: nanoid(),
+        exportFormat: 'json', // Every supported import source is JSON
+        exportedThreads: [threadId],
+        exportedAt: now,
+        importId: imported.importId,
+        importedFrom: args.importedFrom,
+        importedAt: now,
+        fileSize: imported.fileSize,
+        createdAt: now,
+      })
+
+      result.threadsCreated++
+      result.messagesCreated += imported.messages.length
+    }
+
+    return result
+  },
+})
@@ -1,6 +1,16 @@
 import { v } from 'convex/values'
 import { mutation, query } from './_generated/server'
 import { nanoid } from 'nanoid'
+import {
+  activateVersion,
+  buildMessageTree,
+  getActivePath,
+  getActivePathFromTree,
+  getDescendants,
+  getThreadMessages,
+  linkLegacyMessages,
+  syncThreadStats,
+} from './lib/messageTree'
 
 export const create = mutation({
   args: {
@@ -52,11 +62,16 @@ export const create = mutation({
 
     const now = Date.now()
 
+    // New messages continue the conversation as currently shown
+    const path = await getActivePath(ctx, args.threadId)
+    const parent = path[path.length - 1]
+
     const messageId = await ctx.db.insert('messages', {
       threadId: args.threadId,
       userId: args.userId,
       role: args.role,
       content: args.content,
+      parentMessageId: parent?._id ?? null,
       isStreaming: !!args.streamingTaskId,
       streamingTaskId: args.streamingTaskId,
       attachments: args.attachments,
@@ -101,11 +116,208 @@ export const getByThread = query({
       return []
     }
 
-    return await ctx.db
-      .query('messages')
-      .withIndex('by_thread', (q) => q.eq('threadId', args.threadId))
-      .order('asc')
-      .collect()
+    // Only the active version of each turn, with its position among the
+    // alternates so the UI can switch between them
+    const tree = buildMessageTree(await getThreadMessages(ctx, args.threadId))
+
+    return getActivePathFromTree(tree).map((message) => {
+      const siblings =
+        tree.childrenOf.get(tree.parentOf.get(message._id)!) ?? []
+      return {
+        ...message,
+        versionIndex: siblings.findIndex((m) => m._id === message._id),
+        versionCount: siblings.length,
+        siblingIds: siblings.map((m) => m._id),
+      }
+    })
+  },
+})
+
+export const editUserMessage = mutation({
+  args: {
+    messageId: v.id('messages'),
+    userId: v.string(), // Pass user ID from client
+    content: v.string(),
+    // truncate: rewrite in place and drop everything after it
+    // keep: add the edit as a new version; the old turn stays reachable
+    mode: v.union(v.literal('truncate'), v.literal('keep')),
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message) {
+      throw new Error('Message not found')
+    }
+
+    if (message.role !== 'user') {
+      throw new Error('Only user messages can be edited')
+    }
+
+    // Verify ownership through thread
+    const thread = await ctx.db
+      .query('threads')
+      .withIndex('by_thread_id', (q) => q.eq('threadId', message.threadId))
+      .first()
+
+    if (!thread || thread.userId !== args.userId) {
+      throw new Error('Unauthorized')
+    }
+
+    if (thread.generationStatus === 'generating') {
+      throw new Error('Cannot edit while a reply is being generated')
+    }
+
+    const tree = buildMessageTree(
+      await getThreadMessages(ctx, message.threadId)
+    )
+    if (!getActivePathFromTree(tree).some((m) => m._id === args.messageId)) {
+      throw new Error('Only messages in the current conversation can be edited')
+    }
+
+    const now = Date.now()
+    let editedMessageId = args.messageId
+
+    if (args.mode === 'truncate') {
+      for (const descendant of getDescendants(tree, args.messageId)) {
+        await ctx.db.delete(descendant._id)
+      }
+
+      await ctx.db.patch(args.messageId, {
+        content: args.content,
+        editedAt: now,
+        updatedAt: now,
+      })
+    } else {
+      await linkLegacyMessages(ctx, tree)
+
+      const parent = tree.parentOf.get(args.messageId)
+      await ctx.db.patch(args.messageId, { isActiveVersion: false })
+
+      editedMessageId = await ctx.db.insert('messages', {
+        threadId: message.threadId,
+        userId: args.userId,
+        role: 'user',
+        content: args.content,
+        isStreaming: false,
+        attachments: message.attachments,
+        model: message.model,
+        parentMessageId: parent === 'root' || !parent ? null : parent,
+        isActiveVersion: true,
+        editedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      })
+    }
+
+    await syncThreadStats(ctx, thread)
+
+    return { id: editedMessageId }
+  },
+})
+
+export const addReplyVersion = mutation({
+  args: {
+    messageId: v.id('messages'), // Assistant reply being regenerated
+    userId: v.string(), // Pass user ID from client
+    model: v.string(),
+    streamingTaskId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message) {
+      throw new Error('Message not found')
+    }
+
+    if (message.role !== 'assistant') {
+      throw new Error('Only assistant replies can be regenerated')
+    }
+
+    // Verify ownership through thread
+    const thread = await ctx.db
+      .query('threads')
+      .withIndex('by_thread_id', (q) => q.eq('threadId', message.threadId))
+      .first()
+
+    if (!thread || thread.userId !== args.userId) {
+      throw new Error('Unauthorized')
+    }
+
+    const tree = buildMessageTree(
+      await getThreadMessages(ctx, message.threadId)
+    )
+    await linkLegacyMessages(ctx, tree)
+
+    // The new attempt becomes the active sibling; earlier ones stay reachable
+    const parent = tree.parentOf.get(args.messageId)
+    for (const sibling of tree.childrenOf.get(parent!) ?? []) {
+      if (sibling.isActiveVersion !== false) {
+        await ctx.db.patch(sibling._id, { isActiveVersion: false })
+      }
+    }
+
+    const now = Date.now()
+
+    const messageId = await ctx.db.insert('messages', {
+      threadId: message.threadId,
+      userId: args.userId,
+      role: 'assistant',
+      content: '',
+      isStreaming: true,
+      streamingTaskId: args.streamingTaskId,
+      model: args.model,
+      parentMessageId: parent === 'root' || !parent ? null : parent,
+      isActiveVersion: true,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    await syncThreadStats(ctx, thread)
+
+    return { id: messageId }
+  },
+})
+
+export const selectVersion = mutation({
+  args: {
+    messageId: v.id('messages'), // Version to show and use as context
+    userId: v.string(), // Pass user ID from client
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message) {
+      throw new Error('Message not found')
+    }
+
+    // Verify ownership through thread
+    const thread = await ctx.db
+      .query('threads')
+      .withIndex('by_thread_id', (q) => q.eq('threadId', message.threadId))
+      .first()
+
+    if (!thread || thread.userId !== args.userId) {
+      throw new Error('Unauthorized')
+    }
+
+    if (thread.generationStatus === 'generating') {
+      throw new Error('Cannot switch versions while a reply is being generated')
+    }
+
+    const tree = buildMessageTree(
+      await getThreadMessages(ctx, message.threadId)
+    )
+    await linkLegacyMessages(ctx, tree)
+    await activateVersion(ctx, tree, args.messageId)
+    await syncThreadStats(ctx, thread)
+
+    return { success: true }
   },
 })
 
@@ -121,7 +333,8 @@ export const updateStreaming = mutation({
         v.literal('stop'),
         v.literal('length'),
         v.literal('content_filter'),
-        v.literal('error')
+        v.literal('error'),
+        v.literal('cancelled')
       )
     ),
     usage: v.optional(
@@ -163,7 +376,8 @@ export const updateStreaming = mutation({
     // Update thread status if completed
     if (args.isComplete && thread.generationStatus === 'generating') {
       await ctx.db.patch(thread._id, {
-        generationStatus: 'completed',
+        generationStatus:
+          args.finishReason === 'cancelled' ? 'cancelled' : 'completed',
         activeTaskId: undefined,
         totalTokensUsed:
           thread.totalTokensUsed + (args.usage?.totalTokens || 0),
@@ -175,6 +389,171 @@ export const updateStreaming = mutation({
   },
 })
 
+// Record tool calls and results as they stream in
+export const setToolCalls = mutation({
+  args: {
+    messageId: v.id('messages'),
+    userId: v.string(),
+    toolCalls: v.array(
+      v.object({
+        toolCallId: v.optional(v.string()),
+        toolName: v.string(),
+        arguments: v.any(),
+        result: v.optional(v.any()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message) {
+      throw new Error('Message not found')
+    }
+
+    // Verify ownership through thread
+    const thread = await ctx.db
+      .query('threads')
+      .withIndex('by_thread_id', (q) => q.eq('threadId', message.threadId))
+      .first()
+
+    if (!thread || thread.userId !== args.userId) {
+      throw new Error('Unauthorized')
+    }
+
+    await ctx.db.patch(args.messageId, {
+      toolCalls: args.toolCalls,
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
+
+// Record a research run's plan and progress
+export const setResearch = mutation({
+  args: {
+    messageId: v.id('messages'),
+    userId: v.string(),
+    research: v.object({
+      questions: v.array(v.string()),
+      status: v.union(
+        v.literal('planning'),
+        v.literal('searching'),
+        v.literal('writing'),
+        v.literal('done')
+      ),
+    }),
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message) {
+      throw new Error('Message not found')
+    }
+
+    // Verify ownership through thread
+    const thread = await ctx.db
+      .query('threads')
+      .withIndex('by_thread_id', (q) => q.eq('threadId', message.threadId))
+      .first()
+
+    if (!thread || thread.userId !== args.userId) {
+      throw new Error('Unauthorized')
+    }
+
+    await ctx.db.patch(args.messageId, {
+      research: args.research,
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
+
+// Record the sources a reply cites
+export const setSources = mutation({
+  args: {
+    messageId: v.id('messages'),
+    userId: v.string(),
+    sources: v.array(
+      v.object({
+        url: v.string(),
+        title: v.string(),
+        snippet: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message) {
+      throw new Error('Message not found')
+    }
+
+    // Verify ownership through thread
+    const thread = await ctx.db
+      .query('threads')
+      .withIndex('by_thread_id', (q) => q.eq('threadId', message.threadId))
+      .first()
+
+    if (!thread || thread.userId !== args.userId) {
+      throw new Error('Unauthorized')
+    }
+
+    await ctx.db.patch(args.messageId, {
+      sources: args.sources,
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
+
+// Record a reply's reasoning trace as it streams
+export const setReasoning = mutation({
+  args: {
+    messageId: v.id('messages'),
+    userId: v.string(),
+    reasoning: v.object({
+      content: v.string(),
+      tokenCount: v.optional(v.number()),
+      durationMs: v.optional(v.number()),
+    }),
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const message = await ctx.db.get(args.messageId)
+    if (!message) {
+      throw new Error('Message not found')
+    }
+
+    // Verify ownership through thread
+    const thread = await ctx.db
+      .query('threads')
+      .withIndex('by_thread_id', (q) => q.eq('threadId', message.threadId))
+      .first()
+
+    if (!thread || thread.userId !== args.userId) {
+      throw new Error('Unauthorized')
+    }
+
+    await ctx.db.patch(args.messageId, {
+      reasoning: args.reasoning,
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
+
 export const deleteMessage = mutation({
   args: { messageId: v.id('messages'), userId: v.string() },
   handler: async (ctx, args) => {
@@ -47,6 +47,14 @@ export default defineSchema({
       search: v.string(), // Default: "cmd+k"
       newChat: v.string(), // Default: "cmd+shift+o"
       toggleSidebar: v.string(), // Default: "cmd+b"
+      // Added later, so older rows may not have them (defaults live in
+      // lib/shortcuts/types.ts)
+      stopGeneration: v.optional(v.string()),
+      regenerate: v.optional(v.string()),
+      copyLastReply: v.optional(v.string()),
+      focusComposer: v.optional(v.string()),
+      nextThread: v.optional(v.string()),
+      previousThread: v.optional(v.string()),
     }),
 
     // Other preferences
@@ -85,19 +93,39 @@ export default defineSchema({
       v.literal('deleted')
     ),
     branchParent: v.optional(v.string()), // For conversation branching
+    branchFromMessageId: v.optional(v.id('messages')), // Branch point in the parent thread
     userSetTitle: v.boolean(),
+    deletedAt: v.optional(v.number()), // When moved to trash; purged after 30 days
 
     // Token tracking
     totalTokensUsed: v.number(),
     messageCount: v.number(),
 
+    // Rolling summary of the oldest turns once the thread outgrows the
+    // model's context window (empty content: dropped without a summary)
+    contextSummary: v.optional(
+      v.object({
+        content: v.string(),
+        throughMessageId: v.id('messages'), // Last message it covers
+        tokenCount: v.number(),
+        model: v.string(), // Model whose window forced the compression
+        updatedAt: v.number(),
+      })
+    ),
+
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index('by_user', ['userId'])
     .index('by_user_visible', ['userId', 'visibility'])
     .index('by_thread_id', ['threadId'])
-    .index('by_generation_status', ['userId', 'generationStatus']),
+    .index('by_generation_status', ['userId', 'generationStatus'])
+    .index('by_visibility_deleted_at', ['visibility', 'deletedAt'])
+    .index('by_user_updated_at', ['userId', 'updatedAt'])
+    .searchIndex('search_title', {
+      searchField: 'title',
+      filterFields: ['userId', 'pinned', 'visibility'],
+    }),
 
   // Messages in threads
   messages: defineTable({
@@ -133,11 +161,20 @@ export default defineSchema({
         v.literal('stop'),
         v.literal('length'),
         v.literal('content_filter'),
-        v.literal('error')
+        v.literal('error'),
+        v.literal('cancelled') // Stopped by the user; content is partial
       )
     ),
 
     model: v.optional(v.string()), // Model used for this message
+    firstTokenAt: v.optional(v.number()), // For time-to-first-token stats
+
+    // Conversation tree: edits and regenerations create alternate versions
+    // that share a parent. null marks the first message; unset means a
+    // message from before versioning, which follows the previous message.
+    parentMessageId: v.optional(v.union(v.id('messages'), v.null())),
+    isActiveVersion: v.optional(v.boolean()), // false = hidden alternate
+    editedAt: v.optional(v.number()),
 
     // File attachments
     attachments: v.optional(
@@ -156,9 +193,44 @@ export default defineSchema({
     toolCalls: v.optional(
       v.array(
         v.object({
+          toolCallId: v.optional(v.string()), // Pairs a call with its result
           toolName: v.string(),
           arguments: v.any(),
-          result: v.optional(v.any()),
+          result: v.optional(v.any()), // Unset while the tool runs
+        })
+      )
+    ),
+
+    // Reasoning trace, kept apart from the answer and never sent back to the
+    // model on later turns
+    reasoning: v.optional(
+      v.object({
+        content: v.string(),
+        tokenCount: v.optional(v.number()), // Set once the reply finishes
+        durationMs: v.optional(v.number()), // Unset while the model thinks
+      })
+    ),
+
+    // Deep research: the planned sub-questions and how far the run has got
+    research: v.optional(
+      v.object({
+        questions: v.array(v.string()), // Empty while planning
+        status: v.union(
+          v.literal('planning'),
+          v.literal('searching'),
+          v.literal('writing'),
+          v.literal('done')
+        ),
+      })
+    ),
+
+    // Sources the reply cites as [n], where n is the 1-based position
+    sources: v.optional(
+      v.array(
+        v.object({
+          url: v.string(),
+          title: v.string(),
+          snippet: v.optional(v.string()),
         })
       )
     ),
@@ -167,7 +239,12 @@ export default defineSchema({
     updatedAt: v.number(),
   })
     .index('by_thread', ['threadId', 'createdAt'])
-    .index('by_streaming_task', ['streamingTaskId']),
+    .index('by_streaming_task', ['streamingTaskId'])
+    .index('by_user_updated_at', ['userId', 'updatedAt'])
+    .searchIndex('search_content', {
+      searchField: 'content',
+      filterFields: ['userId'],
+    }),
 
   // SSE Streaming Tasks - Tracks Edge Function streaming jobs
   streamingTasks: defineTable({
@@ -182,7 +259,8 @@ export default defineSchema({
       v.literal('streaming'),
       v.literal('completed'),
       v.literal('failed'),
-      v.literal('disconnected') // Client disconnected but task continues
+      v.literal('disconnected'), // Client disconnected but task continues
+      v.literal('cancelled') // Stopped by the user
     ),
 
     // Model configuration
@@ -192,8 +270,9 @@ export default defineSchema({
     maxTokens: v.optional(v.number()),
 
     // Token accumulation
-    accumulatedTokens: v.array(v.string()), // All tokens received
-    currentTokenIndex: v.number(), // For resumption
+    content: v.optional(v.string()), // Reply text received so far
+    currentTokenIndex: v.number(), // Length of content; the resume cursor
+    accumulatedTokens: v.optional(v.array(v.string())), // Older tasks only; no longer written
 
     // Error handling
     error: v.optional(
@@ -269,12 +348,14 @@ export default defineSchema({
     createdAt: v.number(),
   })
     .index('by_user', ['userId'])
-    .index('by_export_id', ['exportId']),
+    .index('by_export_id', ['exportId'])
+    .index('by_user_import_id', ['userId', 'importId']),
 
   // Model availability and features
   availableModels: defineTable({
     modelId: v.string(), // e.g., "deepseek-v3.1"
     provider: v.string(), // "DeepSeek", "OpenAI", "Anthropic"
+    providerModelId: v.optional(v.string()), // Upstream API model ID if it differs from modelId
     displayName: v.string(), // "DeepSeek v3.1"
     description: v.string(),
 
@@ -308,6 +389,7 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.number(),
   })
+    .index('by_model_id', ['modelId'])
     .index('by_provider', ['provider'])
     .index('by_tier', ['requiredTier'])
     .index('by_enabled', ['enabled']),
@@ -0,0 +1,154 @@
+import { v } from 'convex/values'
+import { query } from './_generated/server'
+import { Doc, Id } from './_generated/dataModel'
+import { getActivePath } from './lib/messageTree'
+
+const MAX_RESULTS = 20
+// Search results are filtered after the index lookup (date range, thread
+// state), so read a few more candidates than we return
+const CANDIDATE_LIMIT = 100
+const SNIPPET_RADIUS = 60
+
+// Cut a short excerpt of content around the first matching search term
+function buildSnippet(content: string, searchText: string): string {
+  const lower = content.toLowerCase()
+  const terms = searchText.toLowerCase().split(/\s+/).filter(Boolean)
+  const matchAt = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0]
+
+  if (matchAt === undefined) {
+    return content.slice(0, SNIPPET_RADIUS * 2)
+  }
+
+  const start = Math.max(0, matchAt - SNIPPET_RADIUS)
+  const end = Math.min(content.length, matchAt + SNIPPET_RADIUS)
+  return (
+    (start > 0 ? '…' : '') +
+    content.slice(start, end).replace(/\s+/g, ' ') +
+    (end < content.length ? '…' : '')
+  )
+}
+
+// Search thread titles and message content across a user's threads
+export const search = query({
+  args: {
+    userId: v.string(),
+    query: v.string(),
+    model: v.optional(v.string()),
+    from: v.optional(v.number()), // Inclusive timestamp lower bound
+    to: v.optional(v.number()), // Inclusive timestamp upper bound
+    pinned: v.optional(v.boolean()), // Only pinned / only unpinned threads
+    archived: v.optional(v.boolean()), // Only archived / only active threads
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const searchText = args.query.trim()
+    if (!searchText) {
+      return { threads: [], messages: [] }
+    }
+
+    const inRange = (timestamp: number) =>
+      (args.from === undefined || timestamp >= args.from) &&
+      (args.to === undefined || timestamp <= args.to)
+
+    // Deleted threads are only reachable from the trash. The model filter
+    // applies to threads, so it keeps user messages, which have no model.
+    const matchesThreadFilters = (thread: Doc<'threads'>) =>
+      thread.visibility !== 'deleted' &&
+      (args.model === undefined || thread.model === args.model) &&
+      (args.pinned === undefined || thread.pinned === args.pinned) &&
+      (args.archived === undefined ||
+        (thread.visibility === 'archived') === args.archived)
+
+    const threadCandidates = await ctx.db
+      .query('threads')
+      .withSearchIndex('search_title', (q) => {
+        const search = q.search('title', searchText).eq('userId', args.userId)
+        return args.pinned === undefined
+          ? search
+          : search.eq('pinned', args.pinned)
+      })
+      .take(CANDIDATE_LIMIT)
+
+    const threads = threadCandidates
+      .filter(
+        (thread) =>
+          matchesThreadFilters(thread) && inRange(thread.lastMessageAt)
+      )
+      .slice(0, MAX_RESULTS)
+      .map((thread) => ({
+        threadId: thread.threadId,
+        title: thread.title,
+        model: thread.model,
+        pinned: thread.pinned,
+        archived: thread.visibility === 'archived',
+        lastMessageAt: thread.lastMessageAt,
+      }))
+
+    const messageCandidates = await ctx.db
+      .query('messages')
+      .withSearchIndex('search_content', (q) =>
+        q.search('content', searchText).eq('userId', args.userId)
+      )
+      .take(CANDIDATE_LIMIT)
+
+    const threadCache = new Map<string, Doc<'threads'> | null>()
+    const getThread = async (threadId: string) => {
+      if (!threadCache.has(threadId)) {
+        const thread = await ctx.db
+          .query('threads')
+          .withIndex('by_thread_id', (q) => q.eq('threadId', threadId))
+          .first()
+        threadCache.set(threadId, thread)
+      }
+      return threadCache.get(threadId)!
+    }
+
+    // Only messages on a thread's visible path can be jumped to; hidden
+    // versions and everything below them are skipped
+    const activePathCache = new Map<string, Set<Id<'messages'>>>()
+    const isOnActivePath = async (message: Doc<'messages'>) => {
+      if (!activePathCache.has(message.threadId)) {
+        const path = await getActivePath(ctx, message.threadId)
+        activePathCache.set(message.threadId, new Set(path.map((m) => m._id)))
+      }
+      return activePathCache.get(message.threadId)!.has(message._id)
+    }
+
+    const messages = []
+    for (const message of messageCandidates) {
+      if (message.isActiveVersion === false || !inRange(message.createdAt)) {
+        continue
+      }
+
+      const thread = await getThread(message.threadId)
+      if (
+        !thread ||
+        !matchesThreadFilters(thread) ||
+        !(await isOnActivePath(message))
+      ) {
+        continue
+      }
+
+      messages.push({
+        messageId: message._id,
+        threadId: message.threadId,
+        threadTitle: thread.title,
+        role: message.role,
+        model: message.model,
+        snippet: buildSnippet(message.content, searchText),
+        createdAt: message.createdAt,
+      })
+
+      if (messages.length >= MAX_RESULTS) {
+        break
+      }
+    }
+
+    return { threads, messages }
+  },
+})
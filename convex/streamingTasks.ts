@@ -7,6 +7,7 @@ export const create = mutation({
     threadId: v.string(),
     userId: v.string(), // Pass user ID from client
     model: v.string(),
+    messageId: v.optional(v.id('messages')), // Assistant message being streamed
     systemPrompt: v.optional(v.string()),
     temperature: v.optional(v.float64()),
     maxTokens: v.optional(v.number()),
@@ -40,12 +41,13 @@ export const create = mutation({
       taskId: args.taskId,
       threadId: args.threadId,
       userId: args.userId,
+      messageId: args.messageId,
       status: 'initializing',
       model: args.model,
       systemPrompt: args.systemPrompt,
       temperature: args.temperature,
       maxTokens: args.maxTokens,
-      accumulatedTokens: [],
+      content: '',
       currentTokenIndex: 0,
       startedAt: now,
       isContinued: false,
@@ -63,7 +65,8 @@ export const updateStatus = mutation({
       v.literal('streaming'),
       v.literal('completed'),
       v.literal('failed'),
-      v.literal('disconnected')
+      v.literal('disconnected'),
+      v.literal('cancelled')
     ),
     error: v.optional(
       v.object({
@@ -117,23 +120,104 @@ export const appendToken = mutation({
       throw new Error('Streaming task not found')
     }
 
-    const updatedTokens = [...task.accumulatedTokens, args.token]
+    const content = (task.content ?? '') + args.token
 
     await ctx.db.patch(task._id, {
-      accumulatedTokens: updatedTokens,
-      currentTokenIndex: updatedTokens.length,
+      content,
+      currentTokenIndex: content.length,
       lastTokenAt: Date.now(),
       lastClientSeenAt: Date.now(),
     })
 
     return {
       success: true,
-      tokenIndex: updatedTokens.length - 1,
-      totalTokens: updatedTokens.length,
+      tokenIndex: content.length - args.token.length,
+      totalTokens: content.length,
     }
   },
 })
 
+export const appendTokens = mutation({
+  args: {
+    taskId: v.string(),
+    tokens: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const task = await ctx.db
+      .query('streamingTasks')
+      .withIndex('by_task_id', (q) => q.eq('taskId', args.taskId))
+      .first()
+
+    if (!task) {
+      throw new Error('Streaming task not found')
+    }
+
+    // Tokens still in flight when a task is cancelled are kept, so the
+    // message shows everything generated before the upstream call stopped.
+    // A flush is appended as one piece of text; the cursor counts characters.
+    const previous = task.content ?? ''
+    const content = previous + args.tokens.join('')
+    const now = Date.now()
+
+    await ctx.db.patch(task._id, {
+      status: task.status === 'initializing' ? 'streaming' : task.status,
+      content,
+      currentTokenIndex: content.length,
+      lastTokenAt: now,
+    })
+
+    // Mirror the partial reply onto the message so subscribers see it live
+    if (task.messageId) {
+      await ctx.db.patch(task.messageId, {
+        content,
+        updatedAt: now,
+        ...(!previous && { firstTokenAt: now }),
+      })
+    }
+
+    return {
+      success: true,
+      totalTokens: content.length,
+      cancelled: task.status === 'cancelled',
+    }
+  },
+})
+
+export const cancel = mutation({
+  args: {
+    taskId: v.string(),
+    userId: v.string(), // Pass user ID from client
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const task = await ctx.db
+      .query('streamingTasks')
+      .withIndex('by_task_id', (q) => q.eq('taskId', args.taskId))
+      .first()
+
+    if (!task || task.userId !== args.userId) {
+      throw new Error('Streaming task not found or unauthorized')
+    }
+
+    if (
+      task.status === 'completed' ||
+      task.status === 'failed' ||
+      task.status === 'cancelled'
+    ) {
+      return { success: false, status: task.status }
+    }
+
+    await ctx.db.patch(task._id, {
+      status: 'cancelled',
+      completedAt: Date.now(),
+    })
+
+    return { success: true, status: 'cancelled' as const }
+  },
+})
+
 export const getByTaskId = query({
   args: { taskId: v.string() },
   handler: async (ctx, args) => {
@@ -159,12 +243,19 @@ export const getActiveByUser = query({
       return []
     }
 
-    return await ctx.db
-      .query('streamingTasks')
-      .withIndex('by_user_active', (q) =>
-        q.eq('userId', args.userId).eq('status', 'streaming')
+    // Tasks that haven't produced a token yet can be resumed too
+    const [initializing, streaming] = await Promise.all(
+      (['initializing', 'streaming'] as const).map((status) =>
+        ctx.db
+          .query('streamingTasks')
+          .withIndex('by_user_active', (q) =>
+            q.eq('userId', args.userId).eq('status', status)
+          )
+          .collect()
       )
-      .collect()
+    )
+
+    return [...initializing, ...streaming]
   },
 })
 
@@ -0,0 +1,247 @@
+import { v } from 'convex/values'
+import { paginationOptsValidator } from 'convex/server'
+import { mutation, query } from './_generated/server'
+import { Doc, Id } from './_generated/dataModel'
+import { getActivePath, syncThreadStats } from './lib/messageTree'
+
+// Sync endpoints for local-first history (lib/local-history/sync.ts)
+// A pushed change names the server updatedAt of the copy it was based on;
+// it applies only when the server copy hasn't changed since, so timestamps
+// are only ever compared on the server clock. The client keeps the conflict
+// log, these endpoints report what was rejected or skipped. Pushed writes
+// are stamped with server time so every other device pulls them.
+
+// Threads changed since a sync cursor, oldest change first
+export const pullThreads = query({
+  args: {
+    userId: v.string(),
+    since: v.number(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const page = await ctx.db
+      .query('threads')
+      .withIndex('by_user_updated_at', (q) =>
+        q.eq('userId', args.userId).gt('updatedAt', args.since)
+      )
+      .paginate(args.paginationOpts)
+
+    return { ...page, serverTime: Date.now() }
+  },
+})
+
+// Messages changed since a sync cursor, oldest change first
+export const pullMessages = query({
+  args: {
+    userId: v.string(),
+    since: v.number(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    return await ctx.db
+      .query('messages')
+      .withIndex('by_user_updated_at', (q) =>
+        q.eq('userId', args.userId).gt('updatedAt', args.since)
+      )
+      .paginate(args.paginationOpts)
+  },
+})
+
+export const push = mutation({
+  args: {
+    userId: v.string(),
+    threads: v.array(
+      v.object({
+        threadId: v.string(),
+        title: v.string(),
+        model: v.string(),
+        visibility: v.union(
+          v.literal('visible'),
+          v.literal('archived'),
+          v.literal('deleted')
+        ),
+        createdAt: v.number(),
+        updatedAt: v.number(),
+        baseUpdatedAt: v.optional(v.number()), // Server updatedAt last synced
+      })
+    ),
+    messages: v.array(
+      v.object({
+        localId: v.string(),
+        remoteId: v.optional(v.id('messages')),
+        threadId: v.string(),
+        role: v.union(
+          v.literal('user'),
+          v.literal('assistant'),
+          v.literal('system'),
+          v.literal('tool')
+        ),
+        content: v.string(),
+        model: v.optional(v.string()),
+        finishReason: v.optional(
+          v.union(
+            v.literal('stop'),
+            v.literal('length'),
+            v.literal('content_filter'),
+            v.literal('error'),
+            v.literal('cancelled')
+          )
+        ),
+        createdAt: v.number(),
+        updatedAt: v.number(),
+        baseUpdatedAt: v.optional(v.number()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_auth_user_id', (q) => q.eq('authUserId', args.userId))
+      .first()
+
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    const now = Date.now()
+    const ownedThreads = new Map<string, Doc<'threads'>>()
+    const getOwnedThread = async (threadId: string) => {
+      if (!ownedThreads.has(threadId)) {
+        const thread = await ctx.db
+          .query('threads')
+          .withIndex('by_thread_id', (q) => q.eq('threadId', threadId))
+          .first()
+        if (thread && thread.userId === args.userId) {
+          ownedThreads.set(threadId, thread)
+        }
+      }
+      return ownedThreads.get(threadId)
+    }
+
+    // Server copies that changed since the client's base version
+    const rejectedThreads: Doc<'threads'>[] = []
+    // Changes that couldn't be applied here (thread or message not found
+    // or owned by someone else); the client keeps them pending
+    const skippedThreadIds: string[] = []
+    const skippedMessageIds: string[] = []
+
+    for (const incoming of args.threads) {
+      const existing = await ctx.db
+        .query('threads')
+        .withIndex('by_thread_id', (q) => q.eq('threadId', incoming.threadId))
+        .first()
+
+      if (existing) {
+        if (existing.userId !== args.userId) {
+          skippedThreadIds.push(incoming.threadId)
+        } else if (existing.updatedAt > (incoming.baseUpdatedAt ?? 0)) {
+          rejectedThreads.push(existing)
+        } else {
+          await ctx.db.patch(existing._id, {
+            title: incoming.title,
+            visibility: incoming.visibility,
+            updatedAt: now,
+          })
+        }
+        continue
+      }
+
+      await ctx.db.insert('threads', {
+        threadId: incoming.threadId,
+        userId: args.userId,
+        title: incoming.title,
+        model: incoming.model,
+        generationStatus: 'idle',
+        lastMessageAt: incoming.updatedAt,
+        pinned: false,
+        visibility: incoming.visibility,
+        userSetTitle: false,
+        totalTokensUsed: 0,
+        messageCount: 0,
+        createdAt: incoming.createdAt,
+        updatedAt: now,
+      })
+    }
+
+    const created: { localId: string; remoteId: Id<'messages'> }[] = []
+    const rejected: { localId: string; message: Doc<'messages'> }[] = []
+    const tails = new Map<string, Id<'messages'> | null>()
+    const touchedThreads = new Set<string>()
+
+    const incomingMessages = [...args.messages].sort(
+      (a, b) => a.createdAt - b.createdAt
+    )
+    for (const incoming of incomingMessages) {
+      const thread = await getOwnedThread(incoming.threadId)
+      if (!thread) {
+        skippedMessageIds.push(incoming.localId)
+        continue
+      }
+
+      if (incoming.remoteId) {
+        const existing = await ctx.db.get(incoming.remoteId)
+        if (!existing || existing.userId !== args.userId) {
+          skippedMessageIds.push(incoming.localId)
+          continue
+        }
+
+        if (existing.updatedAt > (incoming.baseUpdatedAt ?? 0)) {
+          rejected.push({ localId: incoming.localId, message: existing })
+          continue
+        }
+
+        await ctx.db.patch(existing._id, {
+          content: incoming.content,
+          finishReason: incoming.finishReason,
+          updatedAt: now,
+        })
+        touchedThreads.add(incoming.threadId)
+        continue
+      }
+
+      // New local messages continue the thread's active path
+      if (!tails.has(incoming.threadId)) {
+        const path = await getActivePath(ctx, incoming.threadId)
+        tails.set(incoming.threadId, path[path.length - 1]?._id ?? null)
+      }
+
+      const remoteId = await ctx.db.insert('messages', {
+        threadId: incoming.threadId,
+        userId: args.userId,
+        role: incoming.role,
+        content: incoming.content,
+        parentMessageId: tails.get(incoming.threadId)!,
+        isStreaming: false,
+        finishReason: incoming.finishReason,
+        model: incoming.model,
+        createdAt: incoming.createdAt,
+        updatedAt: now,
+      })
+      tails.set(incoming.threadId, remoteId)
+      touchedThreads.add(incoming.threadId)
+      created.push({ localId: incoming.localId, remoteId })
+    }
+
+    for (const threadId of touchedThreads) {
+      await syncThreadStats(ctx, ownedThreads.get(threadId)!)
+    }
+
+    return {
+      created,
+      rejected,
+      rejectedThreads,
+      skippedThreadIds,
+      skippedMessageIds,
+      syncedAt: now,
+    }
+  },
+})
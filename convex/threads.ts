@@ -1,6 +1,14 @@
 import { v } from 'convex/values'
-import { mutation, query } from './_generated/server'
+import {
+  internalMutation,
+  mutation,
+  MutationCtx,
+  query,
+} from './_generated/server'
+import { internal } from './_generated/api'
 import { nanoid } from 'nanoid'
+import { Doc, Id } from './_generated/dataModel'
+import { getActivePath } from './lib/messageTree'
 
 export const create = mutation({
   args: {
@@ -23,6 +31,17 @@ export const create = mutation({
     }
 
     const threadId = args.threadId || nanoid()
+
+    // Thread IDs come from the client URL, so never reuse one
+    const existing = await ctx.db
+      .query('threads')
+      .withIndex('by_thread_id', (q) => q.eq('threadId', threadId))
+      .first()
+
+    if (existing) {
+      throw new Error('Thread already exists')
+    }
+
     const now = Date.now()
 
     const thread = await ctx.db.insert('threads', {
@@ -148,6 +167,7 @@ export const updateTitle = mutation({
     threadId: v.string(),
     userId: v.string(),
     title: v.string(),
+    generated: v.optional(v.boolean()), // Auto-generated; never overrides a user title
   },
   handler: async (ctx, args) => {
     // For now, bypass Convex auth and use the passed userId
@@ -171,12 +191,402 @@ export const updateTitle = mutation({
       throw new Error('Thread not found or unauthorized')
     }
 
+    if (args.generated && thread.userSetTitle) {
+      return { success: false }
+    }
+
     await ctx.db.patch(thread._id, {
       title: args.title,
-      userSetTitle: true,
+      userSetTitle: !args.generated,
       updatedAt: Date.now(),
     })
 
     return { success: true }
   },
 })
+
+// Cache the rolling context summary; omit it to clear the cache once the
+// whole thread fits again
+export const setContextSummary = mutation({
+  args: {
+    threadId: v.string(),
+    userId: v.string(),
+    summary: v.optional(
+      v.object({
+        content: v.string(),
+        throughMessageId: v.id('messages'),
+        tokenCount: v.number(),
+        model: v.string(),
+        updatedAt: v.number(),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const thread = await ctx.db
+      .query('threads')
+      .withIndex('by_thread_id', (q) => q.eq('threadId', args.threadId))
+      .first()
+
+    if (!thread || thread.userId !== args.userId) {
+      throw new Error('Thread not found or unauthorized')
+    }
+
+    // Not a user-visible change, so updatedAt (sidebar order) stays put
+    await ctx.db.patch(thread._id, { contextSummary: args.summary })
+
+    return { success: true }
+  },
+})
+
+export const branch = mutation({
+  args: {
+    threadId: v.string(), // Thread to branch from
+    messageId: v.id('messages'), // Last message copied into the branch
+    newThreadId: v.optional(v.string()),
+    userId: v.string(), // Pass user ID from client
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_auth_user_id', (q) => q.eq('authUserId', args.userId))
+      .first()
+
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    const thread = await ctx.db
+      .query('threads')
+      .withIndex('by_thread_id', (q) => q.eq('threadId', args.threadId))
+      .first()
+
+    if (!thread || thread.userId !== args.userId) {
+      throw new Error('Thread not found or unauthorized')
+    }
+
+    const branchPoint = await ctx.db.get(args.messageId)
+    if (!branchPoint || branchPoint.threadId !== args.threadId) {
+      throw new Error('Message not found in thread')
+    }
+
+    if (branchPoint.isStreaming) {
+      throw new Error('Cannot branch from a message that is still streaming')
+    }
+
+    // Branch the conversation as currently shown (active versions only)
+    const history = await getActivePath(ctx, args.threadId)
+    const branchIndex = history.findIndex((m) => m._id === args.messageId)
+    if (branchIndex === -1) {
+      throw new Error('Message is not part of the current conversation')
+    }
+    const copied = history.slice(0, branchIndex + 1)
+
+    const threadId = args.newThreadId || nanoid()
+
+    const existing = await ctx.db
+      .query('threads')
+      .withIndex('by_thread_id', (q) => q.eq('threadId', threadId))
+      .first()
+
+    if (existing) {
+      throw new Error('Thread already exists')
+    }
+
+    const now = Date.now()
+
+    await ctx.db.insert('threads', {
+      threadId,
+      userId: args.userId,
+      title: thread.title,
+      model: thread.model,
+      generationStatus: 'idle',
+      lastMessageAt: now,
+      pinned: false,
+      visibility: 'visible',
+      branchParent: args.threadId,
+      branchFromMessageId: args.messageId,
+      userSetTitle: thread.userSetTitle,
+      totalTokensUsed: copied.reduce(
+        (acc, m) => acc + (m.usage?.totalTokens || 0),
+        0
+      ),
+      messageCount: copied.length,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    // Copy the conversation up to and including the branch point
+    let parentMessageId: Id<'messages'> | null = null
+    for (const message of copied) {
+      parentMessageId = await ctx.db.insert('messages', {
+        parentMessageId,
+        threadId,
+        userId: args.userId,
+        role: message.role,
+        content: message.content,
+        isStreaming: false,
+        usage: message.usage,
+        finishReason: message.finishReason,
+        model: message.model,
+        firstTokenAt: message.firstTokenAt,
+        editedAt: message.editedAt,
+        attachments: message.attachments,
+        toolCalls: message.toolCalls,
+        reasoning: message.reasoning,
+        research: message.research,
+        sources: message.sources,
+        createdAt: message.createdAt,
+        updatedAt: now,
+      })
+    }
+
+    return { threadId, messageCount: copied.length }
+  },
+})
+
+// Threads stay in the trash this long before the purge job removes them
+export const DELETED_THREAD_RETENTION_DAYS = 30
+
+async function getOwnedThread(
+  ctx: MutationCtx,
+  threadId: string,
+  userId: string
+): Promise<Doc<'threads'>> {
+  const user = await ctx.db
+    .query('users')
+    .withIndex('by_auth_user_id', (q) => q.eq('authUserId', userId))
+    .first()
+
+  if (!user) {
+    throw new Error('User not found')
+  }
+
+  const thread = await ctx.db
+    .query('threads')
+    .withIndex('by_thread_id', (q) => q.eq('threadId', threadId))
+    .first()
+
+  if (!thread || thread.userId !== userId) {
+    throw new Error('Thread not found or unauthorized')
+  }
+
+  return thread
+}
+
+// Documents the purge job deletes per transaction, across all threads
+const PURGE_BATCH_SIZE = 1000
+
+/**
+ * Hard-delete a thread with its messages and streaming tasks
+ * With a limit, deletes at most that many documents and keeps the thread
+ * until everything under it is gone (done: false means call again).
+ */
+async function purgeThread(
+  ctx: MutationCtx,
+  thread: Doc<'threads'>,
+  limit?: number
+) {
+  const messagesQuery = ctx.db
+    .query('messages')
+    .withIndex('by_thread', (q) => q.eq('threadId', thread.threadId))
+  const messages =
+    limit === undefined
+      ? await messagesQuery.collect()
+      : await messagesQuery.take(limit)
+  for (const message of messages) {
+    await ctx.db.delete(message._id)
+  }
+
+  const remaining = limit === undefined ? undefined : limit - messages.length
+  const tasksQuery = ctx.db
+    .query('streamingTasks')
+    .withIndex('by_thread', (q) => q.eq('threadId', thread.threadId))
+  const tasks =
+    remaining === undefined
+      ? await tasksQuery.collect()
+      : remaining > 0
+        ? await tasksQuery.take(remaining)
+        : []
+  for (const task of tasks) {
+    await ctx.db.delete(task._id)
+  }
+
+  const done = limit === undefined || messages.length + tasks.length < limit
+  if (done) {
+    await ctx.db.delete(thread._id)
+  }
+
+  return { messages: messages.length, streamingTasks: tasks.length, done }
+}
+
+export const getByVisibility = query({
+  args: {
+    userId: v.string(),
+    visibility: v.union(v.literal('archived'), v.literal('deleted')),
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_auth_user_id', (q) => q.eq('authUserId', args.userId))
+      .first()
+
+    if (!user) {
+      return []
+    }
+
+    return await ctx.db
+      .query('threads')
+      .withIndex('by_user_visible', (q) =>
+        q.eq('userId', args.userId).eq('visibility', args.visibility)
+      )
+      .order('desc')
+      .collect()
+  },
+})
+
+export const setPinned = mutation({
+  args: {
+    threadId: v.string(),
+    userId: v.string(),
+    pinned: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const thread = await getOwnedThread(ctx, args.threadId, args.userId)
+
+    await ctx.db.patch(thread._id, {
+      pinned: args.pinned,
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
+
+export const archive = mutation({
+  args: { threadId: v.string(), userId: v.string() },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const thread = await getOwnedThread(ctx, args.threadId, args.userId)
+
+    await ctx.db.patch(thread._id, {
+      visibility: 'archived',
+      pinned: false,
+      deletedAt: undefined,
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
+
+export const softDelete = mutation({
+  args: { threadId: v.string(), userId: v.string() },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const thread = await getOwnedThread(ctx, args.threadId, args.userId)
+    const now = Date.now()
+
+    await ctx.db.patch(thread._id, {
+      visibility: 'deleted',
+      pinned: false,
+      deletedAt: now,
+      updatedAt: now,
+    })
+
+    return { success: true }
+  },
+})
+
+export const restore = mutation({
+  args: { threadId: v.string(), userId: v.string() },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const thread = await getOwnedThread(ctx, args.threadId, args.userId)
+
+    await ctx.db.patch(thread._id, {
+      visibility: 'visible',
+      deletedAt: undefined,
+      updatedAt: Date.now(),
+    })
+
+    return { success: true }
+  },
+})
+
+export const purge = mutation({
+  args: { threadId: v.string(), userId: v.string() },
+  handler: async (ctx, args) => {
+    // For now, bypass Convex auth and use the passed userId
+    // TODO: Fix Convex auth configuration for anonymous users
+
+    const thread = await getOwnedThread(ctx, args.threadId, args.userId)
+
+    if (thread.generationStatus === 'generating') {
+      throw new Error('Cannot delete a thread while a reply is generating')
+    }
+
+    const { messages, streamingTasks } = await purgeThread(ctx, thread)
+
+    return { success: true, messages, streamingTasks }
+  },
+})
+
+/**
+ * Scheduled job (see crons.ts): permanently remove threads that have been
+ * in the trash for longer than the retention period
+ */
+export const purgeExpired = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff =
+      Date.now() - DELETED_THREAD_RETENTION_DAYS * 24 * 60 * 60 * 1000
+
+    // Threads trashed before deletedAt was recorded have no retention window
+    // to measure, so the range starts at 0 to leave them out (undefined sorts
+    // before every number)
+    const expired = await ctx.db
+      .query('threads')
+      .withIndex('by_visibility_deleted_at', (q) =>
+        q
+          .eq('visibility', 'deleted')
+          .gte('deletedAt', 0)
+          .lt('deletedAt', cutoff)
+      )
+      .take(100)
+
+    // Large threads are deleted across several runs
+    let budget = PURGE_BATCH_SIZE
+    let purged = 0
+    for (const thread of expired) {
+      const deleted = await purgeThread(ctx, thread, budget)
+      budget -= deleted.messages + deleted.streamingTasks
+      if (deleted.done) purged++
+      if (!deleted.done || budget <= 0) break
+    }
+
+    // Keep going in a fresh transaction if there is more to purge
+    if (expired.length === 100 || purged < expired.length) {
+      await ctx.scheduler.runAfter(0, internal.threads.purgeExpired, {})
+    }
+
+    return { purged }
+  },
+})
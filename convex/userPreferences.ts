@@ -47,6 +47,12 @@ export const createOrUpdate = mutation({
         search: v.string(),
         newChat: v.string(),
         toggleSidebar: v.string(),
+        stopGeneration: v.optional(v.string()),
+        regenerate: v.optional(v.string()),
+        copyLastReply: v.optional(v.string()),
+        focusComposer: v.optional(v.string()),
+        nextThread: v.optional(v.string()),
+        previousThread: v.optional(v.string()),
       })
     ),
     emailReceipts: v.optional(v.boolean()),
@@ -0,0 +1,114 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  ATTACHMENT_EXTENSION_TYPES,
+  ATTACHMENT_KINDS,
+  ATTACHMENT_MEDIA_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MessageAttachment,
+} from '@/lib/attachments/types'
+
+async function uploadAttachment(file: File): Promise<MessageAttachment> {
+  const formData = new FormData()
+  formData.append('file', file)
+
+  const response = await fetch('/api/upload-image', {
+    method: 'POST',
+    body: formData,
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to upload ${file.name}`)
+  }
+
+  return {
+    type: 'file',
+    url: data.url,
+    filename: data.filename,
+    mediaType: data.mediaType,
+    size: data.size,
+  }
+}
+
+/**
+ * Attachments for the next message, uploaded as soon as they're picked
+ * Files are checked before upload; images and PDFs need a vision model.
+ */
+export function useAttachmentUploads({
+  supportsVision,
+  modelName,
+  onError,
+}: {
+  supportsVision: boolean
+  modelName: string
+  onError: (message: string) => void
+}) {
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([])
+  const [uploadingCount, setUploadingCount] = useState(0)
+
+  const addFiles = async (files: File[]) => {
+    const available =
+      MAX_ATTACHMENTS_PER_MESSAGE - attachments.length - uploadingCount
+    if (files.length > available) {
+      onError(
+        `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`
+      )
+    }
+
+    const accepted = files.slice(0, Math.max(0, available)).filter((file) => {
+      const extension = file.name.split('.').pop()?.toLowerCase() || ''
+      const mediaType = file.type || ATTACHMENT_EXTENSION_TYPES[extension]
+
+      if (!ATTACHMENT_MEDIA_TYPES.includes(mediaType)) {
+        onError(`${file.name} isn't a supported file type`)
+        return false
+      }
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        onError(`${file.name} is too large (max 10MB)`)
+        return false
+      }
+      if (ATTACHMENT_KINDS[mediaType] !== 'text' && !supportsVision) {
+        onError(
+          `${modelName} can't read images or PDFs. Switch to a model with vision support to attach ${file.name}.`
+        )
+        return false
+      }
+      return true
+    })
+
+    setUploadingCount((count) => count + accepted.length)
+    await Promise.all(
+      accepted.map(async (file) => {
+        try {
+          const attachment = await uploadAttachment(file)
+          setAttachments((current) => [...current, attachment])
+        } catch (error) {
+          console.error('❌ Attachment upload failed:', error)
+          onError(
+            error instanceof Error
+              ? error.message
+              : `Failed to upload ${file.name}`
+          )
+        } finally {
+          setUploadingCount((count) => count - 1)
+        }
+      })
+    )
+  }
+
+  const removeAttachment = (url: string) => {
+    setAttachments((current) =>
+      current.filter((attachment) => attachment.url !== url)
+    )
+  }
+
+  return {
+    attachments,
+    isUploading: uploadingCount > 0,
+    addFiles,
+    removeAttachment,
+    clearAttachments: () => setAttachments([]),
+  }
+}
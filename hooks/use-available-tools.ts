@@ -0,0 +1,49 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+export interface AvailableTool {
+  name: string
+  label: string
+  creditKey: string // TOOL_CREDIT_COSTS key charged when it runs
+  credits: number
+}
+
+/**
+ * Registry tools the selected model can use, and which ones are switched on
+ * Tools start enabled; switching one off lasts for this session.
+ */
+export function useAvailableTools(model: string) {
+  const [tools, setTools] = useState<AvailableTool[]>([])
+  const [disabledTools, setDisabledTools] = useState<string[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetch(`/api/tools?model=${encodeURIComponent(model)}`)
+      .then((response) => (response.ok ? response.json() : { tools: [] }))
+      .then((data: { tools: AvailableTool[] }) => {
+        if (!cancelled) setTools(data.tools)
+      })
+      .catch((error) => {
+        console.error('❌ Failed to load tools:', error)
+        if (!cancelled) setTools([])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [model])
+
+  const enabledTools = tools.filter(
+    (tool) => !disabledTools.includes(tool.name)
+  )
+
+  const toggleTool = (name: string, enabled: boolean) => {
+    setDisabledTools((current) =>
+      enabled ? current.filter((entry) => entry !== name) : [...current, name]
+    )
+  }
+
+  return { tools, enabledTools, toggleTool }
+}
@@ -0,0 +1,127 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useConvex } from 'convex/react'
+import { authClient } from '@/lib/auth-client'
+import {
+  getCounts,
+  getSyncSettings,
+  listConflicts,
+  listMessages,
+  listThreads,
+  saveSyncSettings,
+  subscribeToChanges,
+} from '@/lib/local-history/db'
+import { syncLocalHistory } from '@/lib/local-history/sync'
+import { SyncResult } from '@/lib/local-history/types'
+
+const BACKGROUND_SYNC_INTERVAL_MS = 5 * 60 * 1000
+
+// listConflicts with its default limit
+const readConflicts = () => listConflicts()
+
+// Re-read from IndexedDB whenever local history changes (in any tab).
+// `read` must be stable across renders (module-level or memoized).
+function useLocalQuery<T>(read: (() => Promise<T>) | null): T | undefined {
+  const [value, setValue] = useState<T>()
+
+  useEffect(() => {
+    if (!read) {
+      setValue(undefined)
+      return
+    }
+
+    let cancelled = false
+    const load = () =>
+      read()
+        .then((result) => {
+          if (!cancelled) setValue(result)
+        })
+        .catch((error) => console.error('Local history read failed:', error))
+
+    load()
+    const unsubscribe = subscribeToChanges(load)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [read])
+
+  return value
+}
+
+export function useSyncSettings() {
+  const settings = useLocalQuery(getSyncSettings)
+  const setSyncEnabled = useCallback(
+    (syncEnabled: boolean) => saveSyncSettings({ syncEnabled }),
+    []
+  )
+
+  return { settings, setSyncEnabled }
+}
+
+export function useLocalThreads(enabled = true) {
+  return useLocalQuery(enabled ? listThreads : null)
+}
+
+export function useLocalMessages(threadId?: string) {
+  const read = useMemo(
+    () => (threadId ? () => listMessages(threadId) : null),
+    [threadId]
+  )
+  return useLocalQuery(read)
+}
+
+export function useLocalHistoryStats() {
+  const counts = useLocalQuery(getCounts)
+  const conflicts = useLocalQuery(readConflicts)
+
+  return { counts, conflicts }
+}
+
+/**
+ * Sync local history with Convex on demand
+ */
+export function useHistorySync() {
+  const convex = useConvex()
+  const { data: authSession } = authClient.useSession()
+  const userId = authSession?.user.id
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  const syncNow = useCallback(async (): Promise<SyncResult> => {
+    if (!userId) {
+      throw new Error('Sign in to sync your history')
+    }
+
+    setIsSyncing(true)
+    try {
+      return await syncLocalHistory(convex, userId)
+    } finally {
+      setIsSyncing(false)
+    }
+  }, [convex, userId])
+
+  return { syncNow, isSyncing, canSync: !!userId }
+}
+
+/**
+ * Keep local history in step with Convex while sync is enabled
+ */
+export function useBackgroundSync() {
+  const { settings } = useSyncSettings()
+  const { syncNow, canSync } = useHistorySync()
+  const syncEnabled = settings?.syncEnabled
+
+  useEffect(() => {
+    if (!syncEnabled || !canSync) return
+
+    const run = () =>
+      syncNow().catch((error) =>
+        console.error('Background history sync failed:', error)
+      )
+
+    run()
+    const interval = setInterval(run, BACKGROUND_SYNC_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [syncEnabled, canSync, syncNow])
+}
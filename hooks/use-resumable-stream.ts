@@ -3,9 +3,13 @@
 import { useEffect, useState, useCallback } from 'react'
 import { useConvex } from 'convex/react'
 import { api } from '../convex/_generated/api'
+import { authClient } from '@/lib/auth-client'
+import { readDataStream } from '@/lib/ai/data-stream'
+
+const MAX_RESUME_ATTEMPTS = 5
 
 interface UseResumableStreamProps {
-  threadId: string
+  threadId?: string
   onStreamComplete?: () => void
 }
 
@@ -14,60 +18,59 @@ export function useResumableStream({
   onStreamComplete,
 }: UseResumableStreamProps) {
   const convex = useConvex()
+  const { data: authSession } = authClient.useSession()
+  const userId = authSession?.user.id
   const [isStreaming, setIsStreaming] = useState(false)
   const [connectionStatus, setConnectionStatus] = useState<
     'connected' | 'disconnected' | 'reconnecting'
   >('connected')
 
   const resumeStream = useCallback(
-    async (taskId: string) => {
+    async (taskId: string, cursor = 0) => {
+      if (!threadId) return
+
       setIsStreaming(true)
-      setConnectionStatus('reconnecting')
+      let tokenIndex = cursor
 
       try {
-        const response = await fetch(
-          `/api/chat/${threadId}/resume?taskId=${taskId}`
-        )
-
-        if (!response.ok) {
-          throw new Error('Failed to resume stream')
-        }
-
-        setConnectionStatus('connected')
-
-        const reader = response.body?.getReader()
-        if (!reader) throw new Error('No response body')
-
-        let messageContent = ''
-
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
+        // Reconnect from the last token seen until the task finishes
+        for (let attempt = 0; attempt < MAX_RESUME_ATTEMPTS; attempt++) {
+          setConnectionStatus('reconnecting')
+
+          try {
+            const response = await fetch(
+              `/api/chat/${threadId}/resume?taskId=${taskId}`,
+              { headers: { 'Last-Event-ID': String(tokenIndex) } }
+            )
+
+            if (!response.ok) {
+              throw new Error('Failed to resume stream')
+            }
 
-          const chunk = new TextDecoder().decode(value)
-          const lines = chunk.split('\n').filter((line) => line.trim())
+            setConnectionStatus('connected')
 
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const data = JSON.parse(line.slice(6))
+            // Content updates happen through Convex real-time subscriptions
+            const result = await readDataStream(response, {
+              cursor: tokenIndex,
+            })
+            tokenIndex = result.tokenIndex
 
-                if (data.type === 'text-delta') {
-                  messageContent += data.textDelta
-                  // Content updates happen through Convex real-time subscriptions
-                } else if (data.type === 'finish') {
-                  setIsStreaming(false)
-                  onStreamComplete?.()
-                  break
-                }
-              } catch (e) {
-                console.error('Error parsing stream data:', e)
+            if (!result.interrupted) {
+              if (result.error) {
+                console.error('Resumed stream failed:', result.error)
               }
+              onStreamComplete?.()
+              return
             }
+          } catch (error) {
+            console.error('Stream resume error:', error)
           }
+
+          const delay = Math.min(1000 * Math.pow(2, attempt), 8000)
+          console.log(`🔄 Stream interrupted, resuming in ${delay}ms...`)
+          await new Promise((resolve) => setTimeout(resolve, delay))
         }
-      } catch (error) {
-        console.error('Stream resume error:', error)
+
         setConnectionStatus('disconnected')
       } finally {
         setIsStreaming(false)
@@ -78,23 +81,22 @@ export function useResumableStream({
 
   // Check for active streaming tasks on mount/thread change
   useEffect(() => {
+    if (!threadId || !userId) return
+
     const checkForActiveStreams = async () => {
       try {
         const activeTasks = await convex.query(
           api.streamingTasks.getActiveByUser,
-          {}
+          { userId }
         )
         const threadTask = activeTasks.find(
           (task) => task.threadId === threadId
         )
 
-        if (
-          threadTask &&
-          (threadTask.status === 'streaming' ||
-            threadTask.status === 'disconnected')
-        ) {
+        if (threadTask) {
           console.log('Found active stream, resuming...', threadTask.taskId)
-          await resumeStream(threadTask.taskId)
+          // Tokens already persisted are rendered from Convex; follow new ones
+          await resumeStream(threadTask.taskId, threadTask.currentTokenIndex)
         }
       } catch (error) {
         console.error('Failed to check for active streams:', error)
@@ -102,7 +104,7 @@ export function useResumableStream({
     }
 
     checkForActiveStreams()
-  }, [threadId, resumeStream, convex])
+  }, [threadId, userId, resumeStream, convex])
 
   return {
     isStreaming,
@@ -0,0 +1,63 @@
+'use client'
+
+import { useEffect, useMemo, useRef } from 'react'
+import { useUserPreferences } from '@/hooks/use-user-preferences'
+import {
+  dispatchShortcut,
+  registerShortcut,
+  setShortcutBindings,
+} from '@/lib/shortcuts/manager'
+import {
+  DEFAULT_SHORTCUTS,
+  ShortcutAction,
+  ShortcutBindings,
+} from '@/lib/shortcuts/types'
+
+/**
+ * The user's shortcut bindings, with defaults for anything not set
+ */
+export function useShortcutBindings(): ShortcutBindings {
+  const { preferences } = useUserPreferences()
+  const shortcuts = preferences?.shortcuts
+
+  return useMemo(() => ({ ...DEFAULT_SHORTCUTS, ...shortcuts }), [shortcuts])
+}
+
+/**
+ * Listen for bound shortcuts on the whole page (mount once per layout)
+ */
+export function useShortcutManager() {
+  const bindings = useShortcutBindings()
+
+  useEffect(() => {
+    setShortcutBindings(bindings)
+  }, [bindings])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (dispatchShortcut(event)) {
+        event.preventDefault()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+}
+
+/**
+ * Run a handler when the action's shortcut is pressed
+ */
+export function useShortcut(
+  action: ShortcutAction,
+  handler: () => void,
+  enabled = true
+) {
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+
+  useEffect(() => {
+    if (!enabled) return
+    return registerShortcut(action, () => handlerRef.current())
+  }, [action, enabled])
+}
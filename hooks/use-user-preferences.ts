@@ -0,0 +1,21 @@
+'use client'
+
+import { useQuery } from 'convex/react'
+import { api } from '@/convex/_generated/api'
+import { authClient } from '@/lib/auth-client'
+
+/**
+ * The signed-in user's stored preferences
+ * preferences is undefined while loading and null when none are saved yet.
+ */
+export function useUserPreferences() {
+  const { data: authSession } = authClient.useSession()
+  const userId = authSession?.user.id
+
+  const preferences = useQuery(
+    api.userPreferences.get,
+    userId ? { userId } : 'skip'
+  )
+
+  return { preferences, userId }
+}
@@ -0,0 +1,150 @@
+// Message Attachments for T3Chat
+// Turns stored attachments into what a model can read: text files are
+// inlined into the message, images and PDFs become multimodal parts for
+// vision models and a short note for everything else.
+
+import type { CoreMessage, FilePart, ImagePart } from 'ai'
+import {
+  ATTACHMENT_CREDIT_TOOLS,
+  ATTACHMENT_KINDS,
+  MessageAttachment,
+} from '@/lib/attachments/types'
+import type { ContextMessage } from './context'
+
+// Flat prompt-token estimates; providers bill by resolution or page count,
+// which isn't known before the request
+const IMAGE_TOKEN_ESTIMATE = 1000
+const DOCUMENT_TOKEN_ESTIMATE = 2000
+
+const MAX_INLINE_TEXT_LENGTH = 100_000
+
+/**
+ * Whether any attachment needs a vision model
+ */
+export function needsVision(attachments: MessageAttachment[] = []): boolean {
+  return attachments.some(
+    (attachment) => ATTACHMENT_KINDS[attachment.mediaType] !== 'text'
+  )
+}
+
+/**
+ * Credit charges (TOOL_CREDIT_COSTS keys) for the attachments of a turn
+ */
+export function getAttachmentTools(
+  attachments: MessageAttachment[] = []
+): string[] {
+  const tools = attachments.map(
+    (attachment) =>
+      ATTACHMENT_CREDIT_TOOLS[ATTACHMENT_KINDS[attachment.mediaType]]
+  )
+  return [...new Set(tools)]
+}
+
+/**
+ * Estimated prompt tokens for multimodal attachments
+ */
+export function estimateAttachmentTokens(
+  attachments: MessageAttachment[] = []
+): number {
+  return attachments.reduce(
+    (total, attachment) =>
+      total +
+      (ATTACHMENT_KINDS[attachment.mediaType] === 'image'
+        ? IMAGE_TOKEN_ESTIMATE
+        : DOCUMENT_TOKEN_ESTIMATE),
+    0
+  )
+}
+
+async function fetchAttachmentText(
+  attachment: MessageAttachment
+): Promise<string> {
+  try {
+    const response = await fetch(attachment.url)
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+    const text = await response.text()
+    return text.length > MAX_INLINE_TEXT_LENGTH
+      ? `${text.slice(0, MAX_INLINE_TEXT_LENGTH)}\n[truncated]`
+      : text
+  } catch (error) {
+    console.error(`❌ Failed to load attachment ${attachment.filename}:`, error)
+    return '[The file could not be loaded]'
+  }
+}
+
+/**
+ * Inline text attachments into the message content
+ * Returns the content and the attachments still to be sent as parts.
+ */
+export async function inlineTextAttachments(
+  content: string,
+  attachments: MessageAttachment[] = []
+): Promise<{ content: string; attachments: MessageAttachment[] }> {
+  const textFiles = attachments.filter(
+    (attachment) => ATTACHMENT_KINDS[attachment.mediaType] === 'text'
+  )
+  if (textFiles.length === 0) {
+    return { content, attachments }
+  }
+
+  const files = await Promise.all(
+    textFiles.map(
+      async (attachment) =>
+        `<file name="${attachment.filename}">\n${await fetchAttachmentText(attachment)}\n</file>`
+    )
+  )
+
+  return {
+    content: [content, ...files].join('\n\n'),
+    attachments: attachments.filter(
+      (attachment) => !textFiles.includes(attachment)
+    ),
+  }
+}
+
+/**
+ * Convert an assembled message to the AI SDK format
+ * Models without vision get a note in place of each image or PDF.
+ */
+export function toCoreMessage(
+  message: ContextMessage,
+  supportsVision: boolean
+): CoreMessage {
+  if (message.role === 'assistant' || !message.attachments?.length) {
+    return { role: message.role, content: message.content }
+  }
+
+  if (!supportsVision) {
+    const notes = message.attachments.map(
+      (attachment) =>
+        `[Attached ${attachment.filename}, which this model can't read]`
+    )
+    return {
+      role: 'user',
+      content: [message.content, ...notes].join('\n\n'),
+    }
+  }
+
+  return {
+    role: 'user',
+    content: [
+      { type: 'text', text: message.content },
+      ...message.attachments.map((attachment): ImagePart | FilePart =>
+        ATTACHMENT_KINDS[attachment.mediaType] === 'image'
+          ? {
+              type: 'image',
+              image: new URL(attachment.url),
+              mimeType: attachment.mediaType,
+            }
+          : {
+              type: 'file',
+              data: new URL(attachment.url),
+              mimeType: attachment.mediaType,
+              filename: attachment.filename,
+            }
+      ),
+    ],
+  }
+}
@@ -0,0 +1,253 @@
+// Context Window Management for T3Chat
+// Fits a thread into the model's context window. The system prompt and the
+// reserved output budget are set aside first, then the newest turns are kept.
+// Turns that no longer fit are folded into a rolling summary cached on the
+// thread, so each request only summarizes what dropped out since the last.
+
+import { generateText } from 'ai'
+import type { Doc, Id } from '@/convex/_generated/dataModel'
+import type { MessageAttachment } from '@/lib/attachments/types'
+import { estimateAttachmentTokens } from './attachments'
+import { resolveModel } from './providers'
+import { countMessageTokens, countTokens } from './tokenizer'
+import { AvailableModel, ContextLengthError } from './types'
+
+// Cheap catalog model used for summaries (override with SUMMARY_MODEL)
+const DEFAULT_SUMMARY_MODEL = 'gpt-4o-mini'
+const MAX_SUMMARY_TOKENS = 1024
+// Room for the summary in the window, allowing for tokenizer differences
+// between the summary model and the chat model
+const SUMMARY_RESERVE_TOKENS = Math.ceil(MAX_SUMMARY_TOKENS * 1.25)
+const MAX_SUMMARY_INPUT_TOKENS = 16000
+const MAX_SUMMARY_MESSAGE_LENGTH = 8000
+
+// Never reserve more than this share of the window for the reply
+const MAX_OUTPUT_SHARE = 0.5
+
+const SUMMARY_SYSTEM_PROMPT = `You condense chat conversations so they can be continued without the original messages.
+Summarize the user's goals, facts and preferences they shared, decisions made, code or data later messages may refer to, and open questions.
+When a previous summary is given, merge it with the new messages into one updated summary.
+Use the language of the conversation. Reply with the summary only.`
+
+export type ContextSummary = NonNullable<Doc<'threads'>['contextSummary']>
+
+export interface ContextMessage {
+  id?: Id<'messages'> // Unset for the message being sent
+  role: 'user' | 'assistant'
+  content: string
+  attachments?: MessageAttachment[] // Images and PDFs; text files are inlined
+}
+
+export interface AssembledContext {
+  system: string // System prompt, plus the summary when turns were dropped
+  messages: ContextMessage[]
+  promptTokens: number
+  maxOutputTokens: number // Output budget reserved in the window
+  summary: ContextSummary | null // Null when the whole thread fits
+  summaryChanged: boolean // The thread's cached summary needs writing
+}
+
+/**
+ * Output tokens to reserve for the reply
+ */
+export function getReservedOutputTokens(
+  config: Pick<AvailableModel, 'contextLength' | 'maxOutputTokens'>
+): number {
+  return Math.min(
+    config.maxOutputTokens,
+    Math.floor(config.contextLength * MAX_OUTPUT_SHARE)
+  )
+}
+
+// Prompt tokens for a request, with attachments at their flat estimate
+function countContextTokens(
+  messages: ContextMessage[],
+  model: string,
+  system?: string
+): number {
+  return messages.reduce(
+    (total, message) => total + estimateAttachmentTokens(message.attachments),
+    countMessageTokens(messages, model, system)
+  )
+}
+
+/**
+ * Append the summary of dropped turns to the system prompt
+ */
+function withSummary(systemPrompt: string, summary: string): string {
+  if (!summary) return systemPrompt
+  return `${systemPrompt}
+
+## Earlier conversation
+The oldest messages of this conversation no longer fit in your context window. This is a summary of them:
+${summary}`
+}
+
+/**
+ * Summarize turns, folding in the previous summary
+ * Returns null when no summary model is available or generation fails
+ */
+export async function summarizeTurns(
+  turns: ContextMessage[],
+  previousSummary?: string
+): Promise<string | null> {
+  try {
+    const resolved = await resolveModel(
+      process.env.SUMMARY_MODEL || DEFAULT_SUMMARY_MODEL
+    )
+
+    // Keep the newest turns when the input is too long to summarize at once
+    const lines: string[] = []
+    let inputTokens = countTokens(previousSummary ?? '', resolved.modelId)
+    for (const turn of [...turns].reverse()) {
+      const files = (turn.attachments ?? []).map(
+        (attachment) => `\n[Attached ${attachment.filename}]`
+      )
+      const line = `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content.slice(0, MAX_SUMMARY_MESSAGE_LENGTH)}${files.join('')}`
+      inputTokens += countTokens(line, resolved.modelId)
+      if (inputTokens > MAX_SUMMARY_INPUT_TOKENS && lines.length > 0) break
+      lines.unshift(line)
+    }
+
+    const transcript = lines.join('\n\n')
+    const { text } = await generateText({
+      model: resolved.model,
+      system: SUMMARY_SYSTEM_PROMPT,
+      prompt: previousSummary
+        ? `Previous summary:\n${previousSummary}\n\nNew messages:\n${transcript}`
+        : transcript,
+      maxTokens: MAX_SUMMARY_TOKENS,
+      temperature: 0.2,
+    })
+
+    return text.trim() || null
+  } catch (error) {
+    console.error('❌ Context summary failed:', error)
+    return null
+  }
+}
+
+/**
+ * Prompt tokens a request will use, without summarizing anything
+ * The whole thread when it fits, otherwise the window's prompt budget.
+ */
+export function estimatePromptTokens({
+  systemPrompt,
+  messages,
+  config,
+}: {
+  systemPrompt: string
+  messages: ContextMessage[]
+  config: Pick<AvailableModel, 'modelId' | 'contextLength' | 'maxOutputTokens'>
+}): number {
+  return Math.min(
+    countContextTokens(messages, config.modelId, systemPrompt),
+    config.contextLength - getReservedOutputTokens(config)
+  )
+}
+
+/**
+ * Fit the system prompt, history and reserved output into the model's window
+ * Keeps the newest turns and summarizes the rest, reusing the thread's cached
+ * summary when it still covers a prefix of the dropped turns. Throws
+ * ContextLengthError when the newest message alone is too long.
+ */
+export async function assembleContext({
+  systemPrompt,
+  messages,
+  config,
+  cachedSummary,
+}: {
+  systemPrompt: string
+  messages: ContextMessage[]
+  config: Pick<AvailableModel, 'modelId' | 'contextLength' | 'maxOutputTokens'>
+  cachedSummary?: ContextSummary
+}): Promise<AssembledContext> {
+  const model = config.modelId
+  const maxOutputTokens = getReservedOutputTokens(config)
+  const budget = config.contextLength - maxOutputTokens
+
+  const promptTokens = countContextTokens(messages, model, systemPrompt)
+  if (promptTokens <= budget) {
+    return {
+      system: systemPrompt,
+      messages,
+      promptTokens,
+      maxOutputTokens,
+      summary: null,
+      summaryChanged: !!cachedSummary,
+    }
+  }
+
+  // Keep the newest turns, leaving room for the summary
+  const messageTokens = (message: ContextMessage) =>
+    countContextTokens([message], model) - countMessageTokens([], model)
+  const available =
+    budget -
+    countMessageTokens([], model, withSummary(systemPrompt, ' ')) -
+    SUMMARY_RESERVE_TOKENS
+
+  let start = messages.length
+  let used = 0
+  while (start > 0) {
+    const tokens = messageTokens(messages[start - 1])
+    if (used + tokens > available) break
+    used += tokens
+    start--
+  }
+
+  if (start === messages.length) {
+    throw new ContextLengthError(
+      `Message is too long for this model's ${config.contextLength.toLocaleString('en-US')}-token context window`,
+      config.contextLength
+    )
+  }
+
+  // Start on a user turn; some providers reject a leading assistant message
+  while (start < messages.length - 1 && messages[start].role !== 'user') {
+    start++
+  }
+
+  const dropped = messages.slice(0, start)
+  const kept = messages.slice(start)
+  const throughMessageId = dropped[dropped.length - 1].id!
+
+  let summary: ContextSummary
+  let summaryChanged = true
+  const cachedIndex = cachedSummary?.content
+    ? dropped.findIndex((msg) => msg.id === cachedSummary.throughMessageId)
+    : -1
+
+  if (cachedSummary && cachedIndex === dropped.length - 1) {
+    // Nothing new dropped out since the last request
+    summary = cachedSummary
+    summaryChanged = false
+  } else {
+    // Roll forward while the cached summary covers a prefix of the dropped
+    // turns; start over after edits or when a larger window keeps turns it
+    // covered. A failed summary keeps the previous one rather than nothing.
+    const previous = cachedIndex === -1 ? undefined : cachedSummary!.content
+    const content =
+      (await summarizeTurns(dropped.slice(cachedIndex + 1), previous)) ??
+      previous ??
+      ''
+
+    summary = {
+      content,
+      throughMessageId,
+      tokenCount: countTokens(content, model),
+      model,
+      updatedAt: Date.now(),
+    }
+  }
+
+  const system = withSummary(systemPrompt, summary.content)
+  return {
+    system,
+    messages: kept,
+    promptTokens: countContextTokens(kept, model, system),
+    maxOutputTokens,
+    summary,
+    summaryChanged,
+  }
+}
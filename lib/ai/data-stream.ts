@@ -0,0 +1,54 @@
+// Client-side reader for AI SDK data streams
+// Shared by the chat composer (stream route) and stream resumption (resume
+// route), which both speak the toDataStreamResponse protocol
+
+import { processDataStream } from 'ai'
+
+export interface DataStreamResult {
+  tokenIndex: number // Cursor after the last text received
+  finishReason?: string
+  error?: string
+  interrupted: boolean // Connection ended before a finish part arrived
+}
+
+interface ReadDataStreamOptions {
+  cursor?: number // Text offset the stream starts at (for resumed streams)
+  onText?: (text: string) => void
+}
+
+/**
+ * Read a data stream response to the end
+ * The returned tokenIndex counts the characters of text received, so it can
+ * be passed back to the resume route as the cursor.
+ */
+export async function readDataStream(
+  response: Response,
+  { cursor = 0, onText }: ReadDataStreamOptions = {}
+): Promise<DataStreamResult> {
+  const result: DataStreamResult = { tokenIndex: cursor, interrupted: false }
+
+  if (!response.body) {
+    return { ...result, interrupted: true }
+  }
+
+  try {
+    await processDataStream({
+      stream: response.body,
+      onTextPart: (text) => {
+        result.tokenIndex += text.length
+        onText?.(text)
+      },
+      onErrorPart: (error) => {
+        result.error = error
+      },
+      onFinishMessagePart: ({ finishReason }) => {
+        result.finishReason = finishReason
+      },
+    })
+  } catch (error) {
+    console.warn('⚠️ Data stream interrupted:', error)
+  }
+
+  result.interrupted = !result.finishReason
+  return result
+}
@@ -0,0 +1,264 @@
+// AI Provider Registry for T3Chat
+// Resolves availableModels.provider + modelId into AI SDK language models
+
+import { ConvexHttpClient } from 'convex/browser'
+import { createAnthropic } from '@ai-sdk/anthropic'
+import { createDeepSeek } from '@ai-sdk/deepseek'
+import { createGoogleGenerativeAI } from '@ai-sdk/google'
+import { createMistral } from '@ai-sdk/mistral'
+import { createOpenAI } from '@ai-sdk/openai'
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
+import { api } from '@/convex/_generated/api'
+import { ApiKeyService } from '@/lib/api-keys/service'
+import {
+  ModelResolutionError,
+  ProviderDefinition,
+  ProviderId,
+  ProviderOptions,
+  ReasoningEffort,
+  ResolveModelOptions,
+  ResolvedModel,
+} from './types'
+
+const convexClient = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!)
+
+// Thinking token budgets for providers that take a budget instead of a level
+const THINKING_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 2048,
+  medium: 8192,
+  high: 24576,
+}
+const MIN_THINKING_BUDGET = 1024
+
+const providers = new Map<ProviderId, ProviderDefinition>()
+
+/**
+ * Normalize a provider name from the model catalog ("DeepSeek", "OpenAI")
+ * into a registry key ("deepseek", "openai")
+ */
+export function normalizeProviderId(provider: string): ProviderId {
+  return provider.trim().toLowerCase().replace(/\s+/g, '-')
+}
+
+/**
+ * Register (or replace) a provider in the registry
+ */
+export function registerProvider(definition: ProviderDefinition): void {
+  providers.set(normalizeProviderId(definition.id), definition)
+}
+
+/**
+ * Register any OpenAI-compatible endpoint (local mock server, vLLM, Ollama,
+ * Groq, Together...) as a provider. Endpoint and key are read from env at
+ * request time so they can be changed without a code change.
+ */
+export function registerOpenAICompatibleProvider(config: {
+  id: ProviderId
+  name: string
+  baseURLEnv: string
+  apiKeyEnv?: string
+}): void {
+  registerProvider({
+    id: config.id,
+    name: config.name,
+    baseURLEnv: config.baseURLEnv,
+    supportsNativeWebSearch: false,
+    createModel: (modelId, options) =>
+      createOpenAICompatible({
+        name: normalizeProviderId(config.id),
+        baseURL: options.baseURL || process.env[config.baseURLEnv]!,
+        apiKey:
+          options.apiKey ||
+          (config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined),
+      })(modelId),
+  })
+}
+
+export function getProvider(provider: string): ProviderDefinition | undefined {
+  return providers.get(normalizeProviderId(provider))
+}
+
+export function listProviders(): ProviderDefinition[] {
+  return Array.from(providers.values())
+}
+
+/**
+ * Check whether a provider has the credentials/endpoint it needs,
+ * either from the request options or from platform env vars
+ */
+export function isProviderConfigured(
+  provider: ProviderDefinition,
+  options: ProviderOptions = {}
+): boolean {
+  if (provider.baseURLEnv && !options.baseURL) {
+    if (!process.env[provider.baseURLEnv]) return false
+  }
+
+  if (provider.apiKeyEnv && !options.apiKey) {
+    if (!process.env[provider.apiKeyEnv]) return false
+  }
+
+  return true
+}
+
+/**
+ * Resolve a catalog model ID into an AI SDK language model
+ * Rejects unknown, disabled and deprecated models. When a userId is given
+ * and the user has a valid key for the provider, that key is used instead
+ * of the platform key.
+ */
+export async function resolveModel(
+  modelId: string,
+  { userId, ...providerOptions }: ResolveModelOptions = {}
+): Promise<ResolvedModel> {
+  const config = await convexClient.query(api.availableModels.getByModelId, {
+    modelId,
+  })
+
+  if (!config) {
+    throw new ModelResolutionError(
+      `Unknown model: ${modelId}`,
+      'MODEL_NOT_FOUND'
+    )
+  }
+
+  if (config.deprecatedAt && config.deprecatedAt <= Date.now()) {
+    throw new ModelResolutionError(
+      `${config.displayName} has been deprecated`,
+      'MODEL_DEPRECATED'
+    )
+  }
+
+  if (!config.enabled) {
+    throw new ModelResolutionError(
+      `${config.displayName} is currently disabled`,
+      'MODEL_DISABLED'
+    )
+  }
+
+  const provider = getProvider(config.provider)
+  if (!provider) {
+    throw new ModelResolutionError(
+      `No provider registered for ${config.provider}`,
+      'PROVIDER_NOT_FOUND'
+    )
+  }
+
+  const userKey = userId
+    ? await ApiKeyService.getActiveKey(userId, normalizeProviderId(provider.id))
+    : null
+  const options: ProviderOptions = userKey
+    ? { ...providerOptions, apiKey: userKey.apiKey }
+    : providerOptions
+
+  if (!isProviderConfigured(provider, options)) {
+    throw new ModelResolutionError(
+      `${provider.name} is not configured on this server`,
+      'PROVIDER_NOT_CONFIGURED'
+    )
+  }
+
+  const providerModelId = config.providerModelId || config.modelId
+
+  return {
+    model: provider.createModel(providerModelId, options),
+    modelId: config.modelId,
+    providerModelId,
+    provider,
+    config,
+    apiKeyId: userKey?.id,
+  }
+}
+
+// Built-in providers
+registerProvider({
+  id: 'openai',
+  name: 'OpenAI',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  supportsNativeWebSearch: true,
+  createModel: (modelId, options) =>
+    createOpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    }).responses(modelId),
+  // The summary is the only reasoning text the Responses API returns
+  getReasoningOptions: (effort) => ({
+    openai: { reasoningEffort: effort, reasoningSummary: 'auto' },
+  }),
+})
+
+registerProvider({
+  id: 'anthropic',
+  name: 'Anthropic',
+  apiKeyEnv: 'ANTHROPIC_API_KEY',
+  supportsNativeWebSearch: false,
+  createModel: (modelId, options) =>
+    createAnthropic({ apiKey: options.apiKey, baseURL: options.baseURL })(
+      modelId
+    ),
+  // The budget counts toward max tokens, so leave room for the answer
+  getReasoningOptions: (effort, { maxOutputTokens }) => ({
+    anthropic: {
+      thinking: {
+        type: 'enabled',
+        budgetTokens: Math.max(
+          MIN_THINKING_BUDGET,
+          Math.min(THINKING_BUDGETS[effort], Math.floor(maxOutputTokens / 2))
+        ),
+      },
+    },
+  }),
+})
+
+registerProvider({
+  id: 'google',
+  name: 'Google',
+  apiKeyEnv: 'GOOGLE_GENERATIVE_AI_API_KEY',
+  supportsNativeWebSearch: false,
+  createModel: (modelId, options) =>
+    createGoogleGenerativeAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    })(modelId),
+  getReasoningOptions: (effort) => ({
+    google: { thinkingConfig: { thinkingBudget: THINKING_BUDGETS[effort] } },
+  }),
+})
+
+registerProvider({
+  id: 'deepseek',
+  name: 'DeepSeek',
+  apiKeyEnv: 'DEEPSEEK_API_KEY',
+  supportsNativeWebSearch: false,
+  createModel: (modelId, options) =>
+    createDeepSeek({ apiKey: options.apiKey, baseURL: options.baseURL })(
+      modelId
+    ),
+})
+
+registerProvider({
+  id: 'mistral',
+  name: 'Mistral',
+  apiKeyEnv: 'MISTRAL_API_KEY',
+  supportsNativeWebSearch: false,
+  createModel: (modelId, options) =>
+    createMistral({ apiKey: options.apiKey, baseURL: options.baseURL })(
+      modelId
+    ),
+})
+
+// Llama models are served by any OpenAI-compatible host (Groq, Together...)
+registerOpenAICompatibleProvider({
+  id: 'meta',
+  name: 'Meta',
+  baseURLEnv: 'LLAMA_BASE_URL',
+  apiKeyEnv: 'LLAMA_API_KEY',
+})
+
+// Local OpenAI-compatible endpoint (mock server, Ollama, LM Studio...); these
+// servers take no key, so only the endpoint needs to be set
+registerOpenAICompatibleProvider({
+  id: 'local',
+  name: 'Local',
+  baseURLEnv: 'LOCAL_AI_BASE_URL',
+})
@@ -0,0 +1,216 @@
+// Deep Research for T3Chat
+// Research mode answers a question in three phases: plan sub-questions,
+// search and read sources through the configured search backend (as tool
+// calls, so they show up on the reply as they run), then write a report
+// that cites those sources. Progress and sources are stored on the reply.
+
+import { generateObject, LanguageModel, tool } from 'ai'
+import { ConvexHttpClient } from 'convex/browser'
+import { z } from 'zod'
+import { api } from '@/convex/_generated/api'
+import { Id } from '@/convex/_generated/dataModel'
+import {
+  DEFAULT_SEARCH_LIMIT,
+  ResearchState,
+  SearchBackend,
+} from '@/lib/search/types'
+import { SourceRecorder } from './streaming'
+import { ExecutableToolSet } from './types'
+import { fetchPageText } from './web-fetch'
+
+// Model calls per research turn (search and read rounds + the report)
+export const MAX_RESEARCH_STEPS = 12
+
+const MAX_RESEARCH_QUESTIONS = 4
+const MAX_PLAN_TOKENS = 512
+const MAX_QUESTION_LENGTH = 4000
+const MAX_SOURCE_LENGTH = 8000
+
+const PLAN_SYSTEM_PROMPT = `You plan web research.
+Break the user's question into at most ${MAX_RESEARCH_QUESTIONS} focused sub-questions that together cover what a thorough answer needs.
+Each sub-question must work as a search query on its own. Use the language of the question.`
+
+/**
+ * Append the research instructions and plan to a turn's system prompt
+ */
+export function buildResearchPrompt(
+  systemPrompt: string,
+  questions: string[]
+): string {
+  const plan = questions
+    .map((question, index) => `${index + 1}. ${question}`)
+    .join('\n')
+
+  return `${systemPrompt}
+
+## Research mode
+Answer the user's latest message with a research report. Research plan:
+${plan}
+
+Use the search tool for each sub-question and read_source to read the most relevant results; search again with other words when results are thin. Do not write any text until you have finished researching.
+Then write a well-structured markdown report. Cite sources inline as [n] using the source numbers from the tool results, only for claims those sources support, and say so when they don't answer part of the question. End with a "Sources" section listing each cited source as [n] Title - URL.`
+}
+
+export interface ResearchRun {
+  plan: (question: string, model: LanguageModel) => Promise<string[]>
+  tools: ExecutableToolSet
+  markWriting: () => void
+  finish: () => Promise<void>
+}
+
+/**
+ * Create the state of one research turn: its plan and its search and read
+ * tools, which number what they find through the reply's source recorder
+ * Every change rewrites the reply's research progress; writes are serialized
+ * like tool call writes, and a failed write doesn't stop the run.
+ */
+export function createResearchRun(
+  convex: ConvexHttpClient,
+  {
+    messageId,
+    userId,
+    backend,
+    sources,
+    abortSignal,
+  }: {
+    messageId: Id<'messages'>
+    userId: string
+    backend: SearchBackend
+    sources: SourceRecorder
+    abortSignal?: AbortSignal
+  }
+): ResearchRun {
+  const state: ResearchState = { questions: [], status: 'planning' }
+  let chain: Promise<void> = Promise.resolve()
+
+  const save = () => {
+    const research = { ...state, questions: [...state.questions] }
+    chain = chain
+      .then(async () => {
+        await convex.mutation(api.messages.setResearch, {
+          messageId,
+          userId,
+          research,
+        })
+      })
+      .catch((error) => {
+        console.error(
+          `❌ Failed to persist research for message ${messageId}:`,
+          error
+        )
+      })
+  }
+
+  const plan = async (question: string, model: LanguageModel) => {
+    save()
+
+    try {
+      const { object } = await generateObject({
+        model,
+        system: PLAN_SYSTEM_PROMPT,
+        prompt: question.slice(0, MAX_QUESTION_LENGTH),
+        schema: z.object({
+          questions: z.array(z.string()).describe('Research sub-questions'),
+        }),
+        maxTokens: MAX_PLAN_TOKENS,
+        abortSignal,
+      })
+      state.questions = object.questions
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .slice(0, MAX_RESEARCH_QUESTIONS)
+    } catch (error) {
+      if (!abortSignal?.aborted) {
+        console.error('❌ Research planning failed:', error)
+      }
+    }
+
+    // Without a plan, research the question as asked
+    if (state.questions.length === 0) {
+      state.questions = [question.trim().slice(0, 200)]
+    }
+
+    state.status = 'searching'
+    save()
+    return state.questions
+  }
+
+  const tools: ExecutableToolSet = {
+    search: tool({
+      description: `Search the web (${backend.label}). Returns numbered sources to read and cite.`,
+      parameters: z.object({
+        query: z.string().min(1).describe('A focused search query'),
+      }),
+      // Failures go back to the model as a result it can work around
+      execute: async ({ query }) => {
+        try {
+          const results = await backend.search(query, {
+            limit: DEFAULT_SEARCH_LIMIT,
+            signal: abortSignal,
+          })
+          const numbers = sources.add(results)
+          return {
+            results: results.map((result, index) => ({
+              source: numbers[index],
+              ...result,
+            })),
+          }
+        } catch (error) {
+          return {
+            error: error instanceof Error ? error.message : String(error),
+          }
+        }
+      },
+    }),
+    read_source: tool({
+      description: 'Read the text of a source found by search.',
+      parameters: z.object({
+        source: z
+          .number()
+          .int()
+          .min(1)
+          .describe('The source number from the search results'),
+      }),
+      execute: async ({ source }) => {
+        const entry = sources.list()[source - 1]
+        if (!entry) {
+          return { error: `There is no source ${source}` }
+        }
+
+        try {
+          const fetchPage = backend.fetchPage ?? fetchPageText
+          const page = await fetchPage(entry.url, {
+            signal: abortSignal,
+            maxLength: MAX_SOURCE_LENGTH,
+          })
+          return {
+            source,
+            title: page.title ?? entry.title,
+            url: page.url,
+            content: page.content,
+            truncated: page.truncated,
+          }
+        } catch (error) {
+          return {
+            error: error instanceof Error ? error.message : String(error),
+          }
+        }
+      },
+    }),
+  }
+
+  return {
+    plan,
+    tools,
+    markWriting: () => {
+      if (state.status !== 'searching') return
+      state.status = 'writing'
+      save()
+    },
+    finish: () => {
+      state.status = 'done'
+      save()
+      return chain
+    },
+  }
+}
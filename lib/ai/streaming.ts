@@ -0,0 +1,325 @@
+// Server-side stream persistence for T3Chat
+// Buffers tokens from streamText and flushes them to the streamingTasks row
+// in small batches, so a reply survives the client going away. Also tracks
+// the AbortController of every task running in this process and records
+// reasoning, tool calls and cited sources onto the reply as they happen.
+
+import type { TextStreamPart } from 'ai'
+import { ConvexHttpClient } from 'convex/browser'
+import { api } from '@/convex/_generated/api'
+import { Doc, Id } from '@/convex/_generated/dataModel'
+import type { Source } from '@/lib/search/types'
+import { countTokens } from './tokenizer'
+import type { ExecutableToolSet } from './types'
+
+const FLUSH_INTERVAL_MS = 150
+// Reasoning rewrites the whole trace on every flush, so flush less often
+const REASONING_FLUSH_INTERVAL_MS = 500
+
+// AbortControllers for tasks streaming in this server instance
+const runningTasks = new Map<string, AbortController>()
+
+/**
+ * Register a task so it can be cancelled while it streams
+ */
+export function registerTask(taskId: string): AbortController {
+  const controller = new AbortController()
+  runningTasks.set(taskId, controller)
+  return controller
+}
+
+/**
+ * Forget a task once it has been finalized
+ */
+export function releaseTask(taskId: string): void {
+  runningTasks.delete(taskId)
+}
+
+/**
+ * Abort a task's upstream request if it runs in this instance
+ * Returns false when the task is unknown here (finished or on another
+ * instance); those tasks stop at their next token flush instead.
+ */
+export function abortTask(taskId: string): boolean {
+  const controller = runningTasks.get(taskId)
+  if (!controller) {
+    return false
+  }
+
+  controller.abort()
+  runningTasks.delete(taskId)
+  return true
+}
+
+export interface TokenWriter {
+  push: (token: string) => void
+  flush: () => Promise<void>
+}
+
+/**
+ * Create a writer that appends tokens to a streaming task
+ * Flushes are serialized so tokens land in order; a failed flush is logged
+ * and does not stop generation. onCancelled fires when a flush finds the
+ * task was cancelled from elsewhere.
+ */
+export function createTokenWriter(
+  convex: ConvexHttpClient,
+  taskId: string,
+  onCancelled?: () => void
+): TokenWriter {
+  let pending: string[] = []
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let chain: Promise<void> = Promise.resolve()
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+
+    if (pending.length > 0) {
+      const tokens = pending
+      pending = []
+      chain = chain
+        .then(async () => {
+          const result = await convex.mutation(
+            api.streamingTasks.appendTokens,
+            { taskId, tokens }
+          )
+          if (result.cancelled) {
+            onCancelled?.()
+          }
+        })
+        .catch((error) => {
+          console.error(
+            `❌ Failed to persist tokens for task ${taskId}:`,
+            error
+          )
+        })
+    }
+
+    return chain
+  }
+
+  const push = (token: string) => {
+    pending.push(token)
+    if (!timer) {
+      timer = setTimeout(flush, FLUSH_INTERVAL_MS)
+    }
+  }
+
+  return { push, flush }
+}
+
+export interface ReasoningWriter {
+  push: (delta: string) => void
+  pause: () => void
+  finish: (tokenCount?: number) => Promise<void>
+}
+
+/**
+ * Create a writer that saves a reply's reasoning trace to the message
+ * The thinking clock runs from a reasoning delta until pause() (the answer
+ * started); multi-step replies that think again add to it. finish() stores
+ * the token count, counted with the model's tokenizer unless the provider
+ * reported one.
+ */
+export function createReasoningWriter(
+  convex: ConvexHttpClient,
+  {
+    messageId,
+    userId,
+    model,
+  }: { messageId: Id<'messages'>; userId: string; model: string }
+): ReasoningWriter {
+  let content = ''
+  let thinkingMs = 0
+  let thinkingSince: number | null = null
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let chain: Promise<void> = Promise.resolve()
+
+  const write = (tokenCount?: number) => {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+
+    const reasoning = {
+      content,
+      tokenCount,
+      durationMs: thinkingSince === null ? thinkingMs : undefined,
+    }
+    chain = chain
+      .then(async () => {
+        await convex.mutation(api.messages.setReasoning, {
+          messageId,
+          userId,
+          reasoning,
+        })
+      })
+      .catch((error) => {
+        console.error(
+          `❌ Failed to persist reasoning for message ${messageId}:`,
+          error
+        )
+      })
+  }
+
+  // Returns whether the clock was running
+  const stopClock = () => {
+    if (thinkingSince === null) return false
+    thinkingMs += Date.now() - thinkingSince
+    thinkingSince = null
+    return true
+  }
+
+  return {
+    push: (delta) => {
+      thinkingSince ??= Date.now()
+      content += delta
+      if (!timer) {
+        timer = setTimeout(() => write(), REASONING_FLUSH_INTERVAL_MS)
+      }
+    },
+    pause: () => {
+      if (stopClock()) write()
+    },
+    finish: (tokenCount) => {
+      if (!content) return chain
+      stopClock()
+      write(tokenCount ?? countTokens(content, model))
+      return chain
+    },
+  }
+}
+
+export type ToolCallRecord = NonNullable<Doc<'messages'>['toolCalls']>[number]
+
+// The tool-call and tool-result stream parts, as seen by onChunk
+export type ToolCallChunk = Extract<
+  TextStreamPart<ExecutableToolSet>,
+  { type: 'tool-call' | 'tool-result' }
+>
+
+// Tool arguments and results as plain JSON (drops undefined fields, which
+// Convex rejects)
+function toJsonValue(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value))
+}
+
+export interface ToolCallRecorder {
+  record: (chunk: ToolCallChunk) => void
+  flush: () => Promise<void>
+  calledTools: () => string[]
+}
+
+/**
+ * Create a recorder that saves a reply's tool calls and results
+ * Every change rewrites the whole list; writes are serialized so the last
+ * one wins, and a failed write is logged without stopping generation.
+ */
+export function createToolCallRecorder(
+  convex: ConvexHttpClient,
+  { messageId, userId }: { messageId: Id<'messages'>; userId: string }
+): ToolCallRecorder {
+  const toolCalls: ToolCallRecord[] = []
+  let chain: Promise<void> = Promise.resolve()
+
+  const record = (chunk: ToolCallChunk) => {
+    if (chunk.type === 'tool-call') {
+      toolCalls.push({
+        toolCallId: chunk.toolCallId,
+        toolName: chunk.toolName,
+        arguments: toJsonValue(chunk.args),
+      })
+    } else {
+      const call = toolCalls.find(
+        (entry) => entry.toolCallId === chunk.toolCallId
+      )
+      if (call) {
+        call.result = toJsonValue(chunk.result)
+      } else {
+        toolCalls.push({
+          toolCallId: chunk.toolCallId,
+          toolName: chunk.toolName,
+          arguments: toJsonValue(chunk.args),
+          result: toJsonValue(chunk.result),
+        })
+      }
+    }
+
+    const snapshot = toolCalls.map((call) => ({ ...call }))
+    chain = chain
+      .then(async () => {
+        await convex.mutation(api.messages.setToolCalls, {
+          messageId,
+          userId,
+          toolCalls: snapshot,
+        })
+      })
+      .catch((error) => {
+        console.error(
+          `❌ Failed to persist tool calls for message ${messageId}:`,
+          error
+        )
+      })
+  }
+
+  return {
+    record,
+    flush: () => chain,
+    calledTools: () => [...new Set(toolCalls.map((call) => call.toolName))],
+  }
+}
+
+export interface SourceRecorder {
+  add: (sources: Source[]) => number[]
+  list: () => Source[]
+  flush: () => Promise<void>
+}
+
+/**
+ * Create a recorder that numbers the sources a reply can cite and saves them
+ * Numbers are 1-based and stable for the whole turn: a page found twice
+ * keeps its first number. Writes are serialized like tool call writes.
+ */
+export function createSourceRecorder(
+  convex: ConvexHttpClient,
+  { messageId, userId }: { messageId: Id<'messages'>; userId: string }
+): SourceRecorder {
+  const sources: Source[] = []
+  let chain: Promise<void> = Promise.resolve()
+
+  const add = (found: Source[]) => {
+    const numbers = found.map((source) => {
+      const index = sources.findIndex((entry) => entry.url === source.url)
+      if (index !== -1) return index + 1
+      sources.push({
+        url: source.url,
+        title: source.title,
+        snippet: source.snippet || undefined,
+      })
+      return sources.length
+    })
+
+    const snapshot = [...sources]
+    chain = chain
+      .then(async () => {
+        await convex.mutation(api.messages.setSources, {
+          messageId,
+          userId,
+          sources: snapshot,
+        })
+      })
+      .catch((error) => {
+        console.error(
+          `❌ Failed to persist sources for message ${messageId}:`,
+          error
+        )
+      })
+
+    return numbers
+  }
+
+  return { add, list: () => [...sources], flush: () => chain }
+}
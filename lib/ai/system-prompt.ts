@@ -0,0 +1,136 @@
+// System Prompt Builder for T3Chat
+// Assembles the per-request system prompt from the user's customization
+// settings, the current date and the selected model's capabilities.
+// Pure so the customization page can preview exactly what gets sent.
+
+import { Doc } from '@/convex/_generated/dataModel'
+import { AvailableModel, ToolDefinition } from './types'
+
+// Customization fields that shape the prompt
+export type SystemPromptPreferences = Pick<
+  Doc<'userPreferences'>,
+  'displayName' | 'occupation' | 'traits' | 'additionalContext'
+>
+
+// Model fields that shape the prompt
+export type SystemPromptModel = Pick<
+  AvailableModel,
+  | 'displayName'
+  | 'provider'
+  | 'contextLength'
+  | 'supportsVision'
+  | 'supportsTools'
+  | 'isReasoning'
+>
+
+export interface SystemPromptOptions {
+  preferences?: SystemPromptPreferences | null
+  model?: SystemPromptModel | null
+  tools?: Pick<ToolDefinition, 'description'>[] // Enabled for this request
+  now?: Date
+}
+
+const BASE_PROMPT = `You are T3 Chat, a helpful AI assistant.
+Answer clearly and accurately. Use Markdown for formatting, including fenced code blocks with a language tag for code.
+If you are unsure about something, say so instead of guessing.`
+
+// Caps match the limits on the customization form
+const MAX_NAME_LENGTH = 50
+const MAX_OCCUPATION_LENGTH = 100
+const MAX_TRAITS = 50
+const MAX_TRAIT_LENGTH = 100
+const MAX_ADDITIONAL_CONTEXT_LENGTH = 3000
+
+function clean(value: string | undefined, maxLength: number): string {
+  return (value ?? '').trim().slice(0, maxLength)
+}
+
+function formatDate(now: Date): string {
+  return now.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+function buildUserSection(preferences: SystemPromptPreferences): string[] {
+  const lines: string[] = []
+
+  const name = clean(preferences.displayName, MAX_NAME_LENGTH)
+  if (name) lines.push(`- Name: ${name}`)
+
+  const occupation = clean(preferences.occupation, MAX_OCCUPATION_LENGTH)
+  if (occupation) lines.push(`- Occupation: ${occupation}`)
+
+  const additionalContext = clean(
+    preferences.additionalContext,
+    MAX_ADDITIONAL_CONTEXT_LENGTH
+  )
+  if (additionalContext) {
+    lines.push(`- Additional context from the user:\n${additionalContext}`)
+  }
+
+  return lines
+}
+
+function buildModelSection(
+  model: SystemPromptModel,
+  tools: Pick<ToolDefinition, 'description'>[]
+): string[] {
+  const lines = [
+    `- You are running as ${model.displayName} (${model.provider}) with a context window of ${model.contextLength.toLocaleString('en-US')} tokens.`,
+    model.supportsVision
+      ? '- You can read images the user attaches.'
+      : '- You cannot see images; ask the user to describe any image they mention.',
+  ]
+
+  if (model.isReasoning) {
+    lines.push('- Think through hard problems step by step before answering.')
+  }
+
+  if (model.supportsTools) {
+    for (const tool of tools) {
+      lines.push(`- ${tool.description}`)
+    }
+  }
+
+  return lines
+}
+
+/**
+ * Build the system prompt for a chat request
+ * Sections without any content are left out entirely.
+ */
+export function buildSystemPrompt({
+  preferences,
+  model,
+  tools = [],
+  now = new Date(),
+}: SystemPromptOptions): string {
+  const sections = [BASE_PROMPT, `Current date: ${formatDate(now)} (UTC).`]
+
+  if (model) {
+    sections.push(`## Model\n${buildModelSection(model, tools).join('\n')}`)
+  }
+
+  if (preferences) {
+    const userLines = buildUserSection(preferences)
+    if (userLines.length > 0) {
+      sections.push(`## About the user\n${userLines.join('\n')}`)
+    }
+
+    const traits = (preferences.traits ?? [])
+      .map((trait) => clean(trait, MAX_TRAIT_LENGTH))
+      .filter(Boolean)
+      .slice(0, MAX_TRAITS)
+    if (traits.length > 0) {
+      sections.push(
+        `## Personality\nAdopt these traits in your replies: ${traits.join(', ')}.`
+      )
+    }
+  }
+
+  return sections.join('\n\n')
+}
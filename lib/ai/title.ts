@@ -0,0 +1,87 @@
+// Thread Title Generation for T3Chat
+// Summarizes the first exchange of a thread into a short title
+
+import { generateText } from 'ai'
+import { ConvexHttpClient } from 'convex/browser'
+import { api } from '@/convex/_generated/api'
+import { resolveModel } from './providers'
+
+// Cheap catalog model used for titles (override with TITLE_MODEL)
+const DEFAULT_TITLE_MODEL = 'gpt-4o-mini'
+const MAX_TITLE_LENGTH = 80
+
+const TITLE_SYSTEM_PROMPT = `You write titles for chat conversations.
+Reply with a title of at most 6 words that captures the topic of the conversation.
+Use the language of the conversation. No quotes, no trailing punctuation, no emoji.`
+
+/**
+ * Generate a title from the first user message and reply
+ * Returns null when no title model is available or generation fails
+ */
+export async function generateTitle(
+  userMessage: string,
+  assistantReply: string
+): Promise<string | null> {
+  try {
+    const resolved = await resolveModel(
+      process.env.TITLE_MODEL || DEFAULT_TITLE_MODEL
+    )
+
+    const { text } = await generateText({
+      model: resolved.model,
+      system: TITLE_SYSTEM_PROMPT,
+      prompt: `User: ${userMessage.slice(0, 2000)}\n\nAssistant: ${assistantReply.slice(0, 2000)}`,
+      maxTokens: 24,
+      temperature: 0.3,
+    })
+
+    const title = text
+      .trim()
+      .split('\n')[0]
+      .replace(/^["'“”‘’]+|["'“”‘’.]+$/g, '')
+      .trim()
+      .slice(0, MAX_TITLE_LENGTH)
+
+    return title || null
+  } catch (error) {
+    console.error('❌ Title generation failed:', error)
+    return null
+  }
+}
+
+/**
+ * Generate and store a thread title after its first reply
+ * Skipped by Convex when the user has already renamed the thread
+ */
+export async function generateThreadTitle(
+  convex: ConvexHttpClient,
+  {
+    threadId,
+    userId,
+    userMessage,
+    assistantReply,
+  }: {
+    threadId: string
+    userId: string
+    userMessage: string
+    assistantReply: string
+  }
+): Promise<void> {
+  const title = await generateTitle(userMessage, assistantReply)
+  if (!title) return
+
+  try {
+    const result = await convex.mutation(api.threads.updateTitle, {
+      threadId,
+      userId,
+      title,
+      generated: true,
+    })
+
+    if (result.success) {
+      console.log(`🏷️ Titled thread ${threadId}: ${title}`)
+    }
+  } catch (error) {
+    console.error(`❌ Failed to save title for thread ${threadId}:`, error)
+  }
+}
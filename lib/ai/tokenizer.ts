@@ -0,0 +1,139 @@
+// Token Counting for T3Chat
+// Counts tokens locally with the BPE encoder closest to each model family.
+// OpenAI models use their own encoders; other providers don't publish a
+// JS tokenizer, so they use the nearest vocabulary with a calibration
+// scale. Models outside every family fall back to a deterministic
+// character-class estimate.
+
+import { Tiktoken } from 'js-tiktoken/lite'
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base'
+import o200k_base from 'js-tiktoken/ranks/o200k_base'
+
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base'
+
+export interface TokenizerFamily {
+  name: string
+  pattern: RegExp // Matches catalog and upstream model IDs
+  encoding: TokenizerEncoding
+  scale: number // Tokens per encoder token for this family
+}
+
+// First match wins, so more specific prefixes come first
+export const TOKENIZER_FAMILIES: TokenizerFamily[] = [
+  {
+    name: 'openai-o200k',
+    pattern: /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o1|o3|o4)/,
+    encoding: 'o200k_base',
+    scale: 1,
+  },
+  {
+    name: 'openai-cl100k',
+    pattern: /^(gpt-4|gpt-3\.5)/,
+    encoding: 'cl100k_base',
+    scale: 1,
+  },
+  // Claude's vocabulary is smaller than cl100k and splits code more finely
+  { name: 'claude', pattern: /^claude/, encoding: 'cl100k_base', scale: 1.15 },
+  // SentencePiece with a 256k vocabulary, close to o200k in practice
+  { name: 'gemini', pattern: /^gemini/, encoding: 'o200k_base', scale: 1 },
+  // Llama 3 extends cl100k, DeepSeek V3 is a 128k BPE of similar density
+  { name: 'llama', pattern: /^llama-?3/, encoding: 'cl100k_base', scale: 1 },
+  {
+    name: 'deepseek',
+    pattern: /^deepseek/,
+    encoding: 'cl100k_base',
+    scale: 1.05,
+  },
+  // Tekken is a tiktoken-style BPE trained for multilingual text
+  { name: 'mistral', pattern: /^mistral/, encoding: 'o200k_base', scale: 1 },
+]
+
+// Chat formatting overhead (role markers and separators)
+const TOKENS_PER_MESSAGE = 4
+const TOKENS_PER_REPLY = 3
+
+// One CJK character, a run of other letters, a run of digits, a newline
+// or a single symbol
+const CJK =
+  '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}'
+const FALLBACK_PIECES = new RegExp(
+  `[${CJK}]|(?:(?![${CJK}])\\p{L})+|\\p{N}+|\\n|[^\\s\\p{L}\\p{N}]`,
+  'gu'
+)
+
+const RANKS = { o200k_base, cl100k_base }
+const encoders = new Map<TokenizerEncoding, Tiktoken>()
+
+// Building an encoder parses its rank table, so each is built once
+function getEncoder(encoding: TokenizerEncoding): Tiktoken {
+  let encoder = encoders.get(encoding)
+  if (!encoder) {
+    encoder = new Tiktoken(RANKS[encoding])
+    encoders.set(encoding, encoder)
+  }
+  return encoder
+}
+
+/**
+ * The tokenizer family for a model, or null when none is known
+ */
+export function getTokenizerFamily(model?: string): TokenizerFamily | null {
+  if (!model) return null
+  const id = model.toLowerCase().split('/').pop()!
+  return TOKENIZER_FAMILIES.find((family) => family.pattern.test(id)) ?? null
+}
+
+/**
+ * Deterministic estimate for models without a known encoder
+ * CJK characters count as a token each, words as one per 4 characters,
+ * digit runs as one per 3 and every symbol as its own token.
+ */
+export function estimateTokensFallback(text: string): number {
+  let tokens = 0
+  const pieces = text.match(FALLBACK_PIECES) ?? []
+
+  for (const piece of pieces) {
+    if (/^\p{N}/u.test(piece)) {
+      tokens += Math.ceil(piece.length / 3)
+    } else if (/^\p{L}/u.test(piece)) {
+      // A lone CJK character is a token of its own
+      tokens += Math.ceil(piece.length / 4)
+    } else {
+      tokens += 1
+    }
+  }
+  return tokens
+}
+
+/**
+ * Count the tokens in a piece of text for a model
+ */
+export function countTokens(text: string, model?: string): number {
+  if (!text) return 0
+
+  const family = getTokenizerFamily(model)
+  if (!family) return estimateTokensFallback(text)
+
+  // Special-token text in user content is encoded as plain text
+  const count = getEncoder(family.encoding).encode(text, [], []).length
+  return Math.ceil(count * family.scale)
+}
+
+/**
+ * Count the prompt tokens for a chat request, including per-message
+ * formatting overhead
+ */
+export function countMessageTokens(
+  messages: { role: string; content: string }[],
+  model?: string,
+  system?: string
+): number {
+  const all = system
+    ? [{ role: 'system', content: system }, ...messages]
+    : messages
+  return all.reduce(
+    (total, message) =>
+      total + TOKENS_PER_MESSAGE + countTokens(message.content, model),
+    TOKENS_PER_REPLY
+  )
+}
@@ -0,0 +1,170 @@
+// Tool Registry for T3Chat
+// Tools the model can call during a chat turn. Requests opt into tools by
+// name; only models with availableModels.supportsTools get any, and a tool
+// can further limit itself to providers that can run it.
+
+import { tool } from 'ai'
+import { z } from 'zod'
+import { RateLimitService } from '@/lib/rate-limiting/service'
+import { getSearchBackend } from '@/lib/search/backends'
+import {
+  AvailableModel,
+  ExecutableToolSet,
+  ProviderDefinition,
+  ResolvedModel,
+  ToolContext,
+  ToolDefinition,
+} from './types'
+import { fetchPageText } from './web-fetch'
+
+const tools = new Map<string, ToolDefinition>()
+
+/**
+ * Register (or replace) a tool in the registry
+ */
+export function registerTool(definition: ToolDefinition): void {
+  tools.set(definition.name, definition)
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return tools.get(name)
+}
+
+export function listTools(): ToolDefinition[] {
+  return Array.from(tools.values())
+}
+
+/**
+ * Tools a model can use: none without tool support, otherwise every tool
+ * its provider can run
+ */
+export function getAvailableTools(
+  config: Pick<AvailableModel, 'supportsTools'>,
+  provider: ProviderDefinition
+): ToolDefinition[] {
+  if (!config.supportsTools) return []
+  return listTools().filter(
+    (definition) => definition.isAvailable?.(provider) ?? true
+  )
+}
+
+/**
+ * The requested tools this model can use
+ * Unknown and unavailable names are skipped.
+ */
+export function selectTools(
+  names: string[],
+  resolved: Pick<ResolvedModel, 'config' | 'provider'>
+): ToolDefinition[] {
+  return getAvailableTools(resolved.config, resolved.provider).filter(
+    (definition) => names.includes(definition.name)
+  )
+}
+
+/**
+ * Instantiate tools for streamText (undefined when there are none)
+ */
+export function createToolSet(
+  definitions: ToolDefinition[],
+  context: ToolContext
+): ExecutableToolSet | undefined {
+  if (definitions.length === 0) return undefined
+
+  return Object.fromEntries(
+    definitions.map((definition) => [
+      definition.name,
+      definition.create(context),
+    ])
+  )
+}
+
+/**
+ * Credit charges (TOOL_CREDIT_COSTS keys) for a turn's tools
+ * Without calledTools (estimates) every enabled tool is charged; otherwise
+ * only the ones the model called.
+ */
+export function getToolCreditKeys(
+  definitions: ToolDefinition[],
+  calledTools?: string[]
+): string[] {
+  return definitions
+    .filter(
+      (definition) => !calledTools || calledTools.includes(definition.name)
+    )
+    .map((definition) => definition.creditKey)
+}
+
+// Built-in tools
+registerTool({
+  name: 'web_search',
+  label: 'Web search',
+  description:
+    'You can search the web for current information with the web_search tool. Cite the results you use inline as [n] with their source numbers.',
+  creditKey: 'search',
+  create: ({ userId, sources, abortSignal }) =>
+    tool({
+      description:
+        'Search the web. Returns numbered sources with a snippet of each.',
+      parameters: z.object({
+        query: z.string().min(1).describe('The search query'),
+      }),
+      execute: async ({ query }) => {
+        try {
+          // Every search counts against the tier's search quota
+          const rateLimitResult = await RateLimitService.checkRateLimit(
+            userId,
+            'search'
+          )
+          if (!rateLimitResult.allowed) {
+            return { error: rateLimitResult.reason ?? 'Search limit exceeded' }
+          }
+
+          const results = await getSearchBackend().search(query, {
+            signal: abortSignal,
+          })
+          await RateLimitService.incrementUsage(userId, 'search')
+
+          // Without a recorder (nothing to cite on), number per search
+          const numbers = sources
+            ? sources.add(results)
+            : results.map((_, index) => index + 1)
+          return {
+            results: results.map((result, index) => ({
+              source: numbers[index],
+              ...result,
+            })),
+          }
+        } catch (error) {
+          return {
+            error: error instanceof Error ? error.message : String(error),
+          }
+        }
+      },
+    }),
+})
+
+registerTool({
+  name: 'fetch_url',
+  label: 'Read web pages',
+  description:
+    'You can read the text of a public web page with the fetch_url tool when the user shares a link.',
+  creditKey: 'web_fetch',
+  create: ({ abortSignal }) =>
+    tool({
+      description:
+        'Fetch a public web page and return its title and text content.',
+      parameters: z.object({
+        url: z.string().url().describe('The http(s) URL of the page'),
+      }),
+      // Failures go back to the model as a result it can explain
+      execute: async ({ url }) => {
+        try {
+          return await fetchPageText(url, { signal: abortSignal })
+        } catch (error) {
+          return {
+            error: error instanceof Error ? error.message : String(error),
+          }
+        }
+      },
+    }),
+})
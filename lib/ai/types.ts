@@ -0,0 +1,105 @@
+// AI Provider Types for T3Chat
+// Reference: docs/ai-integration.md multi-provider architecture
+
+import type { JSONValue, LanguageModelV1, Tool } from 'ai'
+import type { Doc } from '@/convex/_generated/dataModel'
+import type { SourceRecorder } from './streaming'
+
+// Model catalog entry as stored in Convex
+export type AvailableModel = Doc<'availableModels'>
+
+// Normalized provider identifiers (lowercase, matches api_keys.provider)
+export type ProviderId = string
+
+// How hard a reasoning model thinks before answering
+export const REASONING_EFFORTS = ['low', 'medium', 'high'] as const
+
+export type ReasoningEffort = (typeof REASONING_EFFORTS)[number]
+
+// Per-request provider settings (e.g. a user's own API key)
+export interface ProviderOptions {
+  apiKey?: string
+  baseURL?: string
+}
+
+// Options for resolving a catalog model for a request
+export interface ResolveModelOptions extends ProviderOptions {
+  userId?: string // Prefer this user's own valid key for the provider
+}
+
+// A provider that can turn an upstream model ID into an AI SDK model
+export interface ProviderDefinition {
+  id: ProviderId
+  name: string // Display name, e.g. "Anthropic"
+  apiKeyEnv?: string // Env var holding the platform key
+  baseURLEnv?: string // Env var holding the endpoint (OpenAI-compatible only)
+  supportsNativeWebSearch: boolean // OpenAI Responses web_search_preview
+  createModel: (modelId: string, options: ProviderOptions) => LanguageModelV1
+  // streamText providerOptions for a reasoning effort (reasoning models only)
+  getReasoningOptions?: (
+    effort: ReasoningEffort,
+    limits: { maxOutputTokens: number }
+  ) => Record<string, Record<string, JSONValue>>
+}
+
+// Result of resolving a catalog model for a request
+export interface ResolvedModel {
+  model: LanguageModelV1
+  modelId: string // Catalog ID, used for credit costs
+  providerModelId: string // ID sent to the upstream API
+  provider: ProviderDefinition
+  config: AvailableModel
+  apiKeyId?: string // Set when the request runs on the user's own key
+}
+
+// Per-request context handed to a tool when it is created
+export interface ToolContext {
+  userId: string
+  threadId?: string
+  resolved: ResolvedModel
+  abortSignal?: AbortSignal
+  sources?: SourceRecorder // Numbers and saves citable sources on the reply
+}
+
+// A tool this server runs (it has execute), so the SDK reports its results
+export type ExecutableTool = Tool & Required<Pick<Tool, 'execute'>>
+export type ExecutableToolSet = Record<string, ExecutableTool>
+
+// A tool the model can call; requests opt into tools by name
+export interface ToolDefinition {
+  name: string // Key the model calls it by
+  label: string // Display name, e.g. "Web search"
+  description: string // Added to the system prompt when enabled
+  creditKey: string // TOOL_CREDIT_COSTS entry charged when it runs
+  isAvailable?: (provider: ProviderDefinition) => boolean
+  create: (context: ToolContext) => ExecutableTool
+}
+
+// Error Types
+export type ModelResolutionErrorCode =
+  | 'MODEL_NOT_FOUND'
+  | 'MODEL_DISABLED'
+  | 'MODEL_DEPRECATED'
+  | 'PROVIDER_NOT_FOUND'
+  | 'PROVIDER_NOT_CONFIGURED'
+
+export class ModelResolutionError extends Error {
+  constructor(
+    message: string,
+    public code: ModelResolutionErrorCode
+  ) {
+    super(message)
+    this.name = 'ModelResolutionError'
+  }
+}
+
+// The newest message alone doesn't fit the model's context window
+export class ContextLengthError extends Error {
+  constructor(
+    message: string,
+    public contextLength: number
+  ) {
+    super(message)
+    this.name = 'ContextLengthError'
+  }
+}
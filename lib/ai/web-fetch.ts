@@ -0,0 +1,234 @@
+// Web Page Fetching for T3Chat
+// Reads public web pages as plain text for tools. Only http(s) URLs on
+// public hosts are fetched: every connection resolves its host through a
+// lookup that rejects private addresses and then connects to the address it
+// checked, so a name can't be re-resolved elsewhere. Redirects are followed
+// by hand so every hop is checked, and the text is capped so results fit in
+// a message.
+
+import { lookup, LookupAddress, LookupOptions } from 'dns'
+import { isIP } from 'net'
+import { Agent, fetch, Response } from 'undici'
+
+const FETCH_TIMEOUT_MS = 10_000
+const MAX_REDIRECTS = 3
+const DEFAULT_MAX_LENGTH = 20_000
+
+export interface FetchedPage {
+  url: string // Final URL after redirects
+  title?: string
+  content: string
+  truncated: boolean
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+// Loopback, private, link-local and internal-only names
+function isPrivateHostname(host: string): boolean {
+  return (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal')
+  )
+}
+
+class NotPublicHostError extends Error {
+  constructor(hostname: string) {
+    super(`${hostname} is not a public host`)
+    this.name = 'NotPublicHostError'
+  }
+}
+
+// Unspecified, loopback, private, shared, link-local, benchmarking, multicast
+// and reserved IP addresses
+function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase()
+
+  const ipv4 = ip.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    )
+  }
+
+  // IPv6 loopback, unique-local, link-local, multicast, IPv4-mapped and
+  // NAT64 addresses
+  return (
+    ip === '::' ||
+    ip === '::1' ||
+    /^f[cd][0-9a-f]{2}:/.test(ip) ||
+    /^fe[89ab][0-9a-f]:/.test(ip) ||
+    /^ff[0-9a-f]{2}:/.test(ip) ||
+    ip.startsWith('::ffff:') ||
+    ip.startsWith('64:ff9b:')
+  )
+}
+
+/**
+ * Throws unless the URL's host can be public: a public IP literal, or a name
+ * that isn't internal-only (names are resolved and checked on connect)
+ */
+function assertPublicHost(hostname: string): void {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '')
+
+  if (isIP(host) ? isPrivateAddress(host) : isPrivateHostname(host)) {
+    throw new NotPublicHostError(hostname)
+  }
+}
+
+// DNS lookup for outgoing connections; a name with any private address is
+// refused, and the connection uses the addresses checked here
+function lookupPublicAddress(
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number
+  ) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '')
+    if (
+      addresses.length === 0 ||
+      addresses.some(({ address }) => isPrivateAddress(address))
+    ) {
+      return callback(new NotPublicHostError(hostname), '')
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+const publicAgent = new Agent({ connect: { lookup: lookupPublicAddress } })
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value =
+        code[1].toLowerCase() === 'x'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10)
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+/**
+ * Extract readable text from an HTML document
+ */
+export function htmlToText(html: string): { title?: string; text: string } {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+
+  const text = html
+    .replace(/<(script|style|noscript|svg|head)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<\/(p|div|section|article|li|tr|h[1-6]|pre|blockquote)>/gi, '\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+
+  return {
+    title: title ? decodeEntities(title).trim() : undefined,
+    text: decodeEntities(text)
+      .replace(/[ \t\f\v\r]+/g, ' ')
+      .replace(/ ?\n ?/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+  }
+}
+
+/**
+ * Fetch a public web page as plain text
+ * Throws when the URL isn't a public http(s) page or the request fails.
+ */
+export async function fetchPageText(
+  url: string,
+  {
+    signal,
+    maxLength = DEFAULT_MAX_LENGTH,
+  }: { signal?: AbortSignal; maxLength?: number } = {}
+): Promise<FetchedPage> {
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  const requestSignal = signal ? AbortSignal.any([signal, timeout]) : timeout
+
+  let target = new URL(url)
+  let response: Response | null = null
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      throw new Error('Only http and https URLs can be read')
+    }
+    assertPublicHost(target.hostname)
+
+    try {
+      response = await fetch(target, {
+        redirect: 'manual',
+        signal: requestSignal,
+        dispatcher: publicAgent,
+        headers: {
+          Accept: 'text/html,text/plain,application/json;q=0.9,*/*;q=0.1',
+          'User-Agent': 'T3Chat/1.0',
+        },
+      })
+    } catch (error) {
+      // fetch wraps connection errors; report a refused host as such
+      if (error instanceof Error && error.cause instanceof NotPublicHostError) {
+        throw error.cause
+      }
+      throw error
+    }
+
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) break
+
+    target = new URL(location, target)
+    response = null
+  }
+
+  if (!response) {
+    throw new Error('Too many redirects')
+  }
+  if (!response.ok) {
+    throw new Error(`The page returned HTTP ${response.status}`)
+  }
+
+  const contentType = response.headers.get('content-type') ?? ''
+  const body = await response.text()
+
+  let title: string | undefined
+  let content: string
+  if (contentType.includes('html')) {
+    const page = htmlToText(body)
+    title = page.title
+    content = page.text
+  } else if (contentType.startsWith('text/') || contentType.includes('json')) {
+    content = body.trim()
+  } else {
+    throw new Error(`Unsupported content type: ${contentType || 'unknown'}`)
+  }
+
+  return {
+    url: target.toString(),
+    title,
+    content: content.slice(0, maxLength),
+    truncated: content.length > maxLength,
+  }
+}
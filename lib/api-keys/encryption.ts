@@ -0,0 +1,98 @@
+// Envelope encryption for user-provided API keys
+// Each key gets its own random data key (AES-256-GCM), and the data key is
+// wrapped with the master key from API_KEY_ENCRYPTION_KEY. Rotating the
+// master key only requires re-wrapping data keys, not re-encrypting secrets.
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+import { ApiKeyError } from './types'
+
+const ALGORITHM = 'aes-256-gcm'
+const FORMAT_VERSION = 'v1'
+const IV_BYTES = 12
+
+interface SealedBox {
+  iv: Buffer
+  tag: Buffer
+  ciphertext: Buffer
+}
+
+function getMasterKey(): Buffer {
+  const raw = process.env.API_KEY_ENCRYPTION_KEY
+  if (!raw) {
+    throw new ApiKeyError(
+      'API_KEY_ENCRYPTION_KEY environment variable is not set',
+      'ENCRYPTION_NOT_CONFIGURED'
+    )
+  }
+
+  const key = Buffer.from(raw, 'base64')
+  if (key.length !== 32) {
+    throw new ApiKeyError(
+      'API_KEY_ENCRYPTION_KEY must be 32 bytes, base64 encoded',
+      'ENCRYPTION_NOT_CONFIGURED'
+    )
+  }
+
+  return key
+}
+
+function seal(key: Buffer, plaintext: Buffer): SealedBox {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv(ALGORITHM, key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return { iv, tag: cipher.getAuthTag(), ciphertext }
+}
+
+function open(key: Buffer, box: SealedBox): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, box.iv)
+  decipher.setAuthTag(box.tag)
+  return Buffer.concat([decipher.update(box.ciphertext), decipher.final()])
+}
+
+/**
+ * Encrypt an API key for storage in api_keys.encrypted_key
+ * Format: v1:<wrapped data key box>:<secret box>, each box as iv.tag.ciphertext
+ */
+export function encryptApiKey(apiKey: string): string {
+  const dataKey = randomBytes(32)
+  const wrappedKey = seal(getMasterKey(), dataKey)
+  const secret = seal(dataKey, Buffer.from(apiKey, 'utf8'))
+
+  const encode = (box: SealedBox) =>
+    [box.iv, box.tag, box.ciphertext].map((b) => b.toString('base64')).join('.')
+
+  return [FORMAT_VERSION, encode(wrappedKey), encode(secret)].join(':')
+}
+
+/**
+ * Decrypt a value produced by encryptApiKey
+ */
+export function decryptApiKey(encrypted: string): string {
+  const [version, wrappedKeyPart, secretPart] = encrypted.split(':')
+
+  if (version !== FORMAT_VERSION || !wrappedKeyPart || !secretPart) {
+    throw new ApiKeyError('Unsupported encrypted key format', 'DECRYPT_FAILED')
+  }
+
+  const decode = (part: string): SealedBox => {
+    const [iv, tag, ciphertext] = part
+      .split('.')
+      .map((b) => Buffer.from(b, 'base64'))
+    return { iv, tag, ciphertext }
+  }
+
+  try {
+    const dataKey = open(getMasterKey(), decode(wrappedKeyPart))
+    return open(dataKey, decode(secretPart)).toString('utf8')
+  } catch (error) {
+    if (error instanceof ApiKeyError) throw error
+    throw new ApiKeyError('Failed to decrypt API key', 'DECRYPT_FAILED')
+  }
+}
+
+/**
+ * Last 4 characters, used to identify a key in the UI
+ */
+export function getKeyHint(apiKey: string): string {
+  return apiKey.slice(-4)
+}
@@ -0,0 +1,373 @@
+// Bring-Your-Own-Key Service for T3Chat
+// Stores user provider keys encrypted at rest and resolves them per request
+
+import { db } from '@/db/drizzle'
+import { apiKeys } from '@/db/schema'
+import { and, desc, eq, isNull, lte, or, sql } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { decryptApiKey, encryptApiKey, getKeyHint } from './encryption'
+import {
+  ActiveApiKey,
+  ApiKeyError,
+  ApiKeyProvider,
+  ApiKeySummary,
+  ApiKeyValidationResult,
+  API_KEY_REVALIDATE_AFTER_HOURS,
+} from './types'
+
+// Columns that are safe to return to the client
+const summaryColumns = {
+  id: apiKeys.id,
+  keyName: apiKeys.keyName,
+  provider: apiKeys.provider,
+  keyHint: apiKeys.keyHint,
+  isValid: apiKeys.isValid,
+  lastValidatedAt: apiKeys.lastValidatedAt,
+  validationError: apiKeys.validationError,
+  requestCount: apiKeys.requestCount,
+  lastUsedAt: apiKeys.lastUsedAt,
+  createdAt: apiKeys.createdAt,
+  updatedAt: apiKeys.updatedAt,
+}
+
+// Validation calls that take longer than this count as a provider hiccup
+const VALIDATION_TIMEOUT_MS = 10_000
+
+/**
+ * Cheapest authenticated call per provider (list models)
+ * A 401/403 means the key is bad; anything else is treated as transient
+ */
+const PROVIDER_VALIDATORS: Record<
+  ApiKeyProvider,
+  (apiKey: string, signal: AbortSignal) => Promise<Response>
+> = {
+  openai: (apiKey, signal) =>
+    fetch('https://api.openai.com/v1/models', {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      signal,
+    }),
+  anthropic: (apiKey, signal) =>
+    fetch('https://api.anthropic.com/v1/models', {
+      headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+      signal,
+    }),
+  google: (apiKey, signal) =>
+    fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models?key=${encodeURIComponent(apiKey)}`,
+      { signal }
+    ),
+  deepseek: (apiKey, signal) =>
+    fetch('https://api.deepseek.com/models', {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      signal,
+    }),
+  mistral: (apiKey, signal) =>
+    fetch('https://api.mistral.ai/v1/models', {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      signal,
+    }),
+}
+
+/**
+ * API Key Service
+ * Handles CRUD, validation and per-request key resolution
+ */
+export class ApiKeyService {
+  /**
+   * List a user's keys without secrets
+   */
+  static async listKeys(userId: string): Promise<ApiKeySummary[]> {
+    return db
+      .select(summaryColumns)
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt))
+  }
+
+  /**
+   * Store a new key and validate it against the provider
+   */
+  static async createKey(
+    userId: string,
+    input: { keyName: string; provider: ApiKeyProvider; apiKey: string }
+  ): Promise<ApiKeySummary> {
+    const id = nanoid()
+    const now = new Date()
+
+    await db.insert(apiKeys).values({
+      id,
+      userId,
+      keyName: input.keyName,
+      provider: input.provider,
+      encryptedKey: encryptApiKey(input.apiKey),
+      keyHint: getKeyHint(input.apiKey),
+      isValid: false,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    console.log(`✅ Stored ${input.provider} API key for user ${userId}`)
+
+    await this.validateKey(userId, id)
+    return this.getKeySummary(userId, id)
+  }
+
+  /**
+   * Rename and/or rotate a key. Rotation replaces the secret and
+   * re-validates; usage counters are kept.
+   */
+  static async updateKey(
+    userId: string,
+    keyId: string,
+    input: { keyName?: string; apiKey?: string }
+  ): Promise<ApiKeySummary> {
+    await this.getKeySummary(userId, keyId)
+
+    await db
+      .update(apiKeys)
+      .set({
+        ...(input.keyName ? { keyName: input.keyName } : {}),
+        ...(input.apiKey
+          ? {
+              encryptedKey: encryptApiKey(input.apiKey),
+              keyHint: getKeyHint(input.apiKey),
+              isValid: false,
+              validationError: null,
+              lastValidatedAt: null,
+            }
+          : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId)))
+
+    if (input.apiKey) {
+      console.log(`🔄 Rotated API key ${keyId} for user ${userId}`)
+      await this.validateKey(userId, keyId)
+    }
+
+    return this.getKeySummary(userId, keyId)
+  }
+
+  /**
+   * Permanently delete a key
+   */
+  static async revokeKey(userId: string, keyId: string): Promise<void> {
+    const deleted = await db
+      .delete(apiKeys)
+      .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId)))
+      .returning({ id: apiKeys.id })
+
+    if (!deleted[0]) {
+      throw new ApiKeyError('API key not found', 'NOT_FOUND')
+    }
+
+    console.log(`🗑️ Revoked API key ${keyId} for user ${userId}`)
+  }
+
+  /**
+   * Check a stored key against its provider and record the outcome
+   */
+  static async validateKey(
+    userId: string,
+    keyId: string
+  ): Promise<ApiKeySummary> {
+    const [record] = await db
+      .select({
+        id: apiKeys.id,
+        provider: apiKeys.provider,
+        encryptedKey: apiKeys.encryptedKey,
+        isValid: apiKeys.isValid,
+      })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId)))
+      .limit(1)
+
+    if (!record) {
+      throw new ApiKeyError('API key not found', 'NOT_FOUND')
+    }
+
+    const result = await this.checkWithProvider(
+      record.provider,
+      record.encryptedKey,
+      record.isValid
+    )
+
+    await db
+      .update(apiKeys)
+      .set({
+        isValid: result.isValid,
+        validationError: result.validationError,
+        lastValidatedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(apiKeys.id, keyId))
+
+    return this.getKeySummary(userId, keyId)
+  }
+
+  /**
+   * Background job: re-validate keys not checked recently
+   */
+  static async validateStaleKeys(): Promise<{
+    checked: number
+    invalid: number
+  }> {
+    const cutoff = new Date(
+      Date.now() - API_KEY_REVALIDATE_AFTER_HOURS * 60 * 60 * 1000
+    )
+
+    const staleKeys = await db
+      .select({ id: apiKeys.id, userId: apiKeys.userId })
+      .from(apiKeys)
+      .where(
+        or(
+          isNull(apiKeys.lastValidatedAt),
+          lte(apiKeys.lastValidatedAt, cutoff)
+        )
+      )
+
+    let invalid = 0
+    for (const key of staleKeys) {
+      try {
+        const summary = await this.validateKey(key.userId, key.id)
+        if (!summary.isValid) invalid++
+      } catch (error) {
+        console.error(`❌ Failed to validate API key ${key.id}:`, error)
+      }
+    }
+
+    console.log(`🔑 Validated ${staleKeys.length} API keys, ${invalid} invalid`)
+    return { checked: staleKeys.length, invalid }
+  }
+
+  /**
+   * Get the user's valid key for a provider, decrypted, if any
+   * Returns null (falls back to platform keys) when decryption fails
+   */
+  static async getActiveKey(
+    userId: string,
+    provider: string
+  ): Promise<ActiveApiKey | null> {
+    const [record] = await db
+      .select({
+        id: apiKeys.id,
+        provider: apiKeys.provider,
+        encryptedKey: apiKeys.encryptedKey,
+      })
+      .from(apiKeys)
+      .where(
+        and(
+          eq(apiKeys.userId, userId),
+          eq(apiKeys.provider, provider),
+          eq(apiKeys.isValid, true)
+        )
+      )
+      .orderBy(desc(apiKeys.updatedAt))
+      .limit(1)
+
+    if (!record) {
+      return null
+    }
+
+    try {
+      return {
+        id: record.id,
+        provider: record.provider,
+        apiKey: decryptApiKey(record.encryptedKey),
+      }
+    } catch (error) {
+      console.error(`❌ Could not decrypt API key ${record.id}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Track a request made with a user's key
+   */
+  static async recordUsage(keyId: string): Promise<void> {
+    try {
+      await db
+        .update(apiKeys)
+        .set({
+          requestCount: sql`${apiKeys.requestCount} + 1`,
+          lastUsedAt: new Date(),
+        })
+        .where(eq(apiKeys.id, keyId))
+    } catch (error) {
+      console.error(`Failed to record usage for API key ${keyId}:`, error)
+      // Don't throw - usage tracking shouldn't break the chat response
+    }
+  }
+
+  private static async getKeySummary(
+    userId: string,
+    keyId: string
+  ): Promise<ApiKeySummary> {
+    const [summary] = await db
+      .select(summaryColumns)
+      .from(apiKeys)
+      .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId)))
+      .limit(1)
+
+    if (!summary) {
+      throw new ApiKeyError('API key not found', 'NOT_FOUND')
+    }
+
+    return summary
+  }
+
+  private static async checkWithProvider(
+    provider: string,
+    encryptedKey: string,
+    wasValid: boolean
+  ): Promise<ApiKeyValidationResult> {
+    const validator = PROVIDER_VALIDATORS[provider as ApiKeyProvider]
+    if (!validator) {
+      return {
+        isValid: false,
+        validationError: `Unsupported provider: ${provider}`,
+      }
+    }
+
+    let apiKey: string
+    try {
+      apiKey = decryptApiKey(encryptedKey)
+    } catch {
+      return { isValid: false, validationError: 'Key could not be decrypted' }
+    }
+
+    try {
+      const response = await validator(
+        apiKey,
+        AbortSignal.timeout(VALIDATION_TIMEOUT_MS)
+      )
+
+      if (response.ok) {
+        return { isValid: true, validationError: null }
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        return {
+          isValid: false,
+          validationError: `Rejected by ${provider} (${response.status})`,
+        }
+      }
+
+      // Provider hiccup: keep the previous verdict but surface the error
+      return {
+        isValid: wasValid,
+        validationError: `${provider} returned ${response.status} during validation`,
+      }
+    } catch (error) {
+      return {
+        isValid: wasValid,
+        validationError:
+          error instanceof Error && error.name === 'TimeoutError'
+            ? `${provider} did not respond during validation`
+            : error instanceof Error
+              ? error.message
+              : 'Validation request failed',
+      }
+    }
+  }
+}
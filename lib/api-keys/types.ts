@@ -0,0 +1,71 @@
+// Bring-Your-Own-Key Types and Constants for T3Chat
+
+import { z } from 'zod'
+
+// Providers a user can attach their own key for (matches api_keys.provider)
+export const API_KEY_PROVIDERS = [
+  'openai',
+  'anthropic',
+  'google',
+  'deepseek',
+  'mistral',
+] as const
+
+export type ApiKeyProvider = (typeof API_KEY_PROVIDERS)[number]
+
+// Key record as exposed to the client (never includes the secret)
+export interface ApiKeySummary {
+  id: string
+  keyName: string
+  provider: string
+  keyHint: string
+  isValid: boolean
+  lastValidatedAt: Date | null
+  validationError: string | null
+  requestCount: number
+  lastUsedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Decrypted key handed to the provider registry for a single request
+export interface ActiveApiKey {
+  id: string
+  provider: string
+  apiKey: string
+}
+
+export interface ApiKeyValidationResult {
+  isValid: boolean
+  validationError: string | null
+}
+
+// Validation Schemas
+export const CreateApiKeySchema = z.object({
+  keyName: z.string().trim().min(1).max(50),
+  provider: z.enum(API_KEY_PROVIDERS),
+  apiKey: z.string().trim().min(8).max(500),
+})
+
+export const UpdateApiKeySchema = z
+  .object({
+    keyName: z.string().trim().min(1).max(50).optional(),
+    apiKey: z.string().trim().min(8).max(500).optional(),
+  })
+  .refine((data) => data.keyName || data.apiKey, {
+    message: 'Provide a new name or a new key',
+  })
+
+// Error Types
+export class ApiKeyError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message)
+    this.name = 'ApiKeyError'
+  }
+}
+
+// Keys are re-validated by the background job after this long
+export const API_KEY_REVALIDATE_AFTER_HOURS = 24
@@ -0,0 +1,61 @@
+// Message Attachment Types and Constants for T3Chat
+
+import { z } from 'zod'
+import type { Doc } from '@/convex/_generated/dataModel'
+
+// A file attached to a message (matches messages.attachments)
+export type MessageAttachment = NonNullable<
+  Doc<'messages'>['attachments']
+>[number]
+
+// How an attachment reaches the model: images and documents as multimodal
+// parts (vision models only), text files inlined into the message
+export type AttachmentKind = 'image' | 'document' | 'text'
+
+export const ATTACHMENT_KINDS: Record<string, AttachmentKind> = {
+  'image/jpeg': 'image',
+  'image/jpg': 'image',
+  'image/png': 'image',
+  'image/gif': 'image',
+  'image/webp': 'image',
+  'application/pdf': 'document',
+  'text/plain': 'text',
+  'text/markdown': 'text',
+  'text/csv': 'text',
+  'application/json': 'text',
+  'image/svg+xml': 'text', // Models read SVG as markup, not as an image
+}
+
+export const ATTACHMENT_MEDIA_TYPES = Object.keys(ATTACHMENT_KINDS)
+
+// Browsers often leave the type empty for text formats
+export const ATTACHMENT_EXTENSION_TYPES: Record<string, string> = {
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+}
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024 // 10MB
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5
+
+// Credit charge (TOOL_CREDIT_COSTS key) for each kind sent in a turn
+export const ATTACHMENT_CREDIT_TOOLS: Record<AttachmentKind, string> = {
+  image: 'image_analysis',
+  document: 'file_analysis',
+  text: 'file_analysis',
+}
+
+export const AttachmentSchema = z.object({
+  type: z.literal('file').default('file'),
+  url: z.string().url(),
+  filename: z.string().trim().min(1).max(255),
+  mediaType: z
+    .string()
+    .refine(
+      (type) => ATTACHMENT_MEDIA_TYPES.includes(type),
+      'Unsupported file type'
+    ),
+  size: z.number().int().nonnegative().max(MAX_ATTACHMENT_SIZE).optional(),
+})
@@ -0,0 +1,63 @@
+// Font choices for the customization settings
+// Each stack falls back to the system font when the face isn't installed.
+
+export interface FontOption {
+  value: string
+  label: string
+  stack: string
+}
+
+export const MAIN_TEXT_FONTS: FontOption[] = [
+  {
+    value: 'inter',
+    label: 'Inter',
+    stack: "'Inter', var(--font-apple-system)",
+  },
+  { value: 'system', label: 'System UI', stack: 'var(--font-apple-system)' },
+  {
+    value: 'roboto',
+    label: 'Roboto',
+    stack: "'Roboto', var(--font-apple-system)",
+  },
+  {
+    value: 'opensans',
+    label: 'Open Sans',
+    stack: "'Open Sans', var(--font-apple-system)",
+  },
+  { value: 'lato', label: 'Lato', stack: "'Lato', var(--font-apple-system)" },
+]
+
+export const CODE_FONTS: FontOption[] = [
+  {
+    value: 'jetbrains-mono',
+    label: 'JetBrains Mono',
+    stack: "'JetBrains Mono', var(--font-sf-mono)",
+  },
+  {
+    value: 'fira-code',
+    label: 'Fira Code',
+    stack: "'Fira Code', var(--font-sf-mono)",
+  },
+  {
+    value: 'source-code-pro',
+    label: 'Source Code Pro',
+    stack: "'Source Code Pro', var(--font-sf-mono)",
+  },
+  { value: 'monaco', label: 'Monaco', stack: 'Monaco, var(--font-sf-mono)' },
+  {
+    value: 'consolas',
+    label: 'Consolas',
+    stack: 'Consolas, var(--font-sf-mono)',
+  },
+]
+
+/**
+ * Font stack for a stored font choice
+ * Returns undefined for unknown or unset values so the default applies.
+ */
+export function getFontStack(
+  options: FontOption[],
+  value?: string
+): string | undefined {
+  return options.find((option) => option.value === value)?.stack
+}
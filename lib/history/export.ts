@@ -0,0 +1,91 @@
+// History export builders for T3Chat
+// Turns threads into the file contents for each supported export format
+
+import {
+  EXPORT_FILE_TYPES,
+  ExportFile,
+  ExportFormat,
+  ExportedThread,
+} from './types'
+
+// Quote a CSV field when it contains a delimiter, quote or newline
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function toJson(threads: ExportedThread[], exportedAt: number): string {
+  const file: ExportFile = { version: 1, exportedAt, threads }
+  return JSON.stringify(file, null, 2)
+}
+
+function toCsv(threads: ExportedThread[]): string {
+  const rows = [
+    ['thread_id', 'thread_title', 'role', 'model', 'created_at', 'content'],
+  ]
+
+  for (const thread of threads) {
+    for (const message of thread.messages) {
+      rows.push([
+        thread.threadId,
+        thread.title,
+        message.role,
+        message.model ?? '',
+        new Date(message.createdAt).toISOString(),
+        message.content,
+      ])
+    }
+  }
+
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n')
+}
+
+function toMarkdown(threads: ExportedThread[]): string {
+  return threads
+    .map((thread) => {
+      const header = `# ${thread.title}\n\n_${new Date(thread.createdAt).toLocaleString('en-US')} · ${thread.model}_`
+      const messages = thread.messages.map((message) => {
+        const author =
+          message.role === 'user'
+            ? 'You'
+            : message.role === 'assistant'
+              ? `Assistant${message.model ? ` (${message.model})` : ''}`
+              : message.role
+        return `### ${author}\n\n${message.content}`
+      })
+      return [header, ...messages].join('\n\n')
+    })
+    .join('\n\n---\n\n')
+}
+
+/**
+ * Download filename for an export, e.g. t3chat-export-2025-08-25.json
+ */
+export function exportFilename(
+  format: ExportFormat,
+  exportedAt: number
+): string {
+  const date = new Date(exportedAt).toISOString().slice(0, 10)
+  return `t3chat-export-${date}.${EXPORT_FILE_TYPES[format].extension}`
+}
+
+/**
+ * Build an export file for the given threads
+ */
+export function buildExport(
+  format: ExportFormat,
+  threads: ExportedThread[],
+  exportedAt = Date.now()
+): { content: string; filename: string; contentType: string } {
+  const content =
+    format === 'json'
+      ? toJson(threads, exportedAt)
+      : format === 'csv'
+        ? toCsv(threads)
+        : toMarkdown(threads)
+
+  return {
+    content,
+    filename: exportFilename(format, exportedAt),
+    contentType: EXPORT_FILE_TYPES[format].contentType,
+  }
+}
@@ -0,0 +1,226 @@
+// History import parsers for T3Chat
+// Reads our own JSON export, ChatGPT's conversations.json and Claude's
+// conversations.json into a common thread shape
+
+import {
+  ExportedMessage,
+  HistoryImportError,
+  ImportSource,
+  ImportedThread,
+} from './types'
+
+export interface ParsedImport {
+  source: ImportSource
+  threads: ImportedThread[]
+  skippedMessages: number // Non-text or hidden messages that were dropped
+}
+
+type JsonObject = Record<string, unknown>
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined
+
+// Timestamps arrive as epoch ms (ours), epoch seconds (ChatGPT) or ISO
+// strings (Claude)
+function toTimestamp(value: unknown, fallback: number): number {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value < 1e12 ? Math.round(value * 1000) : value
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value)
+    if (!Number.isNaN(parsed)) return parsed
+  }
+  return fallback
+}
+
+function parseT3(data: JsonObject): ParsedImport {
+  const threads: ImportedThread[] = []
+  let skippedMessages = 0
+
+  for (const thread of data.threads as unknown[]) {
+    if (!isObject(thread) || !Array.isArray(thread.messages)) {
+      throw new HistoryImportError('Malformed thread in T3 Chat export')
+    }
+
+    const createdAt = toTimestamp(thread.createdAt, Date.now())
+    const messages: ExportedMessage[] = []
+    for (const message of thread.messages) {
+      if (!isObject(message)) {
+        skippedMessages++
+        continue
+      }
+
+      const role = message.role
+      const content = asString(message.content)
+      if (
+        (role !== 'user' && role !== 'assistant' && role !== 'system') ||
+        !content
+      ) {
+        skippedMessages++
+        continue
+      }
+      messages.push({
+        role,
+        content,
+        model: asString(message.model),
+        createdAt: toTimestamp(message.createdAt, createdAt),
+      })
+    }
+
+    threads.push({
+      importId: `t3:${asString(thread.threadId) ?? createdAt}`,
+      title: asString(thread.title) || 'Imported conversation',
+      model: asString(thread.model) || 'unknown',
+      createdAt,
+      messages,
+    })
+  }
+
+  return { source: 't3', threads, skippedMessages }
+}
+
+// ChatGPT stores each conversation as a tree of nodes; the visible
+// conversation is the path from current_node back to the root
+function parseChatGPT(conversations: JsonObject[]): ParsedImport {
+  const threads: ImportedThread[] = []
+  let skippedMessages = 0
+
+  for (const conversation of conversations) {
+    const mapping = conversation.mapping as Record<string, JsonObject>
+    const createdAt = toTimestamp(conversation.create_time, Date.now())
+
+    const path: JsonObject[] = []
+    let nodeId = asString(conversation.current_node)
+    const visited = new Set<string>()
+    while (nodeId && mapping[nodeId] && !visited.has(nodeId)) {
+      visited.add(nodeId)
+      path.unshift(mapping[nodeId])
+      nodeId = asString(mapping[nodeId].parent)
+    }
+
+    const messages: ExportedMessage[] = []
+    for (const node of path) {
+      const message = node.message
+      if (!isObject(message)) continue
+
+      const author = isObject(message.author) ? message.author : {}
+      const content = isObject(message.content) ? message.content : {}
+      const metadata = isObject(message.metadata) ? message.metadata : {}
+      const role = author.role
+      const text = Array.isArray(content.parts)
+        ? content.parts
+            .filter((part): part is string => typeof part === 'string')
+            .join('\n')
+            .trim()
+        : ''
+
+      if (
+        (role !== 'user' && role !== 'assistant') ||
+        content.content_type !== 'text' ||
+        metadata.is_visually_hidden_from_conversation ||
+        !text
+      ) {
+        skippedMessages++
+        continue
+      }
+
+      messages.push({
+        role,
+        content: text,
+        model: asString(metadata.model_slug),
+        createdAt: toTimestamp(message.create_time, createdAt),
+      })
+    }
+
+    threads.push({
+      importId: `chatgpt:${asString(conversation.conversation_id) ?? asString(conversation.id) ?? createdAt}`,
+      title: asString(conversation.title) || 'ChatGPT conversation',
+      model: asString(conversation.default_model_slug) || 'chatgpt',
+      createdAt,
+      messages,
+    })
+  }
+
+  return { source: 'chatgpt', threads, skippedMessages }
+}
+
+function parseClaude(conversations: JsonObject[]): ParsedImport {
+  const threads: ImportedThread[] = []
+  let skippedMessages = 0
+
+  for (const conversation of conversations) {
+    const createdAt = toTimestamp(conversation.created_at, Date.now())
+    const messages: ExportedMessage[] = []
+
+    for (const message of conversation.chat_messages as unknown[]) {
+      if (!isObject(message)) {
+        skippedMessages++
+        continue
+      }
+
+      // Newer exports split messages into content blocks; older ones only
+      // have the flattened text
+      const blocks = Array.isArray(message.content)
+        ? message.content
+            .filter(isObject)
+            .filter((block) => block.type === 'text')
+            .map((block) => asString(block.text) ?? '')
+        : []
+      const text = (
+        blocks.length > 0 ? blocks.join('\n') : (asString(message.text) ?? '')
+      ).trim()
+      const role =
+        message.sender === 'human'
+          ? 'user'
+          : message.sender === 'assistant'
+            ? 'assistant'
+            : undefined
+
+      if (!role || !text) {
+        skippedMessages++
+        continue
+      }
+
+      messages.push({
+        role,
+        content: text,
+        createdAt: toTimestamp(message.created_at, createdAt),
+      })
+    }
+
+    threads.push({
+      importId: `claude:${asString(conversation.uuid) ?? createdAt}`,
+      title: asString(conversation.name) || 'Claude conversation',
+      model: 'claude',
+      createdAt,
+      messages,
+    })
+  }
+
+  return { source: 'claude', threads, skippedMessages }
+}
+
+/**
+ * Detect the export format of a parsed JSON file and read its conversations
+ */
+export function parseImport(data: unknown): ParsedImport {
+  if (isObject(data) && data.version === 1 && Array.isArray(data.threads)) {
+    return parseT3(data)
+  }
+
+  if (Array.isArray(data) && data.every(isObject)) {
+    if (data.every((item) => isObject(item.mapping))) {
+      return parseChatGPT(data)
+    }
+    if (data.every((item) => Array.isArray(item.chat_messages))) {
+      return parseClaude(data)
+    }
+  }
+
+  throw new HistoryImportError(
+    'Unrecognized file. Upload a T3 Chat JSON export or a conversations.json from ChatGPT or Claude.'
+  )
+}
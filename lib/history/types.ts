@@ -0,0 +1,80 @@
+// Message History Types and Constants for T3Chat
+
+import { z } from 'zod'
+
+// Formats a history export can be written in (matches messageHistory.exportFormat)
+export const EXPORT_FORMATS = ['json', 'csv', 'markdown'] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export const EXPORT_FILE_TYPES: Record<
+  ExportFormat,
+  { extension: string; contentType: string }
+> = {
+  json: { extension: 'json', contentType: 'application/json' },
+  csv: { extension: 'csv', contentType: 'text/csv' },
+  markdown: { extension: 'md', contentType: 'text/markdown' },
+}
+
+export const MAX_EXPORT_THREADS = 100
+
+export const ExportRequestSchema = z.object({
+  threadIds: z.array(z.string().min(1)).min(1).max(MAX_EXPORT_THREADS),
+  format: z.enum(EXPORT_FORMATS),
+})
+
+export type ExportRequest = z.infer<typeof ExportRequestSchema>
+
+// A thread as written to an export; the JSON export is this shape wrapped
+// in ExportFile, which is also the T3 format accepted by import
+export interface ExportedMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool'
+  content: string
+  model?: string
+  createdAt: number
+}
+
+export interface ExportedThread {
+  threadId: string
+  title: string
+  model: string
+  createdAt: number
+  messages: ExportedMessage[]
+}
+
+export interface ExportFile {
+  version: 1
+  exportedAt: number
+  threads: ExportedThread[]
+}
+
+// Export formats an import can read
+export const IMPORT_SOURCES = ['t3', 'chatgpt', 'claude'] as const
+
+export type ImportSource = (typeof IMPORT_SOURCES)[number]
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  t3: 'T3 Chat',
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+}
+
+// A parsed conversation; importId identifies it across re-imports
+export interface ImportedThread extends Omit<ExportedThread, 'threadId'> {
+  importId: string
+}
+
+export interface ImportResult {
+  source: ImportSource
+  threadsCreated: number
+  threadsSkipped: number
+  messagesCreated: number
+  messagesSkipped: number
+}
+
+export class HistoryImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'HistoryImportError'
+  }
+}
@@ -0,0 +1,139 @@
+// Chat turns for local-only history (sync disabled)
+// Streams through the stateless /api/chat route and stores both sides of
+// the turn in IndexedDB only; the server keeps nothing.
+
+import { nanoid } from 'nanoid'
+import { readDataStream } from '@/lib/ai/data-stream'
+import { getThread, listMessages, putMessages, putThreads } from './db'
+import { LocalMessage } from './types'
+
+const WRITE_INTERVAL_MS = 150
+
+interface LocalTurnOptions {
+  threadId: string
+  content: string
+  model: string
+  signal?: AbortSignal
+}
+
+/**
+ * Send a message in a local-only thread and store the streamed reply
+ * Throws with the server's error message when the request is rejected.
+ */
+export async function streamLocalTurn({
+  threadId,
+  content,
+  model,
+  signal,
+}: LocalTurnOptions): Promise<void> {
+  const now = Date.now()
+  const thread = await getThread(threadId)
+  const history = (await listMessages(threadId)).filter(
+    (message) =>
+      message.isActiveVersion !== false &&
+      (message.role === 'user' || message.role === 'assistant') &&
+      message.content.trim()
+  )
+
+  await putThreads([
+    {
+      threadId,
+      title:
+        thread?.title ??
+        content.slice(0, 50) + (content.length > 50 ? '...' : ''),
+      model,
+      visibility: thread?.visibility ?? 'visible',
+      createdAt: thread?.createdAt ?? now,
+      updatedAt: now,
+      remoteUpdatedAt: thread?.remoteUpdatedAt,
+      dirty: true,
+    },
+  ])
+
+  const userMessage: LocalMessage = {
+    id: nanoid(),
+    threadId,
+    role: 'user',
+    content,
+    model,
+    isStreaming: false,
+    createdAt: now,
+    updatedAt: now,
+    dirty: true,
+  }
+  let reply: LocalMessage = {
+    id: nanoid(),
+    threadId,
+    role: 'assistant',
+    content: '',
+    model,
+    isStreaming: true,
+    createdAt: now + 1,
+    updatedAt: now + 1,
+    dirty: true,
+  }
+  await putMessages([userMessage, reply])
+
+  const saveReply = (changes: Partial<LocalMessage>) => {
+    reply = { ...reply, ...changes, updatedAt: Date.now() }
+    return putMessages([reply])
+  }
+
+  let text = ''
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  try {
+    const response = await fetch('/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messages: [
+          ...history.map((message) => ({
+            role: message.role,
+            content: message.content,
+          })),
+          { role: 'user', content },
+        ],
+        model,
+        threadId,
+      }),
+      signal,
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || 'Failed to send message')
+    }
+
+    const result = await readDataStream(response, {
+      onText: (token) => {
+        text += token
+        timer ??= setTimeout(() => {
+          timer = null
+          saveReply({ content: text })
+        }, WRITE_INTERVAL_MS)
+      },
+    })
+
+    if (timer) clearTimeout(timer)
+    await saveReply({
+      content: text,
+      isStreaming: false,
+      finishReason: signal?.aborted
+        ? 'cancelled'
+        : result.error || result.interrupted
+          ? 'error'
+          : result.finishReason === 'length'
+            ? 'length'
+            : 'stop',
+    })
+  } catch (error) {
+    if (timer) clearTimeout(timer)
+    await saveReply({
+      content: text,
+      isStreaming: false,
+      finishReason: signal?.aborted ? 'cancelled' : 'error',
+    })
+    if (!signal?.aborted) throw error
+  }
+}
@@ -0,0 +1,220 @@
+// IndexedDB storage for local-first history
+// Every write notifies subscribers in this tab and, through a
+// BroadcastChannel, in other open tabs.
+
+import { LocalMessage, LocalThread, SyncConflict, SyncSettings } from './types'
+
+const DB_NAME = 't3chat-history'
+const DB_VERSION = 1
+const CHANGE_CHANNEL = 't3chat-history-changes'
+
+const DEFAULT_SETTINGS: SyncSettings = {
+  syncEnabled: true,
+  lastSyncedAt: null,
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        db.createObjectStore('threads', { keyPath: 'threadId' })
+        const messages = db.createObjectStore('messages', { keyPath: 'id' })
+        messages.createIndex('by_thread', 'threadId')
+        db.createObjectStore('conflicts', {
+          keyPath: 'id',
+          autoIncrement: true,
+        })
+        db.createObjectStore('meta')
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Run writes in one transaction and resolve once it commits
+async function write(
+  storeNames: string[],
+  run: (tx: IDBTransaction) => void
+): Promise<void> {
+  const db = await openDb()
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(storeNames, 'readwrite')
+    run(tx)
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+  notifyChange()
+}
+
+async function readAll<T>(storeName: string): Promise<T[]> {
+  const db = await openDb()
+  return promisify(
+    db.transaction(storeName).objectStore(storeName).getAll()
+  ) as Promise<T[]>
+}
+
+// --- Change notifications ---
+
+const changes = new EventTarget()
+let channel: BroadcastChannel | null = null
+
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANGE_CHANNEL)
+    channel.onmessage = () => changes.dispatchEvent(new Event('change'))
+  }
+  return channel
+}
+
+function notifyChange() {
+  changes.dispatchEvent(new Event('change'))
+  getChannel()?.postMessage('change')
+}
+
+export function subscribeToChanges(listener: () => void): () => void {
+  getChannel()
+  changes.addEventListener('change', listener)
+  return () => changes.removeEventListener('change', listener)
+}
+
+// --- Settings ---
+
+export async function getSyncSettings(): Promise<SyncSettings> {
+  const db = await openDb()
+  const stored = (await promisify(
+    db.transaction('meta').objectStore('meta').get('settings')
+  )) as SyncSettings | undefined
+  return { ...DEFAULT_SETTINGS, ...stored }
+}
+
+export async function saveSyncSettings(
+  settings: Partial<SyncSettings>
+): Promise<void> {
+  const current = await getSyncSettings()
+  await write(['meta'], (tx) => {
+    tx.objectStore('meta').put({ ...current, ...settings }, 'settings')
+  })
+}
+
+// --- Threads and messages ---
+
+export async function listThreads(): Promise<LocalThread[]> {
+  const threads = await readAll<LocalThread>('threads')
+  return threads.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function getThread(
+  threadId: string
+): Promise<LocalThread | undefined> {
+  const db = await openDb()
+  return promisify(
+    db.transaction('threads').objectStore('threads').get(threadId)
+  )
+}
+
+export async function listMessages(threadId: string): Promise<LocalMessage[]> {
+  const db = await openDb()
+  const messages = (await promisify(
+    db
+      .transaction('messages')
+      .objectStore('messages')
+      .index('by_thread')
+      .getAll(threadId)
+  )) as LocalMessage[]
+  return messages.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+export async function listAllMessages(): Promise<LocalMessage[]> {
+  return readAll<LocalMessage>('messages')
+}
+
+export async function putThreads(threads: LocalThread[]): Promise<void> {
+  if (threads.length === 0) return
+  await write(['threads'], (tx) => {
+    const store = tx.objectStore('threads')
+    threads.forEach((thread) => store.put(thread))
+  })
+}
+
+export async function putMessages(messages: LocalMessage[]): Promise<void> {
+  if (messages.length === 0) return
+  await write(['messages'], (tx) => {
+    const store = tx.objectStore('messages')
+    messages.forEach((message) => store.put(message))
+  })
+}
+
+// Swap local IDs for Convex IDs after messages are pushed
+export async function rekeyMessages(
+  replacements: { oldId: string; message: LocalMessage }[]
+): Promise<void> {
+  if (replacements.length === 0) return
+  await write(['messages'], (tx) => {
+    const store = tx.objectStore('messages')
+    for (const { oldId, message } of replacements) {
+      store.delete(oldId)
+      store.put(message)
+    }
+  })
+}
+
+export async function getCounts(): Promise<{
+  threads: number
+  messages: number
+}> {
+  const db = await openDb()
+  const tx = db.transaction(['threads', 'messages'])
+  const [threads, messages] = await Promise.all([
+    promisify(tx.objectStore('threads').count()),
+    promisify(tx.objectStore('messages').count()),
+  ])
+  return { threads, messages }
+}
+
+// --- Conflict log ---
+
+export async function addConflicts(conflicts: SyncConflict[]): Promise<void> {
+  if (conflicts.length === 0) return
+  await write(['conflicts'], (tx) => {
+    const store = tx.objectStore('conflicts')
+    conflicts.forEach((conflict) => store.add(conflict))
+  })
+}
+
+export async function listConflicts(limit = 50): Promise<SyncConflict[]> {
+  const conflicts = await readAll<SyncConflict>('conflicts')
+  return conflicts.sort((a, b) => b.resolvedAt - a.resolvedAt).slice(0, limit)
+}
+
+/**
+ * Remove all local threads, messages and conflicts from this device
+ * The next sync pulls everything again when sync is enabled.
+ */
+export async function clearLocalHistory(): Promise<void> {
+  const current = await getSyncSettings()
+  await write(['threads', 'messages', 'conflicts', 'meta'], (tx) => {
+    tx.objectStore('threads').clear()
+    tx.objectStore('messages').clear()
+    tx.objectStore('conflicts').clear()
+    tx.objectStore('meta').put({ ...current, lastSyncedAt: null }, 'settings')
+  })
+}
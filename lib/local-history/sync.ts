@@ -0,0 +1,346 @@
+// Reconcile local-first history with Convex
+// Pull everything changed since the last sync, merge it per thread and
+// message, then push what changed locally in batches. Each local copy
+// remembers the server updatedAt it was last synced at, so "did the cloud
+// copy change?" is answered on the server clock alone. When both copies
+// changed, the cloud copy is kept and the local one is logged as a conflict.
+
+import { ConvexReactClient } from 'convex/react'
+import { FunctionReturnType } from 'convex/server'
+import { api } from '@/convex/_generated/api'
+import { Doc, Id } from '@/convex/_generated/dataModel'
+import {
+  addConflicts,
+  getSyncSettings,
+  listAllMessages,
+  listThreads,
+  putMessages,
+  putThreads,
+  rekeyMessages,
+  saveSyncSettings,
+} from './db'
+import { LocalMessage, LocalThread, SyncConflict, SyncResult } from './types'
+
+const PAGE_SIZE = 200
+// Threads or messages per push mutation, well under Convex's write limits
+const PUSH_BATCH_SIZE = 100
+// Re-pull a little before the last sync so writes that committed while it
+// ran aren't missed; applying the same change twice is harmless
+const CURSOR_OVERLAP_MS = 5000
+
+let runningSync: Promise<SyncResult> | null = null
+
+export function fromRemoteThread(thread: Doc<'threads'>): LocalThread {
+  return {
+    threadId: thread.threadId,
+    title: thread.title,
+    model: thread.model,
+    visibility: thread.visibility,
+    createdAt: thread.createdAt,
+    updatedAt: thread.updatedAt,
+    remoteUpdatedAt: thread.updatedAt,
+    dirty: false,
+  }
+}
+
+export function fromRemoteMessage(message: Doc<'messages'>): LocalMessage {
+  return {
+    id: message._id,
+    remoteId: message._id,
+    threadId: message.threadId,
+    role: message.role,
+    content: message.content,
+    model: message.model,
+    isStreaming: message.isStreaming,
+    finishReason: message.finishReason,
+    isActiveVersion: message.isActiveVersion,
+    createdAt: message.createdAt,
+    updatedAt: message.updatedAt,
+    remoteUpdatedAt: message.updatedAt,
+    dirty: false,
+  }
+}
+
+// The server copy changed since the local copy's last sync
+function changedRemotely(
+  local: LocalThread | LocalMessage,
+  remote: Doc<'threads'> | Doc<'messages'>
+): boolean {
+  return remote.updatedAt > (local.remoteUpdatedAt ?? 0)
+}
+
+function toConflict(
+  local: LocalMessage,
+  remote: Doc<'messages'>
+): SyncConflict {
+  return {
+    threadId: remote.threadId,
+    messageId: remote._id,
+    localContent: local.content,
+    remoteContent: remote.content,
+    localUpdatedAt: local.updatedAt,
+    remoteUpdatedAt: remote.updatedAt,
+    winner: 'remote',
+    resolvedAt: Date.now(),
+  }
+}
+
+function toThreadConflict(
+  local: LocalThread,
+  remote: Doc<'threads'>
+): SyncConflict {
+  return {
+    threadId: remote.threadId,
+    localContent: local.title,
+    remoteContent: remote.title,
+    localUpdatedAt: local.updatedAt,
+    remoteUpdatedAt: remote.updatedAt,
+    winner: 'remote',
+    resolvedAt: Date.now(),
+  }
+}
+
+function toBatches<T>(items: T[]): T[][] {
+  const batches: T[][] = []
+  for (let i = 0; i < items.length; i += PUSH_BATCH_SIZE) {
+    batches.push(items.slice(i, i + PUSH_BATCH_SIZE))
+  }
+  return batches
+}
+
+async function pullThreads(
+  convex: ConvexReactClient,
+  userId: string,
+  since: number
+) {
+  const threads: Doc<'threads'>[] = []
+  let serverTime: number | null = null
+  let cursor: string | null = null
+
+  do {
+    const result: FunctionReturnType<typeof api.sync.pullThreads> =
+      await convex.query(api.sync.pullThreads, {
+        userId,
+        since,
+        paginationOpts: { numItems: PAGE_SIZE, cursor },
+      })
+    serverTime ??= result.serverTime
+    threads.push(...result.page)
+    cursor = result.isDone ? null : result.continueCursor
+  } while (cursor)
+
+  return { threads, serverTime: serverTime! }
+}
+
+async function pullMessages(
+  convex: ConvexReactClient,
+  userId: string,
+  since: number
+) {
+  const messages: Doc<'messages'>[] = []
+  let cursor: string | null = null
+
+  do {
+    const result: FunctionReturnType<typeof api.sync.pullMessages> =
+      await convex.query(api.sync.pullMessages, {
+        userId,
+        since,
+        paginationOpts: { numItems: PAGE_SIZE, cursor },
+      })
+    messages.push(...result.page)
+    cursor = result.isDone ? null : result.continueCursor
+  } while (cursor)
+
+  return messages
+}
+
+async function runSync(
+  convex: ConvexReactClient,
+  userId: string
+): Promise<SyncResult> {
+  const { lastSyncedAt } = await getSyncSettings()
+  const since = lastSyncedAt ? lastSyncedAt - CURSOR_OVERLAP_MS : 0
+  const result: SyncResult = {
+    pulledThreads: 0,
+    pulledMessages: 0,
+    pushedThreads: 0,
+    pushedMessages: 0,
+    conflicts: 0,
+  }
+  const conflicts: SyncConflict[] = []
+
+  const { threads: remoteThreads, serverTime } = await pullThreads(
+    convex,
+    userId,
+    since
+  )
+  const remoteMessages = await pullMessages(convex, userId, since)
+
+  // Threads: keep a local change unless the server copy changed too
+  const localThreads = new Map(
+    (await listThreads()).map((thread) => [thread.threadId, thread])
+  )
+  const pulledThreads: LocalThread[] = []
+  for (const remote of remoteThreads) {
+    const local = localThreads.get(remote.threadId)
+    if (local?.dirty) {
+      if (!changedRemotely(local, remote)) continue
+      if (local.title !== remote.title) {
+        conflicts.push(toThreadConflict(local, remote))
+      }
+    }
+    pulledThreads.push(fromRemoteThread(remote))
+  }
+  await putThreads(pulledThreads)
+  result.pulledThreads = pulledThreads.length
+
+  // Messages: same rule
+  const localMessages = new Map(
+    (await listAllMessages()).map((message) => [message.id, message])
+  )
+  const pulledMessages: LocalMessage[] = []
+  for (const remote of remoteMessages) {
+    const local = localMessages.get(remote._id)
+    if (local?.dirty) {
+      if (!changedRemotely(local, remote)) continue
+      if (local.content !== remote.content) {
+        conflicts.push(toConflict(local, remote))
+      }
+    }
+    pulledMessages.push(fromRemoteMessage(remote))
+  }
+  await putMessages(pulledMessages)
+  result.pulledMessages = pulledMessages.length
+
+  // Push local changes; messages still streaming go in the next sync.
+  // Threads go first so their new messages find them, and messages go
+  // oldest first so each batch continues the thread where the last ended.
+  const dirtyThreads = (await listThreads()).filter((thread) => thread.dirty)
+  const dirtyMessages = (await listAllMessages())
+    .filter((message) => message.dirty && !message.isStreaming)
+    .sort((a, b) => a.createdAt - b.createdAt)
+
+  for (const batch of toBatches(dirtyThreads)) {
+    const pushed = await convex.mutation(api.sync.push, {
+      userId,
+      threads: batch.map((thread) => ({
+        threadId: thread.threadId,
+        title: thread.title,
+        model: thread.model,
+        visibility: thread.visibility,
+        createdAt: thread.createdAt,
+        updatedAt: thread.updatedAt,
+        baseUpdatedAt: thread.remoteUpdatedAt,
+      })),
+      messages: [],
+    })
+
+    const localById = new Map(batch.map((thread) => [thread.threadId, thread]))
+    // The server copy changed after our pull
+    for (const remote of pushed.rejectedThreads) {
+      conflicts.push(toThreadConflict(localById.get(remote.threadId)!, remote))
+    }
+    const rejectedIds = new Set(
+      pushed.rejectedThreads.map((remote) => remote.threadId)
+    )
+    // Skipped threads stay dirty and are retried on the next sync
+    const skippedIds = new Set(pushed.skippedThreadIds)
+
+    const applied = batch.filter(
+      (thread) =>
+        !rejectedIds.has(thread.threadId) && !skippedIds.has(thread.threadId)
+    )
+    await putThreads([
+      ...pushed.rejectedThreads.map(fromRemoteThread),
+      ...applied.map((thread) => ({
+        ...thread,
+        remoteUpdatedAt: pushed.syncedAt,
+        dirty: false,
+      })),
+    ])
+    result.pushedThreads += applied.length
+  }
+
+  for (const batch of toBatches(dirtyMessages)) {
+    const pushed = await convex.mutation(api.sync.push, {
+      userId,
+      threads: [],
+      messages: batch.map((message) => ({
+        localId: message.id,
+        remoteId: message.remoteId as Id<'messages'> | undefined,
+        threadId: message.threadId,
+        role: message.role,
+        content: message.content,
+        model: message.model,
+        finishReason: message.finishReason,
+        createdAt: message.createdAt,
+        updatedAt: message.updatedAt,
+        baseUpdatedAt: message.remoteUpdatedAt,
+      })),
+    })
+
+    const localById = new Map(batch.map((message) => [message.id, message]))
+    const createdIds = new Map(
+      pushed.created.map(({ localId, remoteId }) => [localId, remoteId])
+    )
+    const rejectedIds = new Set(pushed.rejected.map(({ localId }) => localId))
+    // Skipped messages stay dirty and are retried on the next sync
+    const skippedIds = new Set(pushed.skippedMessageIds)
+
+    // The server copy changed after our pull
+    for (const { localId, message } of pushed.rejected) {
+      conflicts.push(toConflict(localById.get(localId)!, message))
+    }
+    await putMessages(
+      pushed.rejected.map(({ message }) => fromRemoteMessage(message))
+    )
+
+    await rekeyMessages(
+      pushed.created.map(({ localId, remoteId }) => ({
+        oldId: localId,
+        message: {
+          ...localById.get(localId)!,
+          id: remoteId,
+          remoteId,
+          remoteUpdatedAt: pushed.syncedAt,
+          dirty: false,
+        },
+      }))
+    )
+    const updated = batch.filter(
+      (message) =>
+        !createdIds.has(message.id) &&
+        !rejectedIds.has(message.id) &&
+        !skippedIds.has(message.id)
+    )
+    await putMessages(
+      updated.map((message) => ({
+        ...message,
+        remoteUpdatedAt: pushed.syncedAt,
+        dirty: false,
+      }))
+    )
+    result.pushedMessages += pushed.created.length + updated.length
+  }
+
+  await addConflicts(conflicts)
+  result.conflicts = conflicts.length
+
+  await saveSyncSettings({ lastSyncedAt: serverTime })
+  return result
+}
+
+/**
+ * Run a sync, joining the one already in progress if there is one
+ */
+export function syncLocalHistory(
+  convex: ConvexReactClient,
+  userId: string
+): Promise<SyncResult> {
+  if (!runningSync) {
+    runningSync = runSync(convex, userId).finally(() => {
+      runningSync = null
+    })
+  }
+  return runningSync
+}
@@ -0,0 +1,57 @@
+// Local-first history types for T3Chat
+// Threads and messages kept in the browser's IndexedDB; with sync enabled
+// they mirror the Convex threads/messages tables
+
+export interface LocalThread {
+  threadId: string // Same ID as the Convex thread once synced
+  title: string
+  model: string
+  visibility: 'visible' | 'archived' | 'deleted'
+  createdAt: number
+  updatedAt: number
+  remoteUpdatedAt?: number // Server updatedAt of the copy last synced
+  dirty: boolean // Changed locally since the last sync
+}
+
+export interface LocalMessage {
+  id: string // Convex message _id once synced, a local nanoid before that
+  remoteId?: string // Set once the message exists in Convex
+  threadId: string
+  role: 'user' | 'assistant' | 'system' | 'tool'
+  content: string
+  model?: string
+  isStreaming: boolean
+  finishReason?: 'stop' | 'length' | 'content_filter' | 'error' | 'cancelled'
+  isActiveVersion?: boolean // false = hidden alternate version
+  createdAt: number
+  updatedAt: number
+  remoteUpdatedAt?: number
+  dirty: boolean
+}
+
+// Both copies of a message (or a thread's title) changed between syncs;
+// the cloud copy was kept
+export interface SyncConflict {
+  id?: number
+  threadId: string
+  messageId?: string // Unset for a thread; the contents are its titles
+  localContent: string
+  remoteContent: string
+  localUpdatedAt: number
+  remoteUpdatedAt: number
+  winner: 'local' | 'remote'
+  resolvedAt: number
+}
+
+export interface SyncSettings {
+  syncEnabled: boolean
+  lastSyncedAt: number | null // Server time of the last completed sync
+}
+
+export interface SyncResult {
+  pulledThreads: number
+  pulledMessages: number
+  pushedThreads: number
+  pushedMessages: number
+  conflicts: number
+}
@@ -0,0 +1,108 @@
+// Code Highlighting for T3Chat
+// Shiki loads on first use and pulls in each language's grammar the first
+// time a block needs it. Highlighted HTML is cached per language and code, so
+// a streaming reply only highlights the block that is still growing.
+
+import type { BundledLanguage, Highlighter } from 'shiki'
+
+const HIGHLIGHT_THEME = 'github-light'
+
+// Enough for a long thread's worth of blocks without holding every version
+// of a block that grew while streaming
+const MAX_CACHED_BLOCKS = 200
+
+// Download extensions for common fence languages; others use the name itself
+const FILE_EXTENSIONS: Record<string, string> = {
+  bash: 'sh',
+  c: 'c',
+  cpp: 'cpp',
+  csharp: 'cs',
+  go: 'go',
+  html: 'html',
+  java: 'java',
+  javascript: 'js',
+  js: 'js',
+  json: 'json',
+  jsx: 'jsx',
+  kotlin: 'kt',
+  markdown: 'md',
+  md: 'md',
+  python: 'py',
+  py: 'py',
+  ruby: 'rb',
+  rust: 'rs',
+  shell: 'sh',
+  sh: 'sh',
+  sql: 'sql',
+  swift: 'swift',
+  text: 'txt',
+  ts: 'ts',
+  tsx: 'tsx',
+  typescript: 'ts',
+  yaml: 'yml',
+  yml: 'yml',
+  zsh: 'sh',
+}
+
+let highlighterPromise: Promise<Highlighter> | null = null
+const cache = new Map<string, string>()
+
+function getHighlighter(): Promise<Highlighter> {
+  if (!highlighterPromise) {
+    highlighterPromise = import('shiki').then(({ createHighlighter }) =>
+      createHighlighter({ themes: [HIGHLIGHT_THEME], langs: [] })
+    )
+  }
+  return highlighterPromise
+}
+
+/**
+ * Language of a fenced block from its `language-*` class name
+ */
+export function getCodeLanguage(className: string | undefined): string {
+  const match = className?.match(/language-([\w+#-]+)/)
+  return match ? match[1].toLowerCase() : 'text'
+}
+
+export function getCodeFileName(language: string): string {
+  const extension =
+    FILE_EXTENSIONS[language] ?? (/^\w+$/.test(language) ? language : 'txt')
+  return `snippet.${extension}`
+}
+
+/**
+ * Highlighted HTML already cached for this block, if any
+ */
+export function getCachedHighlight(
+  code: string,
+  language: string
+): string | undefined {
+  return cache.get(`${language}\n${code}`)
+}
+
+/**
+ * Highlights a block as HTML; unknown languages render as plain text
+ */
+export async function highlightCode(
+  code: string,
+  language: string
+): Promise<string> {
+  const key = `${language}\n${code}`
+  const cached = cache.get(key)
+  if (cached) return cached
+
+  const { bundledLanguages } = await import('shiki')
+  const highlighter = await getHighlighter()
+  const lang = language in bundledLanguages ? language : 'text'
+  if (lang !== 'text' && !highlighter.getLoadedLanguages().includes(lang)) {
+    await highlighter.loadLanguage(lang as BundledLanguage)
+  }
+
+  const html = highlighter.codeToHtml(code, { lang, theme: HIGHLIGHT_THEME })
+
+  cache.set(key, html)
+  if (cache.size > MAX_CACHED_BLOCKS) {
+    cache.delete(cache.keys().next().value!)
+  }
+  return html
+}
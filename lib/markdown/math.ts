@@ -0,0 +1,28 @@
+// Math Delimiters for T3Chat
+// remark-math only understands dollar delimiters, and single dollars are
+// turned off so prices like "$5 and $10" stay text. Models also write LaTeX
+// as \( ... \) and \[ ... \], which are rewritten to $$ before parsing.
+
+// Fenced blocks (closed or still streaming) and inline code are left as is
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]*`)/g
+
+const DISPLAY_MATH_PATTERN = /\\\[([\s\S]+?)\\\]/g
+const INLINE_MATH_PATTERN = /\\\(([\s\S]+?)\\\)/g
+
+/**
+ * Rewrites \[ \] and \( \) math delimiters to the $$ forms remark-math reads
+ */
+export function normalizeMathDelimiters(markdown: string): string {
+  if (!markdown.includes('\\[') && !markdown.includes('\\(')) return markdown
+
+  return markdown
+    .split(CODE_PATTERN)
+    .map((part, index) => {
+      // Odd parts are the code the pattern captured
+      if (index % 2 === 1) return part
+      return part
+        .replace(DISPLAY_MATH_PATTERN, (_, tex) => `\n$$\n${tex.trim()}\n$$\n`)
+        .replace(INLINE_MATH_PATTERN, (_, tex) => `$$${tex.trim()}$$`)
+    })
+    .join('')
+}
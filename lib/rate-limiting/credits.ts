@@ -1,6 +1,8 @@
 // Credit Calculation System for T3Chat
 // Reference: zeronsh/src/ai/service.ts credit calculation patterns
 
+import { countTokens } from '@/lib/ai/tokenizer'
+
 export interface ModelCreditCost {
   baseCredits: number // Base cost per message
   tokensPerCredit: number // Additional tokens per credit
@@ -96,6 +98,7 @@ export const TOOL_CREDIT_COSTS: Record<string, number> = {
   research: 3, // Deep research with multiple queries
   file_analysis: 2, // File processing and analysis
   image_analysis: 2, // Vision model usage
+  web_fetch: 1, // Reading a web page
 }
 
 /**
@@ -141,18 +144,10 @@ export function calculateCreditCost(
 
 /**
  * Estimate token count from text content
- * Rough estimation: 1 token ≈ 4 characters for most models
+ * Uses the model family's tokenizer (see lib/ai/tokenizer.ts)
  */
-export function estimateTokenCount(text: string): number {
-  if (!text) return 0
-
-  // Basic token estimation (more sophisticated tokenizers exist but this is sufficient)
-  const roughTokens = Math.ceil(text.length / 4)
-
-  // Add buffer for system prompts and formatting
-  const bufferTokens = Math.ceil(roughTokens * 0.1)
-
-  return roughTokens + bufferTokens
+export function estimateTokenCount(text: string, model?: string): number {
+  return countTokens(text, model)
 }
 
 /**
@@ -172,7 +167,7 @@ export function getCreditCostPreview(
     multiplierApplied: boolean
   }
 } {
-  const estimatedTokens = estimateTokenCount(messageText)
+  const estimatedTokens = estimateTokenCount(messageText, model)
   const modelCost =
     MODEL_CREDIT_COSTS[model] || MODEL_CREDIT_COSTS['gpt-4o-mini']
 
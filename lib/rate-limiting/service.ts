@@ -11,7 +11,7 @@ import {
 } from '@/db/schema'
 import { eq, and, gte, lte, sql } from 'drizzle-orm'
 import { nanoid } from 'nanoid'
-import { calculateCreditCost } from './credits'
+import { calculateCreditCost, estimateTokenCount } from './credits'
 import {
   UserTier,
   RateLimitAction,
@@ -121,13 +121,21 @@ export class RateLimitService {
     limits: typeof TIER_LIMITS.Free,
     metadata?: RateLimitMetadata
   ): RateLimitResult {
-    const requiredCredits = metadata?.model
-      ? calculateCreditCost(
-          metadata.model,
-          metadata.estimatedTokens || 1000,
-          metadata.tools || []
-        )
-      : 1
+    // Count the message itself when it's provided, instead of trusting a
+    // caller's estimate
+    const estimatedTokens =
+      metadata?.content !== undefined
+        ? estimateTokenCount(metadata.content, metadata.model)
+        : metadata?.estimatedTokens || 1000
+    const requiredCredits = metadata?.ownKey
+      ? 0
+      : metadata?.model
+        ? calculateCreditCost(
+            metadata.model,
+            estimatedTokens,
+            metadata.tools || []
+          )
+        : 1
 
     const remainingCredits = Math.max(0, limits.CREDITS - usage.creditsUsed)
 
@@ -76,7 +76,9 @@ export interface RateLimitResult {
 export interface RateLimitMetadata {
   model?: string
   estimatedTokens?: number
+  content?: string // Message text, counted with the model's tokenizer
   tools?: string[]
+  ownKey?: boolean // Billed to the user's own provider key, not credits
   fileSize?: number
   searchQuery?: string
 }
@@ -93,6 +95,7 @@ export const RateLimitMetadataSchema = z
   .object({
     model: z.string().optional(),
     estimatedTokens: z.number().min(0).optional(),
+    content: z.string().optional(),
     tools: z.array(z.string()).optional(),
     fileSize: z.number().min(0).optional(),
     searchQuery: z.string().optional(),
@@ -123,11 +126,7 @@ export const RATE_LIMIT_RESET_BUFFER_MINUTES = 5 // Extra time to prevent race c
 
 // Usage Log Types
 export type UsageType =
-  | 'message'
-  | 'search'
-  | 'research'
-  | 'file_upload'
-  | 'bonus_credits'
+  'message' | 'search' | 'research' | 'file_upload' | 'bonus_credits'
 
 export interface UsageLogEntry {
   id: string
@@ -0,0 +1,268 @@
+// Search Backend Registry for T3Chat
+// Research and search tools look up the web through a backend picked by
+// SEARCH_BACKEND, or else the first web backend with its configuration set.
+// The local backend searches a fixed corpus (see fixtures.ts) and needs no
+// configuration, so it is the fallback in development and tests.
+
+import { htmlToText } from '@/lib/ai/web-fetch'
+import { FIXTURE_PAGES } from './fixtures'
+import {
+  DEFAULT_SEARCH_LIMIT,
+  SearchBackend,
+  SearchError,
+  SearchResult,
+} from './types'
+
+const FALLBACK_SEARCH_BACKEND = 'local'
+const SEARCH_TIMEOUT_MS = 10_000
+const SNIPPET_LENGTH = 240
+
+const backends = new Map<string, SearchBackend>()
+
+/**
+ * Register (or replace) a search backend
+ */
+export function registerSearchBackend(backend: SearchBackend): void {
+  backends.set(backend.name, backend)
+}
+
+export function listSearchBackends(): SearchBackend[] {
+  return Array.from(backends.values())
+}
+
+/**
+ * Get a search backend by name, or the default one
+ * Throws SearchError when it isn't registered or lacks its configuration.
+ */
+export function getSearchBackend(
+  name = process.env.SEARCH_BACKEND
+): SearchBackend {
+  if (!name) {
+    return (
+      listSearchBackends().find(
+        (backend) =>
+          backend.name !== FALLBACK_SEARCH_BACKEND && backend.isConfigured()
+      ) ?? getSearchBackend(FALLBACK_SEARCH_BACKEND)
+    )
+  }
+
+  const backend = backends.get(name)
+  if (!backend) {
+    throw new SearchError(
+      `Unknown search backend: ${name}`,
+      'BACKEND_NOT_FOUND'
+    )
+  }
+  if (!backend.isConfigured()) {
+    throw new SearchError(
+      `Search backend ${backend.label} is not configured`,
+      'BACKEND_NOT_CONFIGURED'
+    )
+  }
+  return backend
+}
+
+// GET or POST a search API, failing with SearchError on HTTP errors
+async function requestSearch<T>(
+  label: string,
+  url: string | URL,
+  init: RequestInit & { signal?: AbortSignal }
+): Promise<T> {
+  const timeout = AbortSignal.timeout(SEARCH_TIMEOUT_MS)
+  const response = await fetch(url, {
+    ...init,
+    signal: init.signal ? AbortSignal.any([init.signal, timeout]) : timeout,
+  })
+
+  if (!response.ok) {
+    throw new SearchError(
+      `${label} search failed with HTTP ${response.status}`,
+      'SEARCH_FAILED'
+    )
+  }
+  return (await response.json()) as T
+}
+
+function toSnippet(text: string | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim().slice(0, SNIPPET_LENGTH)
+}
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'are',
+  'how',
+  'what',
+  'why',
+  'does',
+  'with',
+  'from',
+  'that',
+  'this',
+  'which',
+  'when',
+  'into',
+  'about',
+])
+
+function getTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []).filter(
+    (term) => !STOP_WORDS.has(term)
+  )
+}
+
+// The first sentence that mentions a query term
+function getSnippet(content: string, terms: string[]): string {
+  const sentences = content.split(/(?<=[.!?])\s+/)
+  const match =
+    sentences.find((sentence) =>
+      terms.some((term) => sentence.toLowerCase().includes(term))
+    ) ?? sentences[0]
+  return match.slice(0, SNIPPET_LENGTH).trim()
+}
+
+// Built-in backends
+registerSearchBackend({
+  name: 'exa',
+  label: 'Exa',
+  isConfigured: () => !!process.env.EXA_API_KEY,
+  search: async (query, { limit = DEFAULT_SEARCH_LIMIT, signal } = {}) => {
+    const data = await requestSearch<{
+      results: {
+        url: string
+        title: string | null
+        text?: string
+        publishedDate?: string | null
+      }[]
+    }>('Exa', 'https://api.exa.ai/search', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': process.env.EXA_API_KEY!,
+      },
+      body: JSON.stringify({
+        query,
+        numResults: limit,
+        contents: { text: { maxCharacters: SNIPPET_LENGTH * 2 } },
+      }),
+      signal,
+    })
+
+    return data.results.map((result) => ({
+      url: result.url,
+      title: result.title || result.url,
+      snippet: toSnippet(result.text),
+      publishedAt: result.publishedDate ?? undefined,
+    }))
+  },
+})
+
+registerSearchBackend({
+  name: 'brave',
+  label: 'Brave Search',
+  isConfigured: () => !!process.env.BRAVE_SEARCH_API_KEY,
+  search: async (query, { limit = DEFAULT_SEARCH_LIMIT, signal } = {}) => {
+    const url = new URL('https://api.search.brave.com/res/v1/web/search')
+    url.searchParams.set('q', query)
+    url.searchParams.set('count', String(limit))
+
+    const data = await requestSearch<{
+      web?: {
+        results: {
+          url: string
+          title: string
+          description?: string
+          page_age?: string
+        }[]
+      }
+    }>('Brave', url, {
+      headers: {
+        Accept: 'application/json',
+        'X-Subscription-Token': process.env.BRAVE_SEARCH_API_KEY!,
+      },
+      signal,
+    })
+
+    // Titles and descriptions mark query terms with <strong>
+    return (data.web?.results ?? []).map((result) => ({
+      url: result.url,
+      title: htmlToText(result.title).text,
+      snippet: toSnippet(htmlToText(result.description ?? '').text),
+      publishedAt: result.page_age,
+    }))
+  },
+})
+
+registerSearchBackend({
+  name: 'searxng',
+  label: 'SearXNG',
+  // The instance must have the json format enabled in its settings
+  isConfigured: () => !!process.env.SEARXNG_URL,
+  search: async (query, { limit = DEFAULT_SEARCH_LIMIT, signal } = {}) => {
+    const url = new URL('search', process.env.SEARXNG_URL!.replace(/\/?$/, '/'))
+    url.searchParams.set('q', query)
+    url.searchParams.set('format', 'json')
+
+    const data = await requestSearch<{
+      results: {
+        url: string
+        title: string
+        content?: string
+        publishedDate?: string | null
+      }[]
+    }>('SearXNG', url, { headers: { Accept: 'application/json' }, signal })
+
+    return data.results.slice(0, limit).map((result) => ({
+      url: result.url,
+      title: result.title || result.url,
+      snippet: toSnippet(result.content),
+      publishedAt: result.publishedDate ?? undefined,
+    }))
+  },
+})
+
+registerSearchBackend({
+  name: 'local',
+  label: 'Local corpus',
+  isConfigured: () => true,
+  // Rank pages by query terms found, weighting title matches higher
+  search: async (query, { limit = DEFAULT_SEARCH_LIMIT } = {}) => {
+    const terms = getTerms(query)
+
+    return FIXTURE_PAGES.map((page) => {
+      const title = page.title.toLowerCase()
+      const content = page.content.toLowerCase()
+      const score = terms.reduce(
+        (total, term) =>
+          total +
+          (title.includes(term) ? 3 : 0) +
+          (content.includes(term) ? 1 : 0),
+        0
+      )
+      return { page, score }
+    })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ page }): SearchResult => ({
+        url: page.url,
+        title: page.title,
+        snippet: getSnippet(page.content, terms),
+        publishedAt: page.publishedAt,
+      }))
+  },
+  fetchPage: async (url, { maxLength = Infinity } = {}) => {
+    const page = FIXTURE_PAGES.find((fixture) => fixture.url === url)
+    if (!page) {
+      throw new SearchError(`Page not found: ${url}`, 'SEARCH_FAILED')
+    }
+
+    return {
+      url: page.url,
+      title: page.title,
+      content: page.content.slice(0, maxLength),
+      truncated: page.content.length > maxLength,
+    }
+  },
+})
@@ -0,0 +1,86 @@
+// Inline Citations for T3Chat
+// Replies cite the sources stored on the message as [n] (or [1, 2]). A
+// remark plugin turns those markers into links to CITATION_HREF_PREFIX + n,
+// which the message renderer shows as citation chips.
+
+export const CITATION_HREF_PREFIX = '#cite-'
+
+// [n] or [n, m, ...] outside links and code
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g
+
+// The parts of an mdast node the plugin reads and writes
+interface MarkdownNode {
+  type: string
+  value?: string
+  url?: string
+  children?: MarkdownNode[]
+}
+
+function splitCitations(text: string, sourceCount: number): MarkdownNode[] {
+  const nodes: MarkdownNode[] = []
+  let last = 0
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const numbers = match[1].split(',').map((entry) => Number(entry.trim()))
+    // Leave brackets that don't point at a stored source as written
+    if (numbers.some((number) => number < 1 || number > sourceCount)) continue
+
+    if (match.index > last) {
+      nodes.push({ type: 'text', value: text.slice(last, match.index) })
+    }
+    for (const number of numbers) {
+      nodes.push({
+        type: 'link',
+        url: `${CITATION_HREF_PREFIX}${number}`,
+        children: [{ type: 'text', value: String(number) }],
+      })
+    }
+    last = match.index + match[0].length
+  }
+
+  if (last === 0) return [{ type: 'text', value: text }]
+  if (last < text.length) {
+    nodes.push({ type: 'text', value: text.slice(last) })
+  }
+  return nodes
+}
+
+function visit(node: MarkdownNode, sourceCount: number) {
+  if (!node.children || node.type === 'link' || node.type === 'linkReference') {
+    return
+  }
+
+  node.children = node.children.flatMap((child) => {
+    if (child.type === 'text' && child.value) {
+      return splitCitations(child.value, sourceCount)
+    }
+    visit(child, sourceCount)
+    return [child]
+  })
+}
+
+/**
+ * Remark plugin that links [n] markers to the message's sources
+ */
+export function remarkCitations({ sourceCount }: { sourceCount: number }) {
+  return (tree: MarkdownNode) => {
+    if (sourceCount > 0) visit(tree, sourceCount)
+  }
+}
+
+/**
+ * Source number of a citation link, or null for any other link
+ */
+export function getCitationNumber(href: string | undefined): number | null {
+  if (!href?.startsWith(CITATION_HREF_PREFIX)) return null
+  const number = Number(href.slice(CITATION_HREF_PREFIX.length))
+  return Number.isInteger(number) ? number : null
+}
+
+export function getSourceHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
@@ -0,0 +1,103 @@
+// Local Search Corpus for T3Chat
+// A small fixed set of pages served by the "local" search backend, so
+// research runs work offline in development and tests without a search API.
+
+export interface FixturePage {
+  url: string
+  title: string
+  publishedAt?: string
+  content: string
+}
+
+export const FIXTURE_PAGES: FixturePage[] = [
+  {
+    url: 'https://docs.example.com/web/http-caching',
+    title: 'HTTP caching explained',
+    publishedAt: '2024-03-12',
+    content: `HTTP caching lets browsers and shared caches reuse earlier responses instead of downloading them again.
+
+The Cache-Control header is the main control. max-age sets how many seconds a response stays fresh, no-store forbids storing it at all, and no-cache allows storing it but requires revalidation before every reuse. private limits storage to the browser, while public allows shared caches such as CDNs to keep a copy.
+
+When a cached response is stale, the cache revalidates it with a conditional request. ETag and If-None-Match compare an opaque version identifier; Last-Modified and If-Modified-Since compare dates. A 304 Not Modified response tells the cache it can keep using its stored body.
+
+stale-while-revalidate lets a cache serve a stale response for a short window while it fetches a fresh one in the background, which hides revalidation latency from users.`,
+  },
+  {
+    url: 'https://docs.example.com/web/cdn-basics',
+    title: 'How content delivery networks work',
+    publishedAt: '2023-11-02',
+    content: `A content delivery network (CDN) is a set of servers spread across many regions that keep copies of content close to users.
+
+When a user requests a file, DNS or anycast routing sends them to a nearby edge server. If the edge has a fresh cached copy it answers immediately; otherwise it fetches the file from the origin server, stores it and then answers. This reduces latency and offloads traffic from the origin.
+
+CDNs honor HTTP caching headers such as Cache-Control and s-maxage, which applies only to shared caches. Purging or versioned file names (for example app.3f2a1c.js) are the usual ways to publish new content before a cached copy expires.
+
+Many CDNs also terminate TLS, absorb denial-of-service traffic and run small programs at the edge.`,
+  },
+  {
+    url: 'https://docs.example.com/databases/indexes',
+    title: 'Database indexes: a practical introduction',
+    publishedAt: '2024-01-20',
+    content: `An index is a separate data structure that lets a database find rows without scanning the whole table. Most relational databases use B-tree indexes, which keep keys sorted and support equality lookups, range queries and ordered scans.
+
+Indexes speed up reads but cost extra storage and slow down writes, because every insert, update or delete must also update each index on the table.
+
+A composite index covers several columns; it helps queries that filter on a leading prefix of those columns. A covering index contains every column a query needs, so the database can answer from the index alone.
+
+Use the query planner's EXPLAIN output to confirm that a query actually uses an index. Low-selectivity columns, such as booleans, rarely benefit from an index on their own.`,
+  },
+  {
+    url: 'https://docs.example.com/databases/connection-pooling',
+    title: 'Why connection pooling matters',
+    publishedAt: '2023-08-15',
+    content: `Opening a database connection involves a network handshake, authentication and memory allocation on the server, so it is far slower than running a simple query.
+
+A connection pool keeps a set of open connections and lends them to requests. When a request finishes, the connection goes back to the pool instead of being closed.
+
+Serverless functions make pooling harder because each instance may open its own connections and instances come and go quickly. External poolers such as PgBouncer, or HTTP-based database drivers, keep the number of real database connections bounded.
+
+Pool size should stay below the database's connection limit; a larger pool often increases contention rather than throughput.`,
+  },
+  {
+    url: 'https://docs.example.com/energy/solar-panels',
+    title: 'Solar panels: efficiency and lifespan',
+    publishedAt: '2024-05-08',
+    content: `Photovoltaic solar panels convert sunlight into electricity using semiconductor cells, most commonly made of crystalline silicon.
+
+Typical residential panels sold today convert roughly 18 to 23 percent of incoming sunlight into electricity. Monocrystalline panels are usually more efficient than polycrystalline ones, while thin-film panels are cheaper and lighter but less efficient.
+
+Output falls as panels get hotter, so hot climates see lower efficiency than the rated figure. Shading of even part of a panel can reduce the output of a whole string unless optimizers or microinverters are used.
+
+Manufacturers commonly warrant panels for 25 years, and panels typically lose around half a percent of output per year.`,
+  },
+  {
+    url: 'https://docs.example.com/energy/home-batteries',
+    title: 'Home battery storage basics',
+    publishedAt: '2024-02-27',
+    content: `Home batteries store electricity, usually from rooftop solar, for use in the evening or during outages. Most current systems use lithium-ion chemistry, with lithium iron phosphate (LFP) becoming common because of its long cycle life and thermal stability.
+
+Capacity is measured in kilowatt-hours (how much energy is stored) and power in kilowatts (how fast it can be delivered). A battery that pairs with solar panels lets a household use more of its own generation instead of exporting it.
+
+Round-trip efficiency, the share of stored energy that can be used again, is typically around 85 to 95 percent. Warranties are often expressed in years and in total energy throughput.`,
+  },
+  {
+    url: 'https://docs.example.com/health/sleep',
+    title: 'Sleep and memory',
+    publishedAt: '2023-10-10',
+    content: `Sleep plays an active role in memory. During slow-wave sleep, recently learned information is replayed and gradually integrated into long-term memory, while REM sleep is linked to emotional memory and creative association.
+
+Most adults need seven to nine hours of sleep per night. Short sleep impairs attention and the ability to form new memories the next day.
+
+Consistent sleep and wake times, limited caffeine late in the day and a dark, cool bedroom are commonly recommended to improve sleep quality.`,
+  },
+  {
+    url: 'https://docs.example.com/health/caffeine',
+    title: 'How caffeine affects the body',
+    publishedAt: '2024-04-03',
+    content: `Caffeine is a stimulant that blocks adenosine receptors in the brain. Adenosine builds up during waking hours and creates sleep pressure, so blocking it increases alertness.
+
+Caffeine's half-life in healthy adults is around five hours, though it varies widely between people. Coffee late in the afternoon can therefore still affect sleep at night, reducing deep sleep even when people fall asleep normally.
+
+Regular use leads to tolerance, and stopping abruptly can cause headaches and fatigue for a few days.`,
+  },
+]
@@ -0,0 +1,53 @@
+// Web Search and Research Types for T3Chat
+
+import type { Doc } from '@/convex/_generated/dataModel'
+import type { FetchedPage } from '@/lib/ai/web-fetch'
+
+// Results a backend returns per query unless the caller asks for fewer
+export const DEFAULT_SEARCH_LIMIT = 5
+
+// A source a reply cites (matches messages.sources)
+export type Source = NonNullable<Doc<'messages'>['sources']>[number]
+
+// Research run progress (matches messages.research)
+export type ResearchState = NonNullable<Doc<'messages'>['research']>
+export type ResearchStatus = ResearchState['status']
+
+export interface SearchResult {
+  url: string
+  title: string
+  snippet: string
+  publishedAt?: string // ISO date when the backend knows it
+}
+
+export interface SearchOptions {
+  limit?: number
+  signal?: AbortSignal
+}
+
+// A place to search the web (or a stand-in corpus). Backends that can't
+// serve page content leave fetchPage out and pages are fetched directly.
+export interface SearchBackend {
+  name: string
+  label: string
+  isConfigured: () => boolean
+  search: (query: string, options?: SearchOptions) => Promise<SearchResult[]>
+  fetchPage?: (
+    url: string,
+    options?: { signal?: AbortSignal; maxLength?: number }
+  ) => Promise<FetchedPage>
+}
+
+// Error Types
+export type SearchErrorCode =
+  'BACKEND_NOT_FOUND' | 'BACKEND_NOT_CONFIGURED' | 'SEARCH_FAILED'
+
+export class SearchError extends Error {
+  constructor(
+    message: string,
+    public code: SearchErrorCode
+  ) {
+    super(message)
+    this.name = 'SearchError'
+  }
+}
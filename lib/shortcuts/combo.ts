@@ -0,0 +1,282 @@
+// Keyboard shortcut parsing, matching and display
+// Combos are stored as lowercase "+"-joined strings such as "cmd+shift+o".
+// Keys come from KeyboardEvent.code where possible, so Shift and Option
+// don't change which key a combo refers to.
+
+import {
+  ParsedShortcut,
+  RESERVED_SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  ShortcutBindings,
+  ShortcutConflict,
+  ShortcutParseError,
+} from './types'
+
+const MODIFIER_ALIASES: Record<string, keyof Omit<ParsedShortcut, 'key'>> = {
+  cmd: 'cmd',
+  command: 'cmd',
+  meta: 'cmd',
+  mod: 'cmd',
+  ctrl: 'ctrl',
+  control: 'ctrl',
+  alt: 'alt',
+  option: 'alt',
+  opt: 'alt',
+  shift: 'shift',
+}
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'escape',
+  return: 'enter',
+  up: 'arrowup',
+  down: 'arrowdown',
+  left: 'arrowleft',
+  right: 'arrowright',
+  del: 'delete',
+  ' ': 'space',
+}
+
+// KeyboardEvent.code for punctuation keys
+const CODE_KEYS: Record<string, string> = {
+  BracketLeft: '[',
+  BracketRight: ']',
+  Slash: '/',
+  Backslash: '\\',
+  Period: '.',
+  Comma: ',',
+  Semicolon: ';',
+  Quote: "'",
+  Backquote: '`',
+  Minus: '-',
+  Equal: '=',
+  Space: 'space',
+}
+
+const MODIFIER_KEYS = new Set(['meta', 'control', 'alt', 'shift', 'os'])
+
+const KEY_LABELS: Record<string, string> = {
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+  escape: 'Esc',
+  enter: 'Enter',
+  backspace: 'Backspace',
+  delete: 'Delete',
+  tab: 'Tab',
+  space: 'Space',
+}
+
+/**
+ * Whether the current device uses ⌘ as its primary modifier
+ * Returns false during server rendering.
+ */
+export function isMacPlatform(): boolean {
+  if (typeof navigator === 'undefined') return false
+  return /mac|iphone|ipad|ipod/i.test(navigator.platform || navigator.userAgent)
+}
+
+/**
+ * Parse a combo like "cmd+shift+o"
+ * Throws ShortcutParseError when it has no key, more than one key or a
+ * printable key without a modifier that would fire while typing.
+ */
+export function parseShortcut(shortcut: string): ParsedShortcut {
+  const parsed: ParsedShortcut = {
+    key: '',
+    cmd: false,
+    ctrl: false,
+    alt: false,
+    shift: false,
+  }
+
+  const parts = shortcut.trim().toLowerCase().split('+')
+  for (const part of parts) {
+    const name = part.trim()
+    const modifier = MODIFIER_ALIASES[name]
+    if (modifier) {
+      parsed[modifier] = true
+      continue
+    }
+    if (!name) {
+      throw new ShortcutParseError(`Invalid shortcut "${shortcut}"`)
+    }
+    if (parsed.key) {
+      throw new ShortcutParseError(
+        `Shortcut "${shortcut}" can only have one non-modifier key`
+      )
+    }
+    parsed.key = KEY_ALIASES[name] ?? name
+  }
+
+  if (!parsed.key) {
+    throw new ShortcutParseError(`Shortcut "${shortcut}" needs a key`)
+  }
+
+  const isPrintable = parsed.key.length === 1
+  const hasModifier = parsed.cmd || parsed.ctrl || parsed.alt || parsed.shift
+  if (isPrintable ? !(parsed.cmd || parsed.ctrl || parsed.alt) : !hasModifier) {
+    throw new ShortcutParseError(
+      isPrintable
+        ? `Shortcut "${shortcut}" needs ${isMacPlatform() ? '⌘, ⌃ or ⌥' : 'Ctrl or Alt'}`
+        : `Shortcut "${shortcut}" needs a modifier key`
+    )
+  }
+
+  return parsed
+}
+
+/**
+ * Parse a combo, returning null instead of throwing
+ */
+export function tryParseShortcut(shortcut: string): ParsedShortcut | null {
+  try {
+    return parseShortcut(shortcut)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Write a parsed combo in canonical form (modifiers in a fixed order)
+ */
+export function stringifyShortcut(parsed: ParsedShortcut): string {
+  return [
+    parsed.cmd && 'cmd',
+    parsed.ctrl && 'ctrl',
+    parsed.alt && 'alt',
+    parsed.shift && 'shift',
+    parsed.key,
+  ]
+    .filter(Boolean)
+    .join('+')
+}
+
+// The physical modifiers a combo needs on this platform
+function resolveModifiers(parsed: ParsedShortcut, isMac: boolean) {
+  return {
+    meta: isMac && parsed.cmd,
+    ctrl: parsed.ctrl || (!isMac && parsed.cmd),
+    alt: parsed.alt,
+    shift: parsed.shift,
+  }
+}
+
+// Normalized key name for a keydown event
+function eventKey(event: KeyboardEvent): string {
+  if (/^Key[A-Z]$/.test(event.code)) return event.code.slice(3).toLowerCase()
+  if (/^Digit[0-9]$/.test(event.code)) return event.code.slice(5)
+  if (CODE_KEYS[event.code]) return CODE_KEYS[event.code]
+
+  const key = event.key.toLowerCase()
+  return KEY_ALIASES[key] ?? key
+}
+
+/**
+ * Whether a keydown event is the given combo on this platform
+ */
+export function matchesShortcut(
+  event: KeyboardEvent,
+  parsed: ParsedShortcut,
+  isMac = isMacPlatform()
+): boolean {
+  const modifiers = resolveModifiers(parsed, isMac)
+
+  return (
+    eventKey(event) === parsed.key &&
+    event.metaKey === modifiers.meta &&
+    event.ctrlKey === modifiers.ctrl &&
+    event.altKey === modifiers.alt &&
+    event.shiftKey === modifiers.shift
+  )
+}
+
+/**
+ * Record a combo from a key press, for the rebinding UI
+ * Ctrl is stored as "cmd" outside macOS so bindings carry across devices.
+ * Returns null while only modifiers are held.
+ */
+export function shortcutFromEvent(
+  event: KeyboardEvent,
+  isMac = isMacPlatform()
+): string | null {
+  if (MODIFIER_KEYS.has(event.key.toLowerCase())) return null
+
+  return stringifyShortcut({
+    key: eventKey(event),
+    cmd: isMac ? event.metaKey : event.ctrlKey || event.metaKey,
+    ctrl: isMac && event.ctrlKey,
+    alt: event.altKey,
+    shift: event.shiftKey,
+  })
+}
+
+/**
+ * Key labels for showing a combo, e.g. ["⌘", "Shift", "O"]
+ */
+export function formatShortcut(
+  shortcut: string,
+  isMac = isMacPlatform()
+): string[] {
+  const parsed = tryParseShortcut(shortcut)
+  if (!parsed) return [shortcut]
+
+  const labels: string[] = []
+  if (parsed.cmd) labels.push(isMac ? '⌘' : 'Ctrl')
+  if (parsed.ctrl && isMac) labels.push('⌃')
+  if (parsed.alt) labels.push(isMac ? '⌥' : 'Alt')
+  if (parsed.shift) labels.push('Shift')
+  labels.push(KEY_LABELS[parsed.key] ?? parsed.key.toUpperCase())
+  return labels
+}
+
+/**
+ * Bindings that collide with each other or with browser shortcuts
+ * Combos are compared as this platform presses them, so "cmd+k" and
+ * "ctrl+k" conflict everywhere except macOS.
+ */
+export function findShortcutConflicts(
+  bindings: ShortcutBindings,
+  isMac = isMacPlatform()
+): ShortcutConflict[] {
+  const signature = (parsed: ParsedShortcut) => {
+    const modifiers = resolveModifiers(parsed, isMac)
+    return [
+      modifiers.meta && 'meta',
+      modifiers.ctrl && 'ctrl',
+      modifiers.alt && 'alt',
+      modifiers.shift && 'shift',
+      parsed.key,
+    ]
+      .filter(Boolean)
+      .join('+')
+  }
+
+  const reserved = new Set(
+    RESERVED_SHORTCUTS.map((shortcut) => signature(parseShortcut(shortcut)))
+  )
+  const actionsBySignature = new Map<string, ShortcutAction[]>()
+  for (const action of SHORTCUT_ACTIONS) {
+    const parsed = tryParseShortcut(bindings[action])
+    if (!parsed) continue
+    const key = signature(parsed)
+    actionsBySignature.set(key, [
+      ...(actionsBySignature.get(key) ?? []),
+      action,
+    ])
+  }
+
+  const conflicts: ShortcutConflict[] = []
+  for (const [key, actions] of actionsBySignature) {
+    const isReserved = reserved.has(key)
+    if (actions.length > 1 || isReserved) {
+      conflicts.push({
+        shortcut: bindings[actions[0]],
+        actions,
+        reserved: isReserved,
+      })
+    }
+  }
+  return conflicts
+}
@@ -0,0 +1,64 @@
+// Global keyboard shortcut manager
+// One keydown listener dispatches to whichever component registered the
+// matching action most recently, so a shortcut works from anywhere in the
+// chat UI without each component listening on its own.
+
+import { matchesShortcut, tryParseShortcut } from './combo'
+import {
+  ParsedShortcut,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  ShortcutBindings,
+} from './types'
+
+type ShortcutHandler = () => void
+
+const handlers = new Map<ShortcutAction, ShortcutHandler[]>()
+let bindings: { action: ShortcutAction; parsed: ParsedShortcut }[] = []
+
+/**
+ * Replace the active bindings; invalid combos are left unbound
+ */
+export function setShortcutBindings(next: ShortcutBindings) {
+  bindings = SHORTCUT_ACTIONS.flatMap((action) => {
+    const parsed = tryParseShortcut(next[action])
+    return parsed ? [{ action, parsed }] : []
+  })
+}
+
+/**
+ * Handle an action until the returned function is called
+ */
+export function registerShortcut(
+  action: ShortcutAction,
+  handler: ShortcutHandler
+): () => void {
+  handlers.set(action, [...(handlers.get(action) ?? []), handler])
+  return () => {
+    handlers.set(
+      action,
+      (handlers.get(action) ?? []).filter((entry) => entry !== handler)
+    )
+  }
+}
+
+/**
+ * Run the handler bound to a key press
+ * Returns true when a handler ran. With conflicting bindings the action
+ * listed first in SHORTCUT_ACTIONS wins.
+ */
+export function dispatchShortcut(event: KeyboardEvent): boolean {
+  if (event.defaultPrevented || event.isComposing) return false
+
+  for (const { action, parsed } of bindings) {
+    if (!matchesShortcut(event, parsed)) continue
+
+    const registered = handlers.get(action)
+    const handler = registered?.[registered.length - 1]
+    if (!handler) continue
+
+    handler()
+    return true
+  }
+  return false
+}
@@ -0,0 +1,81 @@
+// Keyboard Shortcut Types and Constants for T3Chat
+
+// Actions that can be bound (keys match userPreferences.shortcuts)
+export const SHORTCUT_ACTIONS = [
+  'search',
+  'newChat',
+  'toggleSidebar',
+  'stopGeneration',
+  'regenerate',
+  'copyLastReply',
+  'focusComposer',
+  'nextThread',
+  'previousThread',
+] as const
+
+export type ShortcutAction = (typeof SHORTCUT_ACTIONS)[number]
+
+export type ShortcutBindings = Record<ShortcutAction, string>
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  search: 'Search',
+  newChat: 'New Chat',
+  toggleSidebar: 'Toggle Sidebar',
+  stopGeneration: 'Stop Generation',
+  regenerate: 'Regenerate Reply',
+  copyLastReply: 'Copy Last Reply',
+  focusComposer: 'Focus Message Input',
+  nextThread: 'Next Conversation',
+  previousThread: 'Previous Conversation',
+}
+
+// "cmd" is the platform's primary modifier: ⌘ on macOS, Ctrl elsewhere
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  search: 'cmd+k',
+  newChat: 'cmd+shift+o',
+  toggleSidebar: 'cmd+b',
+  stopGeneration: 'cmd+shift+s',
+  regenerate: 'cmd+shift+e',
+  copyLastReply: 'cmd+shift+;',
+  focusComposer: 'shift+escape',
+  nextThread: 'alt+arrowdown',
+  previousThread: 'alt+arrowup',
+}
+
+// Browser and devtools shortcuts a page can't reliably take over
+export const RESERVED_SHORTCUTS = [
+  'cmd+n',
+  'cmd+q',
+  'cmd+r',
+  'cmd+t',
+  'cmd+w',
+  'cmd+shift+c',
+  'cmd+shift+i',
+  'cmd+shift+j',
+  'cmd+shift+n',
+  'cmd+shift+t',
+  'cmd+shift+w',
+]
+
+// A combo broken into its parts
+export interface ParsedShortcut {
+  key: string // Normalized key name, e.g. "k", "arrowup", "escape"
+  cmd: boolean // Primary modifier (⌘ on macOS, Ctrl elsewhere)
+  ctrl: boolean // Control, distinct from cmd on macOS only
+  alt: boolean
+  shift: boolean
+}
+
+// Two or more bindings that fire on the same key press
+export interface ShortcutConflict {
+  shortcut: string
+  actions: ShortcutAction[]
+  reserved: boolean // Also taken by the browser
+}
+
+export class ShortcutParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ShortcutParseError'
+  }
+}
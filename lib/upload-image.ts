@@ -9,17 +9,27 @@ const r2 = new S3Client({
   },
 })
 
-export const uploadImageAssets = async (buffer: Buffer, key: string) => {
+const PUBLIC_URL = 'https://pub-6f0cf05705c7412b93a792350f3b3aa5.r2.dev'
+
+export const uploadImageAssets = async (
+  buffer: Buffer,
+  key: string,
+  contentType = 'image/*'
+) => {
   await r2.send(
     new PutObjectCommand({
       Bucket: process.env.R2_UPLOAD_IMAGE_BUCKET_NAME!,
       Key: key,
       Body: buffer,
-      ContentType: 'image/*',
+      ContentType: contentType,
       ACL: 'public-read', // optional if bucket is public
     })
   )
 
-  const publicUrl = `https://pub-6f0cf05705c7412b93a792350f3b3aa5.r2.dev/${key}`
+  const publicUrl = `${PUBLIC_URL}/${key}`
   return publicUrl
 }
+
+// Whether a URL points at a file uploaded through uploadImageAssets
+export const isUploadedAssetUrl = (url: string) =>
+  url.startsWith(`${PUBLIC_URL}/`)